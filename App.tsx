@@ -1,168 +1,511 @@
-import React, { useState, useEffect, useRef, useCallback } from 'react';
-import { Message, DeploymentStatus } from './types';
-import { generateTextResponse, generateImageResponse, generateGroundedResponse, generateWebsiteAnalysis, generateCodeModification } from './services/geminiService';
-import { fetchWebsiteContent } from './services/websiteService';
-import { deployApp, getProjectFiles } from './services/deploymentService';
+import React, { useState, useEffect, useRef, useCallback, useMemo } from 'react';
+import { Message, CodeChangeStatus, ChatSession, Attachment, ImageGenerationOptions, ModelUsage, UsageRecord } from './types';
+import { generateTextResponse, generateImageResponse, generateGroundedResponse, generateWebsiteAnalysis, generateCodeModification, classifyIntent, generateSessionTitle } from './services/geminiService';
+import { routeIntent, INTENT_DESCRIPTIONS } from './services/intentRouter';
+import { restoreFromMessages, restoreFileFromMessages } from './services/virtualFileSystem';
+import { parseCommand, parseAnalyzeArgument, formatHelp, CommandName, SlashCommand } from './services/commandRegistry';
+import { fetchWebsites } from './services/websiteService';
+import { getDeploymentProvider } from './services/deploymentProviders';
+import { deployApp, ProgressUpdate, DeploymentProviderId } from './services/deploymentService';
+import { getProjectFiles } from './services/projectFiles';
+import { createSession, createGreeting, isGreeting, getActiveSessionId, setActiveSessionId, getFirstExchange } from './services/sessionStore';
 import Header from './components/Header';
 import ChatMessage from './components/ChatMessage';
 import ChatInput from './components/ChatInput';
 import TypingIndicator from './components/TypingIndicator';
+import { loadSessions, saveSessions, loadUsage, appendUsage } from './services/chatStorage';
+import { exportConversation, parseConversationExport, ExportFormat } from './services/conversationExport';
+import { indexSessions } from './services/searchIndex';
+import DeploymentsPanel from './components/DeploymentsPanel';
+import SessionSidebar from './components/SessionSidebar';
+import StorageWarning from './components/StorageWarning';
+import SearchPanel from './components/SearchPanel';
+import ImageGallery from './components/ImageGallery';
+import { loadImageOptions, saveImageOptions } from './services/imageOptions';
+import SettingsPanel from './components/SettingsPanel';
+import { loadVoiceSettings, saveVoiceSettings, VoiceSettings } from './services/voiceSettings';
+import { getSpeechSynthesizer, toSpeakableText } from './services/speech';
+import { loadPersonaSettings, savePersonaSettings, resolvePersona, addressUser, PersonaSettings } from './services/personas';
+import { loadModelSettings, saveModelSettings, setActiveModelSettings, resolveModel, ModelSettings } from './services/modelSettings';
+import { loadUsageSettings, saveUsageSettings, getBudgetWarningMonth, setBudgetWarningMonth, UsageSettings } from './services/usageSettings';
+import { addMessageUsage, createUsageRecord, summarizeUsage, startOfMonth, monthKey, formatCost } from './services/usage';
+import UsageDashboard from './components/UsageDashboard';
+import { activePath, appendToBranch, removeMessage, branchAfter, showMessage, switchVersion, versionsOf, copyBranch, childrenOf } from './services/messageTree';
 
-const STORAGE_KEY = 'alfreyaa_chat_history';
-const INITIAL_MESSAGE: Message = {
-  id: 'alfreyaa-init',
-  text: "Greetings, Kaarthi. Alfreyaa is operational.",
-  sender: 'ai',
-  type: 'text',
+// Accepted code changes apply to the whole app, so the overlay is rebuilt from every session.
+const messagesInOrder = (sessions: ChatSession[]): Message[] =>
+  [...sessions].sort((a, b) => a.createdAt - b.createdAt).flatMap(session => session.messages);
+
+const restoreFileSystem = (sessions: ChatSession[]) => {
+  restoreFromMessages(messagesInOrder(sessions));
 };
 
 const App: React.FC = () => {
-  const [messages, setMessages] = useState<Message[]>([]);
-  const [isLoading, setIsLoading] = useState<boolean>(false);
+  const [sessions, setSessions] = useState<ChatSession[]>([]);
+  const [activeSessionId, setActiveSession] = useState<string>('');
+  // Nothing is saved until the stored sessions have been loaded, so they are never overwritten.
+  const [isStorageLoaded, setIsStorageLoaded] = useState<boolean>(false);
+  const [storageWarning, setStorageWarning] = useState<string | null>(null);
+  const [isSidebarOpen, setIsSidebarOpen] = useState<boolean>(() => window.innerWidth >= 768);
+  // The session waiting for a reply; one request runs at a time.
+  const [loadingSessionId, setLoadingSessionId] = useState<string | null>(null);
+  const [isDeploymentsPanelOpen, setIsDeploymentsPanelOpen] = useState<boolean>(false);
+  const [isSearchPanelOpen, setIsSearchPanelOpen] = useState<boolean>(false);
+  const [highlightedMessageId, setHighlightedMessageId] = useState<string | null>(null);
+  const [isGalleryOpen, setIsGalleryOpen] = useState<boolean>(false);
+  const [imageOptions, setImageOptions] = useState<ImageGenerationOptions>(loadImageOptions);
+  const [isSettingsOpen, setIsSettingsOpen] = useState<boolean>(false);
+  const [voiceSettings, setVoiceSettings] = useState<VoiceSettings>(loadVoiceSettings);
+  const [speakingMessageId, setSpeakingMessageId] = useState<string | null>(null);
+  const [personaSettings, setPersonaSettings] = useState<PersonaSettings>(loadPersonaSettings);
+  const [modelSettings, setModelSettings] = useState<ModelSettings>(loadModelSettings);
+  const [usageSettings, setUsageSettings] = useState<UsageSettings>(loadUsageSettings);
+  // The usage ledger, which outlives the conversations the requests were made in.
+  const [usageRecords, setUsageRecords] = useState<UsageRecord[]>([]);
+  const [isUsageOpen, setIsUsageOpen] = useState<boolean>(false);
   const chatEndRef = useRef<HTMLDivElement>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
+  const deploymentControllersRef = useRef(new Map<string, AbortController>());
+  const titleRequestsRef = useRef(new Set<string>());
+  // Failed requests by the id of their error message, so they can be run again while the app is open.
+  const retryRequestsRef = useRef(new Map<string, { sessionId: string; run: () => Promise<void> }>());
+  // Usage of the model calls of the running request, added to the message it ends with and to the ledger.
+  const requestUsageRef = useRef<ModelUsage[]>([]);
+
+  const activeSession = sessions.find(session => session.id === activeSessionId);
+  // The branch being shown; other versions stay in `activeSession.messages`.
+  const messages = useMemo(() => (activeSession ? activePath(activeSession) : []), [activeSession]);
+  const persona = resolvePersona(personaSettings, activeSession?.personaId);
+  const isLoading = loadingSessionId !== null;
+
+  const createPersonaSession = useCallback(() => {
+    const defaultPersona = resolvePersona(personaSettings);
+    return createSession([createGreeting(defaultPersona)], defaultPersona.id);
+  }, [personaSettings]);
 
   const scrollToBottom = () => {
     chatEndRef.current?.scrollIntoView({ behavior: 'smooth' });
   };
 
   useEffect(() => {
-    try {
-      const storedHistory = localStorage.getItem(STORAGE_KEY);
-      if (storedHistory) {
-        setMessages(JSON.parse(storedHistory));
-      } else {
-        setMessages([INITIAL_MESSAGE]);
-      }
-    } catch (error) {
-      console.error("Failed to load chat history:", error);
-      setMessages([INITIAL_MESSAGE]);
-    }
+    const start = (stored: ChatSession[]) => {
+      const initial = stored.length > 0 ? stored : [createPersonaSession()];
+      const storedId = getActiveSessionId();
+      setSessions(initial);
+      setActiveSession(initial.some(session => session.id === storedId) ? storedId! : initial[0].id);
+      // Only the stored sessions need replaying; later changes are applied as they are accepted.
+      restoreFileSystem(initial);
+      setIsStorageLoaded(true);
+    };
+    loadSessions().then(start, (error: Error) => {
+      console.error("Failed to load chat sessions:", error);
+      setStorageWarning(error.message);
+      start([]);
+    });
+    // Requests may finish before the ledger has loaded; they are kept after it.
+    loadUsage().then(stored => setUsageRecords(prev => [...stored, ...prev]), (error: Error) => {
+      console.error("Failed to load usage:", error);
+      setStorageWarning(error.message);
+    });
+  }, []);
+
+  const recordRequestUsage = useCallback((sessionId: string, usage: ModelUsage[]) => {
+    if (usage.length === 0) return;
+    const record = createUsageRecord(sessionId, usage);
+    setUsageRecords(prev => [...prev, record]);
+    appendUsage(record).catch((error: Error) => {
+      console.error("Failed to record usage:", error);
+      setStorageWarning(error.message);
+    });
   }, []);
 
   useEffect(() => {
-    try {
-        if(messages.length > 0) {
-            localStorage.setItem(STORAGE_KEY, JSON.stringify(messages));
-        }
-    } catch (error) {
-        console.error("Failed to save chat history:", error);
-    }
+    if (!isStorageLoaded) return;
+    saveSessions(sessions).catch((error: Error) => {
+      console.error("Failed to save chat sessions:", error);
+      setStorageWarning(error.message);
+    });
+  }, [sessions, isStorageLoaded]);
+
+  useEffect(() => {
+    if (activeSessionId) setActiveSessionId(activeSessionId);
+  }, [activeSessionId]);
+
+  useEffect(() => {
+    indexSessions(sessions);
+  }, [sessions]);
+
+  useEffect(() => {
+    saveImageOptions(imageOptions);
+  }, [imageOptions]);
+
+  useEffect(() => {
+    saveVoiceSettings(voiceSettings);
+  }, [voiceSettings]);
+
+  useEffect(() => {
+    savePersonaSettings(personaSettings);
+  }, [personaSettings]);
+
+  useEffect(() => {
+    saveModelSettings(modelSettings);
+    setActiveModelSettings(modelSettings);
+  }, [modelSettings]);
+
+  useEffect(() => {
+    saveUsageSettings(usageSettings);
+  }, [usageSettings]);
+
+  useEffect(() => {
     scrollToBottom();
   }, [messages]);
-  
+
+  // Runs after the scroll to the bottom, so a search result wins when it switched sessions.
+  useEffect(() => {
+    if (!highlightedMessageId) return;
+    document.getElementById(`message-${highlightedMessageId}`)?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+    const timer = setTimeout(() => setHighlightedMessageId(null), 2000);
+    return () => clearTimeout(timer);
+  }, [highlightedMessageId, activeSessionId]);
+
+  const updateSession = useCallback((sessionId: string, update: (session: ChatSession) => ChatSession) => {
+    setSessions(prev => prev.map(session => (session.id === sessionId ? update(session) : session)));
+  }, []);
+
+  const appendMessage = useCallback((sessionId: string, message: Message) => {
+    updateSession(sessionId, session => appendToBranch(session, message));
+  }, [updateSession]);
+
+  const handleSelectSearchResult = useCallback((sessionId: string, messageId: string) => {
+    setIsSearchPanelOpen(false);
+    setIsGalleryOpen(false);
+    setActiveSession(sessionId);
+    updateSession(sessionId, session => showMessage(session, messageId));
+    setHighlightedMessageId(messageId);
+  }, [updateSession]);
+
+  // Titles are generated once the first exchange of a session is complete.
+  useEffect(() => {
+    for (const session of sessions) {
+      if (!session.needsTitle || titleRequestsRef.current.has(session.id)) continue;
+      const exchange = getFirstExchange(session);
+      if (!exchange) continue;
+      titleRequestsRef.current.add(session.id);
+      const usage: ModelUsage[] = [];
+      generateSessionTitle(exchange.user.text, exchange.ai.text, resolvePersona(personaSettings, session.personaId), entry => usage.push(entry)).then(title => {
+        updateSession(session.id, s => addMessageUsage(
+          s.needsTitle ? { ...s, title: title ?? exchange.user.text.slice(0, 40), needsTitle: false } : s,
+          exchange.ai.id,
+          usage,
+        ));
+        recordRequestUsage(session.id, usage);
+      });
+    }
+  }, [sessions, personaSettings, updateSession, recordRequestUsage]);
+
+  const handleCreateSession = useCallback(() => {
+    const session = createPersonaSession();
+    setSessions(prev => [...prev, session]);
+    setActiveSession(session.id);
+  }, [createPersonaSession]);
+
+  const handleSelectPersona = useCallback((personaId: string) => {
+    const next = resolvePersona(personaSettings, personaId);
+    updateSession(activeSessionId, session => ({
+      ...session,
+      personaId,
+      // A conversation that has not started yet is greeted again by the new persona.
+      messages: session.messages.length === 1 && isGreeting(session.messages[0]) ? [createGreeting(next)] : session.messages,
+    }));
+  }, [personaSettings, activeSessionId, updateSession]);
+
+  const handleRenameSession = useCallback((sessionId: string, title: string) => {
+    updateSession(sessionId, session => ({ ...session, title, needsTitle: false }));
+  }, [updateSession]);
+
+  const handleTogglePinSession = useCallback((sessionId: string) => {
+    updateSession(sessionId, session => ({ ...session, pinned: !session.pinned }));
+  }, [updateSession]);
+
+  const handleDeleteSession = useCallback((sessionId: string) => {
+    const session = sessions.find(s => s.id === sessionId);
+    if (!session || !window.confirm(`Delete "${session.title}"? This action cannot be undone.`)) return;
+
+    const remaining = sessions.filter(s => s.id !== sessionId);
+    const next = remaining.length > 0 ? remaining : [createPersonaSession()];
+    setSessions(next);
+    restoreFileSystem(next);
+    if (sessionId === activeSessionId) {
+      setActiveSession([...next].sort((a, b) => b.updatedAt - a.updatedAt)[0].id);
+    }
+  }, [sessions, activeSessionId, createPersonaSession]);
+
   const handleClearHistory = useCallback(() => {
-    if (window.confirm("Are you sure you want to clear the entire chat history? This action cannot be undone.")) {
-        localStorage.removeItem(STORAGE_KEY);
-        setMessages([INITIAL_MESSAGE]);
+    if (window.confirm("Are you sure you want to clear this conversation? This action cannot be undone.")) {
+        const next = sessions.map(s => (s.id === activeSessionId ? { ...s, messages: [createGreeting(persona)], activeMessageId: undefined, updatedAt: Date.now() } : s));
+        setSessions(next);
+        restoreFileSystem(next);
     }
+  }, [sessions, activeSessionId, persona]);
+
+  const handleExport = useCallback((format: ExportFormat = 'json') => {
+    const session = sessions.find(s => s.id === activeSessionId);
+    if (!session) return;
+    exportConversation(session, format, persona).catch((error: Error) => {
+      console.error("Failed to export the conversation:", error);
+    });
+  }, [sessions, activeSessionId, persona]);
+
+  const handleImport = useCallback(() => {
+    const input = document.createElement('input');
+    input.type = 'file';
+    input.accept = '.json,application/json';
+    input.onchange = async () => {
+      const file = input.files?.[0];
+      if (!file) return;
+      try {
+        const session = parseConversationExport(await file.text(), sessions);
+        setSessions(prev => [...prev, session]);
+        setActiveSession(session.id);
+      } catch (error) {
+        appendMessage(activeSessionId, {
+          id: Date.now().toString() + '-err',
+          text: `The conversation could not be imported. ${error instanceof Error ? error.message : ''}`.trim(),
+          sender: 'ai',
+          type: 'error',
+        });
+      }
+    };
+    input.click();
+  }, [sessions, activeSessionId, appendMessage]);
+
+  // Message ids are unique across sessions, so a reply still lands in its own
+  // session after the user has switched to another one.
+  const updateMessage = useCallback((id: string, update: (message: Message) => Message) => {
+    setSessions(prev => prev.map(session => (
+      session.messages.some(m => m.id === id)
+        ? { ...session, messages: session.messages.map(m => (m.id === id ? update(m) : m)), updatedAt: Date.now() }
+        : session
+    )));
   }, []);
 
-  const handleSendMessage = async (prompt: string) => {
-    if (isLoading) return;
+  // Checked whenever no request is running; the warning is shown once a month.
+  useEffect(() => {
+    const budget = usageSettings.monthlyBudget;
+    if (!isStorageLoaded || loadingSessionId !== null || !budget || !activeSessionId) return;
+    const month = monthKey(Date.now());
+    if (getBudgetWarningMonth() === month) return;
+    const spent = summarizeUsage(usageRecords, sessions, usageSettings.prices, startOfMonth(Date.now())).total.cost;
+    if (spent < budget) return;
+    setBudgetWarningMonth(month);
+    appendMessage(activeSessionId, {
+      id: Date.now().toString() + '-budget',
+      text: `A word of caution${addressUser(persona)}: the estimated cost of this month's requests is ${formatCost(spent)}, above the monthly budget of ${formatCost(budget)}. Requests are not blocked; the usage dashboard shows where the cost comes from, and the budget can be changed in the settings.`,
+      sender: 'ai',
+      type: 'text',
+    });
+  }, [usageRecords, sessions, usageSettings, isStorageLoaded, loadingSessionId, activeSessionId, appendMessage, persona]);
+
+  const handleCodeChangeDecision = useCallback((messageId: string, changeIndex: number, status: CodeChangeStatus) => {
+    const message = messages.find(m => m.id === messageId);
+    const change = message?.codeModification?.changes[changeIndex];
+    if (!message || !change) return;
 
-    const userMessage: Message = {
-      id: Date.now().toString(),
-      text: prompt,
-      sender: 'user',
+    const decide = (m: Message): Message => ({
+      ...m,
+      codeModification: m.codeModification && {
+        ...m.codeModification,
+        changes: m.codeModification.changes.map((c, i) => (i === changeIndex ? { ...c, status } : c)),
+      },
+    });
+
+    // The file is recomputed from the accepted changes that remain, the same way a reload rebuilds it,
+    // so rejecting a change neither undoes a later one nor leaves an emptied file behind.
+    const decided = sessions.map(session => ({ ...session, messages: session.messages.map(m => (m.id === messageId ? decide(m) : m)) }));
+    restoreFileFromMessages(change.file, messagesInOrder(decided));
+    updateMessage(messageId, decide);
+  }, [messages, sessions, updateMessage]);
+
+  const handleCancelDeployment = useCallback((messageId: string) => {
+    deploymentControllersRef.current.get(messageId)?.abort();
+  }, []);
+
+  const handleStopGeneration = useCallback(() => {
+    abortControllerRef.current?.abort();
+  }, []);
+
+  const recordUsage = (usage: ModelUsage) => {
+    requestUsageRef.current.push(usage);
+  };
+
+  const runCodeModification = async (sessionId: string, prompt: string, modelOverride?: string) => {
+    // Binary files cannot be meaningfully edited as text.
+    const files = (await getProjectFiles()).filter(file => file.encoding === 'utf8');
+    const model = resolveModel('code_modification', modelOverride);
+    const modificationPayload = await generateCodeModification(prompt, files, persona, model, recordUsage);
+
+    const aiModificationMessage: Message = {
+        id: Date.now().toString() + '-ai-mod',
+        text: modificationPayload.explanation, // Fallback text
+        sender: 'ai',
+        type: 'code_modification',
+        codeModification: modificationPayload,
+        model,
+    };
+    appendMessage(sessionId, aiModificationMessage);
+  };
+
+  const runImageGeneration = async (sessionId: string, subject: string, options: ImageGenerationOptions = imageOptions, modelOverride?: string) => {
+    const model = resolveModel('image', modelOverride);
+    const images = await generateImageResponse(subject, persona, options, model, recordUsage);
+    const filtered = options.numberOfImages - images.length;
+    const aiImageMessage: Message = {
+      id: Date.now().toString() + '-ai-img',
+      text: images.length === 1
+        ? `As you wish${addressUser(persona)}. Here is the generated image.`
+        : `As you wish${addressUser(persona)}. Here are ${images.length} generated images.`,
+      sender: 'ai',
+      type: 'image',
+      images,
+      imageGeneration: { prompt: subject, options },
+      model,
+    };
+    if (filtered > 0) aiImageMessage.text += ` ${filtered} of the requested images could not be shown.`;
+    appendMessage(sessionId, aiImageMessage);
+  };
+
+  const runWebsiteAnalysis = async (sessionId: string, prompt: string, urls: string[], history: Message[], crawlPages = 0, modelOverride?: string) => {
+    const sites = await fetchWebsites(urls, { crawlPages, persona });
+    if (sites.every(site => !site.content)) {
+      throw new Error(sites.length === 1 ? sites[0].status.detail : `I was unable to access any of the provided URLs${addressUser(persona)}.`);
+    }
+    const model = resolveModel('website_analysis', modelOverride);
+    const analysisText = await generateWebsiteAnalysis(prompt, sites, history, persona, model, recordUsage);
+    const aiAnalysisMessage: Message = {
+      id: Date.now().toString() + '-ai-web',
+      text: analysisText,
+      sender: 'ai',
+      type: 'website_analysis',
+      analyzedUrls: sites.map(site => site.status),
+      model,
+    };
+    appendMessage(sessionId, aiAnalysisMessage);
+  };
+
+  const runGroundedSearch = async (sessionId: string, prompt: string, history: Message[], attachments: Attachment[] = [], modelOverride?: string) => {
+    const aiGroundedMessage: Message = {
+      id: Date.now().toString() + '-ai-grd',
+      text: '',
+      sender: 'ai',
+      type: 'grounded_text',
+      model: resolveModel('grounded_search', modelOverride),
+      isStreaming: true,
+    };
+    appendMessage(sessionId, aiGroundedMessage);
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    const { text, sources } = await generateGroundedResponse(prompt, history, {
+      persona,
+      signal: controller.signal,
+      attachments,
+      model: aiGroundedMessage.model,
+      onUsage: recordUsage,
+      onChunk: chunk => updateMessage(aiGroundedMessage.id, m => ({ ...m, text: m.text + chunk })),
+    });
+    updateMessage(aiGroundedMessage.id, m => ({ ...m, text, sources, isStreaming: false }));
+    if (voiceSettings.autoRead && !controller.signal.aborted) speak(aiGroundedMessage.id, text);
+  };
+
+  const runDeployment = async (sessionId: string, providerId?: DeploymentProviderId) => {
+    const deploymentMessageId = Date.now().toString() + '-ai-deploy';
+    const onProgress = (update: ProgressUpdate) => {
+      const progress = { text: update.message, deploymentStatus: update.status, deploymentUrl: update.url, deploymentLog: update.log };
+      updateSession(sessionId, session => (
+        session.messages.some(m => m.id === deploymentMessageId)
+          ? { ...session, messages: session.messages.map(m => (m.id === deploymentMessageId ? { ...m, ...progress } : m)), updatedAt: Date.now() }
+          : appendToBranch(session, { id: deploymentMessageId, sender: 'ai', type: 'deployment', ...progress })
+      ));
+    };
+    const controller = new AbortController();
+    deploymentControllersRef.current.set(deploymentMessageId, controller);
+    try {
+      await deployApp(onProgress, { persona, providerId, signal: controller.signal });
+    } finally {
+      deploymentControllersRef.current.delete(deploymentMessageId);
+    }
+  };
+
+  const runChat = async (sessionId: string, prompt: string, history: Message[], attachments: Attachment[] = [], modelOverride?: string) => {
+    const aiTextMessage: Message = {
+      id: Date.now().toString() + '-ai-txt',
+      text: '',
+      sender: 'ai',
       type: 'text',
+      model: resolveModel('chat', modelOverride),
+      isStreaming: true,
     };
+    appendMessage(sessionId, aiTextMessage);
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    const aiResponseText = await generateTextResponse(prompt, history, {
+      persona,
+      signal: controller.signal,
+      attachments,
+      model: aiTextMessage.model,
+      onUsage: recordUsage,
+      onChunk: chunk => updateMessage(aiTextMessage.id, m => ({ ...m, text: m.text + chunk })),
+    });
+    updateMessage(aiTextMessage.id, m => ({ ...m, text: aiResponseText, isStreaming: false }));
+    if (voiceSettings.autoRead && !controller.signal.aborted) speak(aiTextMessage.id, aiResponseText);
+  };
+
+  const speak = (messageId: string, text: string) => {
+    const synthesizer = getSpeechSynthesizer();
+    if (!synthesizer.isSupported()) return;
+    setSpeakingMessageId(messageId);
+    synthesizer.speak(toSpeakableText(text), { voiceId: voiceSettings.voiceId, rate: voiceSettings.rate }, () =>
+      setSpeakingMessageId(current => (current === messageId ? null : current)));
+  };
+
+  const handleStopSpeaking = useCallback(() => {
+    getSpeechSynthesizer().stop();
+    setSpeakingMessageId(null);
+  }, []);
+
+  const addAiText = (sessionId: string, text: string) => {
+    appendMessage(sessionId, { id: Date.now().toString() + '-ai-txt', text, sender: 'ai', type: 'text' });
+  };
+
+  const runCommand = async (sessionId: string, command: SlashCommand, argument: string, history: Message[], attachments: Attachment[] = [], modelOverride?: string) => {
+    const handlers: Record<CommandName, () => void | Promise<void>> = {
+      image: () => runImageGeneration(sessionId, argument, imageOptions, modelOverride),
+      search: () => runGroundedSearch(sessionId, argument, history, attachments, modelOverride),
+      analyze: () => {
+        const { urls, crawlPages, question } = parseAnalyzeArgument(argument);
+        const fallback = urls.length > 1 ? `Compare ${urls.join(' and ')}` : `Summarize the content of ${urls[0]}`;
+        return runWebsiteAnalysis(sessionId, question || fallback, urls, history, crawlPages, modelOverride);
+      },
+      deploy: () => runDeployment(sessionId, argument ? argument as DeploymentProviderId : undefined),
+      deployments: () => setIsDeploymentsPanelOpen(true),
+      modify: () => runCodeModification(sessionId, argument, modelOverride),
+      clear: handleClearHistory,
+      export: () => handleExport((argument.toLowerCase() || 'json') as ExportFormat),
+      import: handleImport,
+      help: () => addAiText(sessionId, formatHelp()),
+    };
+    await handlers[command.name]();
+  };
 
-    setMessages(prev => [...prev, userMessage]);
-    setIsLoading(true);
+  /**
+   * Runs a request. Failures become an error message in the session the
+   * request was sent from, with a Retry button that runs it again.
+   */
+  const runRequest = async (sessionId: string, run: () => Promise<void>) => {
+    setLoadingSessionId(sessionId);
+    requestUsageRef.current = [];
 
     try {
-      const lowerCasePrompt = prompt.toLowerCase();
-      const urlRegex = /(https?:\/\/\S+)/;
-      const urlMatch = prompt.match(urlRegex);
-
-      const searchKeywords = ["search for", "what is", "who is", "find out", "latest", "look up", "tell me about", "what's new"];
-      const deployKeywords = ["deploy", "publish", "go live"];
-      const modificationKeywords = ["change your", "modify the", "update the", "add a feature", "implement a", "rewrite the"];
-
-      if (modificationKeywords.some(keyword => lowerCasePrompt.startsWith(keyword))) {
-        const files = await getProjectFiles();
-        const modificationPayload = await generateCodeModification(prompt, files);
-        
-        const aiModificationMessage: Message = {
-            id: Date.now().toString() + '-ai-mod',
-            text: modificationPayload.explanation, // Fallback text
-            sender: 'ai',
-            type: 'code_modification',
-            codeModification: modificationPayload
-        };
-        setMessages(prev => [...prev, aiModificationMessage]);
-
-      } else if (lowerCasePrompt.includes('generate image') || lowerCasePrompt.includes('show me a picture')) {
-        const imageUrl = await generateImageResponse(prompt);
-        const aiImageMessage: Message = {
-          id: Date.now().toString() + '-ai-img',
-          text: "As you wish, Kaarthi. Here is the generated image.",
-          sender: 'ai',
-          type: 'image',
-          imageUrl: imageUrl,
-        };
-        setMessages(prev => [...prev, aiImageMessage]);
-      } else if (urlMatch) {
-          const url = urlMatch[0];
-          const content = await fetchWebsiteContent(url);
-          const analysisText = await generateWebsiteAnalysis(prompt, content);
-          const aiAnalysisMessage: Message = {
-            id: Date.now().toString() + '-ai-web',
-            text: analysisText,
-            sender: 'ai',
-            type: 'website_analysis',
-            analyzedUrl: url,
-          };
-          setMessages(prev => [...prev, aiAnalysisMessage]);
-      } else if (searchKeywords.some(keyword => lowerCasePrompt.includes(keyword))) {
-        const { text, sources } = await generateGroundedResponse(prompt);
-        const aiGroundedMessage: Message = {
-          id: Date.now().toString() + '-ai-grd',
-          text,
-          sender: 'ai',
-          type: 'grounded_text',
-          sources,
-        };
-        setMessages(prev => [...prev, aiGroundedMessage]);
-      } else if (deployKeywords.some(keyword => lowerCasePrompt.includes(keyword))) {
-          const deploymentMessageId = Date.now().toString() + '-ai-deploy';
-          const onProgress = (update: { status: DeploymentStatus; message: string; url?: string }) => {
-            setMessages(prev => {
-                const existingMsgIndex = prev.findIndex(m => m.id === deploymentMessageId);
-                if (existingMsgIndex > -1) {
-                    const updatedMessages = [...prev];
-                    updatedMessages[existingMsgIndex] = {
-                        ...updatedMessages[existingMsgIndex],
-                        text: update.message,
-                        deploymentStatus: update.status,
-                        deploymentUrl: update.url
-                    };
-                    return updatedMessages;
-                } else {
-                    const newDeploymentMessage: Message = {
-                        id: deploymentMessageId,
-                        text: update.message,
-                        sender: 'ai',
-                        type: 'deployment',
-                        deploymentStatus: update.status,
-                        deploymentUrl: update.url,
-                    };
-                    return [...prev, newDeploymentMessage];
-                }
-            });
-          };
-          await deployApp(onProgress);
-      }
-      else {
-        const aiResponseText = await generateTextResponse(prompt);
-        const aiTextMessage: Message = {
-          id: Date.now().toString() + '-ai-txt',
-          text: aiResponseText,
-          sender: 'ai',
-          type: 'text',
-        };
-        setMessages(prev => [...prev, aiTextMessage]);
-      }
+      await run();
     } catch (error) {
       const errorMessage: Message = {
         id: Date.now().toString() + '-err',
@@ -170,12 +513,195 @@ const App: React.FC = () => {
         sender: 'ai',
         type: 'error',
       };
-      setMessages(prev => [...prev, errorMessage]);
+      retryRequestsRef.current.set(errorMessage.id, { sessionId, run });
+      // A reply that failed before any text arrived is removed; partial text is kept.
+      updateSession(sessionId, session => {
+        const cleaned = session.messages.filter(m => m.isStreaming && !m.text).reduce((s, m) => removeMessage(s, m.id), session);
+        return appendToBranch({ ...cleaned, messages: cleaned.messages.map(m => (m.isStreaming ? { ...m, isStreaming: false } : m)) }, errorMessage);
+      });
     } finally {
-      setIsLoading(false);
+      // The request ends with its reply, or with the error message.
+      const usage = requestUsageRef.current;
+      updateSession(sessionId, session => addMessageUsage(session, session.activeMessageId, usage));
+      recordRequestUsage(sessionId, usage);
+      abortControllerRef.current = null;
+      setLoadingSessionId(null);
+    }
+  };
+
+  /** Shows the user's message and runs the request that answers it. */
+  const submitRequest = async (sessionId: string, userMessage: Message, run: () => Promise<void>) => {
+    appendMessage(sessionId, userMessage);
+    await runRequest(sessionId, run);
+  };
+
+  // The error message is replaced by the outcome of the new attempt. When the
+  // conversation went on after the error, the outcome becomes a new version of it.
+  const handleRetry = async (errorMessageId: string) => {
+    const request = retryRequestsRef.current.get(errorMessageId);
+    if (isLoading || !request) return;
+    retryRequestsRef.current.delete(errorMessageId);
+    updateSession(request.sessionId, session => {
+      const parentId = session.messages.find(m => m.id === errorMessageId)?.parentId;
+      return childrenOf(session.messages, errorMessageId).length > 0 && parentId
+        ? branchAfter(session, parentId)
+        : removeMessage(session, errorMessageId);
+    });
+    await runRequest(request.sessionId, request.run);
+  };
+
+  /** Runs the command in the prompt, or the handler its intent is routed to. */
+  const answerPrompt = async (sessionId: string, prompt: string, attachments: Attachment[], history: Message[], modelOverride?: string) => {
+    const command = parseCommand(prompt);
+    if (command) {
+      if (!command.ok) throw new Error(command.error);
+      await runCommand(sessionId, command.command, command.argument, history, attachments, modelOverride);
+      return;
+    }
+
+    // Files are about the conversation itself, so they skip intent routing.
+    if (attachments.length > 0) {
+      await runChat(sessionId, prompt.trim() || 'Describe the attached files.', history, attachments, modelOverride);
+      return;
+    }
+
+    const route = await routeIntent(prompt, { client: text => classifyIntent(text, persona, recordUsage) });
+
+    if (route.requiresConfirmation && !window.confirm(`This will ${INTENT_DESCRIPTIONS[route.intent]}. Proceed?`)) {
+      addAiText(sessionId, `Understood${addressUser(persona)}. I have not taken any action.`);
+      return;
+    }
+
+    switch (route.intent) {
+      case 'code_modification':
+        await runCodeModification(sessionId, prompt, modelOverride);
+        break;
+      case 'image':
+        await runImageGeneration(sessionId, route.arguments.imageSubject ?? prompt, imageOptions, modelOverride);
+        break;
+      case 'website_analysis':
+        await runWebsiteAnalysis(sessionId, prompt, route.arguments.urls!, history, 0, modelOverride);
+        break;
+      case 'search':
+        await runGroundedSearch(sessionId, route.arguments.query ?? prompt, history, [], modelOverride);
+        break;
+      case 'deploy':
+        await runDeployment(sessionId, getDeploymentProvider(route.arguments.provider ?? '')?.id);
+        break;
+      case 'chat':
+      default:
+        await runChat(sessionId, prompt, history, [], modelOverride);
+        break;
     }
   };
 
+  /** `modelOverride` replaces the configured model for this message only. */
+  const handleSendMessage = async (prompt: string, attachments: Attachment[] = [], modelOverride?: string) => {
+    if (isLoading || !activeSessionId) return;
+
+    // Replies go to the session the prompt was sent from, even if the user switches away.
+    const sessionId = activeSessionId;
+    const command = parseCommand(prompt);
+    if (command?.ok && command.command.local) {
+      await runCommand(sessionId, command.command, command.argument, messages);
+      return;
+    }
+
+    const history = messages;
+    const userMessage: Message = {
+      id: Date.now().toString(),
+      text: prompt,
+      sender: 'user',
+      type: 'text',
+      ...(attachments.length > 0 && { attachments }),
+    };
+
+    await submitRequest(sessionId, userMessage, () => answerPrompt(sessionId, prompt, attachments, history, modelOverride));
+  };
+
+  // The edited prompt becomes a new version of the original and is answered
+  // from the same point of the conversation.
+  const handleEditMessage = async (messageId: string, text: string) => {
+    const index = messages.findIndex(m => m.id === messageId);
+    const original = messages[index];
+    if (isLoading || !activeSessionId || !original?.parentId) return;
+
+    const sessionId = activeSessionId;
+    const history = messages.slice(0, index);
+    const attachments = original.attachments ?? [];
+    const userMessage: Message = {
+      id: Date.now().toString(),
+      text,
+      sender: 'user',
+      type: 'text',
+      ...(attachments.length > 0 && { attachments }),
+    };
+    updateSession(sessionId, session => branchAfter(session, original.parentId!));
+    await submitRequest(sessionId, userMessage, () => answerPrompt(sessionId, text, attachments, history));
+  };
+
+  /** Whether a reply can be generated again: it answers a prompt and is not a deployment or an error. */
+  const canRegenerate = (index: number): boolean => {
+    const reply = messages[index];
+    return reply.sender === 'ai' && messages[index - 1]?.sender === 'user' && reply.type !== 'deployment' && reply.type !== 'error';
+  };
+
+  // The new reply becomes another version of the old one. Images are generated
+  // again from their own prompt, options and model.
+  const handleRegenerate = async (messageId: string) => {
+    const index = messages.findIndex(m => m.id === messageId);
+    if (isLoading || !activeSessionId || index < 0 || !canRegenerate(index)) return;
+
+    const sessionId = activeSessionId;
+    const reply = messages[index];
+    const prompt = messages[index - 1];
+    const generation = reply.imageGeneration;
+    updateSession(sessionId, session => branchAfter(session, prompt.id));
+    await runRequest(sessionId, () => (generation
+      ? runImageGeneration(sessionId, generation.prompt, generation.options, reply.model)
+      : answerPrompt(sessionId, prompt.text, prompt.attachments ?? [], messages.slice(0, index - 1))));
+  };
+
+  const versionOf = (message: Message) => {
+    const versions = versionsOf(activeSession?.messages ?? [], message);
+    return { index: versions.indexOf(message), count: versions.length };
+  };
+
+  const handleSwitchVersion = useCallback((messageId: string, offset: -1 | 1) => {
+    updateSession(activeSessionId, session => switchVersion(session, messageId, offset));
+  }, [activeSessionId, updateSession]);
+
+  // The fork is a new conversation holding the shown branch up to the message.
+  const handleForkMessage = useCallback((messageId: string) => {
+    if (!activeSession) return;
+    const copies = copyBranch(activeSession, messageId);
+    const fork: ChatSession = {
+      ...createSession(copies, activeSession.personaId),
+      title: `${activeSession.title} (fork)`,
+      needsTitle: false,
+      activeMessageId: copies[copies.length - 1].id,
+    };
+    setSessions(prev => [...prev, fork]);
+    setActiveSession(fork.id);
+  }, [activeSession]);
+
+  // Variations and refinements reuse the prompt, options and model of the original images.
+  const handleImageRequest = async (messageId: string, refinement?: string) => {
+    const original = messages.find(m => m.id === messageId);
+    const generation = original?.imageGeneration;
+    if (isLoading || !activeSessionId || !generation) return;
+
+    const sessionId = activeSessionId;
+    const prompt = refinement ? `${generation.prompt}, ${refinement}` : generation.prompt;
+    const userMessage: Message = {
+      id: Date.now().toString(),
+      text: refinement ? `Refine "${generation.prompt}": ${refinement}` : `Make variations of "${generation.prompt}"`,
+      sender: 'user',
+      type: 'text',
+    };
+    await submitRequest(sessionId, userMessage, () => runImageGeneration(sessionId, prompt, generation.options, original.model));
+  };
+
   return (
     <div className="flex flex-col h-screen bg-gray-900 text-white font-sans">
        <style>{`
@@ -198,18 +724,111 @@ const App: React.FC = () => {
         .focus\\:ring-deep-purple-500:focus { --tw-ring-color: var(--tw-color-deep-purple-500) }
         .hover\\:bg-deep-purple-500:hover { background-color: var(--tw-color-deep-purple-500) }
         .hover\\:text-light-blue-300:hover { color: var(--tw-color-light-blue-300) }
+        @keyframes flash {
+          0%, 100% { background-color: transparent }
+          20%, 60% { background-color: rgba(139, 92, 246, 0.25) }
+        }
+        .animate-flash { animation: flash 1.6s ease-in-out }
        `}</style>
-      <Header onClearHistory={handleClearHistory} />
-      <main className="flex-1 overflow-y-auto p-4">
-        <div className="max-w-4xl mx-auto">
-          {messages.map((msg) => (
-            <ChatMessage key={msg.id} message={msg} />
-          ))}
-          {isLoading && <TypingIndicator />}
-          <div ref={chatEndRef} />
+      <Header
+        onToggleSidebar={() => setIsSidebarOpen(open => !open)}
+        onClearHistory={handleClearHistory}
+        onOpenDeployments={() => setIsDeploymentsPanelOpen(true)}
+        onOpenSearch={() => setIsSearchPanelOpen(true)}
+        onOpenGallery={() => setIsGalleryOpen(true)}
+        onOpenSettings={() => setIsSettingsOpen(true)}
+        onOpenUsage={() => setIsUsageOpen(true)}
+        personas={personaSettings.personas}
+        activePersonaId={persona.id}
+        onSelectPersona={handleSelectPersona}
+      />
+      {storageWarning && <StorageWarning message={storageWarning} onDismiss={() => setStorageWarning(null)} />}
+      <div className="flex flex-1 min-h-0">
+        <SessionSidebar
+          sessions={sessions}
+          activeSessionId={activeSessionId}
+          isOpen={isSidebarOpen}
+          onSelect={setActiveSession}
+          onCreate={handleCreateSession}
+          onImport={handleImport}
+          onRename={handleRenameSession}
+          onTogglePin={handleTogglePinSession}
+          onDelete={handleDeleteSession}
+        />
+        <div className="flex flex-col flex-1 min-w-0">
+          <main className="flex-1 overflow-y-auto p-4">
+            <div className="max-w-4xl mx-auto">
+              {messages.map((msg, index) => (
+                <ChatMessage
+                  key={msg.id}
+                  message={msg}
+                  persona={persona}
+                  onCodeChangeDecision={handleCodeChangeDecision}
+                  onCancelDeployment={handleCancelDeployment}
+                  onImageVariations={isLoading ? undefined : messageId => handleImageRequest(messageId)}
+                  onImageRefine={isLoading ? undefined : handleImageRequest}
+                  isHighlighted={msg.id === highlightedMessageId}
+                  isSpeaking={msg.id === speakingMessageId}
+                  onSpeak={message => speak(message.id, message.text)}
+                  onStopSpeaking={handleStopSpeaking}
+                  onRetry={!isLoading && retryRequestsRef.current.has(msg.id) ? handleRetry : undefined}
+                  version={versionOf(msg)}
+                  onSwitchVersion={isLoading ? undefined : handleSwitchVersion}
+                  onEdit={!isLoading && msg.sender === 'user' && msg.parentId ? handleEditMessage : undefined}
+                  onRegenerate={!isLoading && canRegenerate(index) ? handleRegenerate : undefined}
+                  onFork={isLoading || msg.isStreaming ? undefined : handleForkMessage}
+                />
+              ))}
+              {loadingSessionId === activeSessionId && !messages.some(m => m.isStreaming) && <TypingIndicator assistantName={persona.assistantName} />}
+              <div ref={chatEndRef} />
+            </div>
+          </main>
+          <ChatInput
+            onSendMessage={handleSendMessage}
+            onStop={handleStopGeneration}
+            isLoading={isLoading}
+            isStreaming={messages.some(m => m.isStreaming)}
+            imageOptions={imageOptions}
+            onImageOptionsChange={setImageOptions}
+            voiceSettings={voiceSettings}
+            isSpeaking={speakingMessageId !== null}
+            onStopSpeaking={handleStopSpeaking}
+            assistantName={persona.assistantName}
+          />
         </div>
-      </main>
-      <ChatInput onSendMessage={handleSendMessage} isLoading={isLoading} />
+      </div>
+      {isDeploymentsPanelOpen && <DeploymentsPanel onClose={() => setIsDeploymentsPanelOpen(false)} />}
+      {isSearchPanelOpen && (
+        <SearchPanel sessions={sessions} personaSettings={personaSettings} onSelectResult={handleSelectSearchResult} onClose={() => setIsSearchPanelOpen(false)} />
+      )}
+      {isGalleryOpen && (
+        <ImageGallery sessions={sessions} onShowInChat={handleSelectSearchResult} onClose={() => setIsGalleryOpen(false)} />
+      )}
+      {isUsageOpen && (
+        <UsageDashboard
+          records={usageRecords}
+          sessions={sessions}
+          settings={usageSettings}
+          onSelectSession={(sessionId) => {
+            setActiveSession(sessionId);
+            setIsUsageOpen(false);
+          }}
+          onClose={() => setIsUsageOpen(false)}
+        />
+      )}
+      {isSettingsOpen && (
+        <SettingsPanel
+          voiceSettings={voiceSettings}
+          onVoiceSettingsChange={setVoiceSettings}
+          personaSettings={personaSettings}
+          onPersonaSettingsChange={setPersonaSettings}
+          modelSettings={modelSettings}
+          onModelSettingsChange={setModelSettings}
+          usageSettings={usageSettings}
+          onUsageSettingsChange={setUsageSettings}
+          onClose={() => setIsSettingsOpen(false)}
+        />
+      )}
     </div>
   );
 };
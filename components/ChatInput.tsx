@@ -1,44 +1,367 @@
 
-import React, { useState } from 'react';
+import React, { useState, useRef, useLayoutEffect } from 'react';
+import { Attachment, ImageGenerationOptions } from '../types';
+import { getCommandSuggestions, SlashCommand } from '../services/commandRegistry';
+import { readAttachments, isImageAttachment, attachmentDataUrl, formatBytes, ACCEPT_ATTRIBUTE } from '../services/attachments';
+import ImageOptionsPopover from './ImageOptionsPopover';
+import ModelOverridePopover from './ModelOverridePopover';
+import MicButton from './MicButton';
+import { VoiceSettings } from '../services/voiceSettings';
+import { modelLabel } from '../services/modelSettings';
 
 interface ChatInputProps {
-  onSendMessage: (text: string) => void;
+  /** `model` overrides the configured model for this message only. */
+  onSendMessage: (text: string, attachments: Attachment[], model?: string) => void;
+  onStop: () => void;
   isLoading: boolean;
+  isStreaming: boolean;
+  /** Options used for images generated from this input. */
+  imageOptions: ImageGenerationOptions;
+  onImageOptionsChange: (options: ImageGenerationOptions) => void;
+  voiceSettings: VoiceSettings;
+  /** Set while a reply is being read aloud. */
+  isSpeaking: boolean;
+  onStopSpeaking: () => void;
+  assistantName: string;
 }
 
-const ChatInput: React.FC<ChatInputProps> = ({ onSendMessage, isLoading }) => {
+const ChatInput: React.FC<ChatInputProps> = ({ onSendMessage, onStop, isLoading, isStreaming, imageOptions, onImageOptionsChange, voiceSettings, isSpeaking, onStopSpeaking, assistantName }) => {
   const [text, setText] = useState('');
+  const [selectedSuggestion, setSelectedSuggestion] = useState(0);
+  const [suggestionsDismissed, setSuggestionsDismissed] = useState(false);
+  const [attachments, setAttachments] = useState<Attachment[]>([]);
+  const [attachmentErrors, setAttachmentErrors] = useState<string[]>([]);
+  const [isDragging, setIsDragging] = useState(false);
+  const [isImageOptionsOpen, setIsImageOptionsOpen] = useState(false);
+  const [isModelOverrideOpen, setIsModelOverrideOpen] = useState(false);
+  const [modelOverride, setModelOverride] = useState<string | undefined>();
+  const [interimTranscript, setInterimTranscript] = useState('');
+  const [voiceError, setVoiceError] = useState<string | null>(null);
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  // Dictation callbacks can run twice before a re-render, so they read and write the text here.
+  const textRef = useRef(text);
+  textRef.current = text;
+
+  // The textarea grows with its content up to a few lines, then scrolls.
+  useLayoutEffect(() => {
+    const textarea = textareaRef.current;
+    if (!textarea) return;
+    textarea.style.height = 'auto';
+    textarea.style.height = `${Math.min(textarea.scrollHeight, 200)}px`;
+  }, [text]);
+
+  const suggestions = suggestionsDismissed ? [] : getCommandSuggestions(text);
+
+  const handleChange = (value: string) => {
+    setText(value);
+    setSelectedSuggestion(0);
+    setSuggestionsDismissed(false);
+  };
+
+  const completeCommand = (command: SlashCommand) => {
+    setText(`/${command.name}${command.argument === 'none' ? '' : ' '}`);
+    setSelectedSuggestion(0);
+  };
+
+  const addFiles = async (files: File[]) => {
+    if (files.length === 0) return;
+    const result = await readAttachments(files, attachments);
+    setAttachments(prev => [...prev, ...result.attachments]);
+    setAttachmentErrors(result.errors);
+  };
+
+  const removeAttachment = (id: string) => {
+    setAttachments(prev => prev.filter(attachment => attachment.id !== id));
+    setAttachmentErrors([]);
+  };
+
+  const canSend = !isLoading && (text.trim() !== '' || attachments.length > 0);
+
+  const send = (value: string) => {
+    if (isLoading || (value.trim() === '' && attachments.length === 0)) return;
+    onSendMessage(value, attachments, modelOverride);
+    textRef.current = '';
+    handleChange('');
+    setAttachments([]);
+    setAttachmentErrors([]);
+    setModelOverride(undefined);
+  };
+
+  const submit = () => send(text);
+
+  const handleTranscript = (transcript: string, isFinal: boolean) => {
+    if (!isFinal) {
+      setInterimTranscript(transcript);
+      return;
+    }
+    setInterimTranscript('');
+    const next = [textRef.current.trim(), transcript].filter(Boolean).join(' ');
+    textRef.current = next;
+    handleChange(next);
+    // Hands-free: every finished utterance is sent; while a reply is pending it waits in the input.
+    if (voiceSettings.inputMode === 'continuous') send(next);
+  };
+
+  const handleDictationEnd = () => {
+    setInterimTranscript('');
+    if (voiceSettings.inputMode === 'push_to_talk') send(textRef.current);
+  };
+
+  /** Returns true when the key was handled by the command suggestions. */
+  const handleSuggestionKey = (e: React.KeyboardEvent<HTMLTextAreaElement>): boolean => {
+    const selected = suggestions[Math.min(selectedSuggestion, suggestions.length - 1)];
+
+    switch (e.key) {
+      case 'ArrowDown':
+        e.preventDefault();
+        setSelectedSuggestion((selectedSuggestion + 1) % suggestions.length);
+        return true;
+      case 'ArrowUp':
+        e.preventDefault();
+        setSelectedSuggestion((selectedSuggestion - 1 + suggestions.length) % suggestions.length);
+        return true;
+      case 'Tab':
+        e.preventDefault();
+        completeCommand(selected);
+        return true;
+      case 'Enter':
+        // A fully typed command is submitted; a partial one is completed first.
+        if (text.trim() === `/${selected.name}`) return false;
+        e.preventDefault();
+        completeCommand(selected);
+        return true;
+      case 'Escape':
+        e.preventDefault();
+        setSuggestionsDismissed(true);
+        return true;
+      default:
+        return false;
+    }
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (suggestions.length > 0 && handleSuggestionKey(e)) return;
+    // Enter sends; Shift+Enter starts a new line.
+    if (e.key === 'Enter' && !e.shiftKey && !e.nativeEvent.isComposing) {
+      e.preventDefault();
+      submit();
+    }
+  };
+
+  const handlePaste = (e: React.ClipboardEvent<HTMLTextAreaElement>) => {
+    const files = Array.from(e.clipboardData.files);
+    if (files.length === 0) return;
+    e.preventDefault();
+    addFiles(files);
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    setIsDragging(false);
+    addFiles(Array.from(e.dataTransfer.files));
+  };
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
-    if (text.trim() && !isLoading) {
-      onSendMessage(text);
-      setText('');
-    }
+    submit();
   };
 
   return (
-    <div className="bg-gray-900/80 backdrop-blur-sm border-t border-gray-700 p-4 sticky bottom-0">
-      <form onSubmit={handleSubmit} className="max-w-4xl mx-auto flex items-center space-x-4">
+    <div
+      className={`bg-gray-900/80 backdrop-blur-sm border-t p-4 sticky bottom-0 ${isDragging ? 'border-deep-purple-500' : 'border-gray-700'}`}
+      onDragOver={(e) => {
+        if (!e.dataTransfer.types.includes('Files')) return;
+        e.preventDefault();
+        setIsDragging(true);
+      }}
+      onDragLeave={(e) => {
+        if (!e.currentTarget.contains(e.relatedTarget as Node | null)) setIsDragging(false);
+      }}
+      onDrop={handleDrop}
+    >
+      {(attachments.length > 0 || attachmentErrors.length > 0) && (
+        <div className="max-w-4xl mx-auto mb-3">
+          <ul className="flex flex-wrap gap-2" aria-label="Attachments">
+            {attachments.map(attachment => (
+              <li key={attachment.id} className="flex items-center gap-2 bg-gray-800 border border-gray-700 rounded-lg pl-1 pr-2 py-1 text-xs text-gray-200">
+                {isImageAttachment(attachment) ? (
+                  <img src={attachmentDataUrl(attachment)} alt="" className="w-8 h-8 rounded object-cover" />
+                ) : (
+                  <i className={`fas ${attachment.mimeType === 'application/pdf' ? 'fa-file-pdf' : 'fa-file-alt'} text-gray-400 px-2`}></i>
+                )}
+                <span className="max-w-[10rem] truncate" title={attachment.name}>{attachment.name}</span>
+                <span className="text-gray-500">{formatBytes(attachment.size)}</span>
+                <button type="button" onClick={() => removeAttachment(attachment.id)} aria-label={`Remove ${attachment.name}`} className="text-gray-400 hover:text-white">
+                  <i className="fas fa-times"></i>
+                </button>
+              </li>
+            ))}
+          </ul>
+          {attachmentErrors.map(error => <p key={error} className="text-xs text-red-400 mt-1">{error}</p>)}
+        </div>
+      )}
+      {modelOverride && (
+        <div className="max-w-4xl mx-auto mb-2 text-sm">
+          <span className="inline-flex items-center gap-2 px-3 py-1 rounded-full bg-gray-800 border border-gray-700 text-gray-200" title={modelOverride}>
+            <i className="fas fa-microchip text-xs text-gray-400"></i>
+            Next message: {modelLabel(modelOverride)}
+            <button type="button" onClick={() => setModelOverride(undefined)} aria-label="Use the configured models" className="text-gray-400 hover:text-white">
+              <i className="fas fa-times"></i>
+            </button>
+          </span>
+        </div>
+      )}
+      {(interimTranscript || voiceError || isSpeaking) && (
+        <div className="max-w-4xl mx-auto mb-2 flex items-center gap-3 text-sm">
+          {interimTranscript && (
+            <p className="flex-1 min-w-0 truncate text-gray-400 italic" aria-live="polite">
+              <i className="fas fa-microphone text-red-400 mr-2"></i>{interimTranscript}
+            </p>
+          )}
+          {voiceError && (
+            <p className="flex-1 text-red-400">
+              {voiceError}
+              <button type="button" onClick={() => setVoiceError(null)} aria-label="Dismiss" className="ml-2 text-gray-400 hover:text-white">
+                <i className="fas fa-times"></i>
+              </button>
+            </p>
+          )}
+          {isSpeaking && (
+            <button
+              type="button"
+              onClick={onStopSpeaking}
+              className="ml-auto flex items-center gap-2 px-3 py-1 rounded-full bg-gray-800 border border-gray-700 text-gray-200 hover:bg-gray-700"
+            >
+              <i className="fas fa-stop text-xs"></i> Stop reading
+            </button>
+          )}
+        </div>
+      )}
+      <form onSubmit={handleSubmit} className="relative max-w-4xl mx-auto flex items-end space-x-4">
+        {suggestions.length > 0 && (
+          <ul
+            role="listbox"
+            aria-label="Commands"
+            className="absolute bottom-full left-0 mb-2 w-full max-w-md bg-gray-800 border border-gray-700 rounded-lg shadow-lg overflow-hidden z-10"
+          >
+            {suggestions.map((command, index) => (
+              <li
+                key={command.name}
+                role="option"
+                aria-selected={index === selectedSuggestion}
+                onMouseDown={(e) => {
+                  e.preventDefault();
+                  completeCommand(command);
+                }}
+                onMouseEnter={() => setSelectedSuggestion(index)}
+                className={`px-4 py-2 cursor-pointer ${index === selectedSuggestion ? 'bg-gray-700' : ''}`}
+              >
+                <span className="font-mono text-sm text-light-blue-300">{command.usage}</span>
+                <span className="block text-xs text-gray-400">{command.description}</span>
+              </li>
+            ))}
+          </ul>
+        )}
         <input
-          type="text"
-          value={text}
-          onChange={(e) => setText(e.target.value)}
-          placeholder="Send a command to Alfreyaa..."
-          disabled={isLoading}
-          className="flex-grow bg-gray-800 border border-gray-700 rounded-full py-3 px-5 text-white placeholder-gray-500 focus:outline-none focus:ring-2 focus:ring-deep-purple-500 disabled:opacity-50 transition-all"
+          ref={fileInputRef}
+          type="file"
+          multiple
+          accept={ACCEPT_ATTRIBUTE}
+          className="hidden"
+          onChange={(e) => {
+            addFiles(Array.from(e.target.files ?? []));
+            e.target.value = '';
+          }}
         />
         <button
-          type="submit"
-          disabled={isLoading || !text.trim()}
-          className="bg-deep-purple-600 text-white rounded-full w-12 h-12 flex items-center justify-center flex-shrink-0 hover:bg-deep-purple-500 disabled:bg-gray-600 disabled:cursor-not-allowed focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-gray-900 focus:ring-deep-purple-500 transition-all"
+          type="button"
+          onClick={() => fileInputRef.current?.click()}
+          disabled={isLoading}
+          aria-label="Attach files"
+          title="Attach images, PDFs or text files"
+          className="text-gray-400 hover:text-white rounded-full w-12 h-12 flex items-center justify-center flex-shrink-0 hover:bg-gray-800 disabled:opacity-50 focus:outline-none focus:ring-2 focus:ring-deep-purple-500 transition-all"
         >
-          {isLoading ? (
-            <i className="fas fa-spinner fa-spin"></i>
-          ) : (
-            <i className="fas fa-paper-plane"></i>
-          )}
+          <i className="fas fa-paperclip"></i>
+        </button>
+        <button
+          type="button"
+          onClick={() => {
+            setIsImageOptionsOpen(open => !open);
+            setIsModelOverrideOpen(false);
+          }}
+          aria-label="Image options"
+          aria-expanded={isImageOptionsOpen}
+          title="Image generation options"
+          className={`rounded-full w-12 h-12 flex items-center justify-center flex-shrink-0 hover:bg-gray-800 focus:outline-none focus:ring-2 focus:ring-deep-purple-500 transition-all ${isImageOptionsOpen ? 'text-white' : 'text-gray-400 hover:text-white'}`}
+        >
+          <i className="fas fa-sliders-h"></i>
+        </button>
+        {isImageOptionsOpen && (
+          <ImageOptionsPopover options={imageOptions} onChange={onImageOptionsChange} onClose={() => setIsImageOptionsOpen(false)} />
+        )}
+        <button
+          type="button"
+          onClick={() => {
+            setIsModelOverrideOpen(open => !open);
+            setIsImageOptionsOpen(false);
+          }}
+          aria-label="Model for the next message"
+          aria-expanded={isModelOverrideOpen}
+          title="Choose the model for the next message"
+          className={`rounded-full w-12 h-12 flex items-center justify-center flex-shrink-0 hover:bg-gray-800 focus:outline-none focus:ring-2 focus:ring-deep-purple-500 transition-all ${isModelOverrideOpen || modelOverride ? 'text-white' : 'text-gray-400 hover:text-white'}`}
+        >
+          <i className="fas fa-microchip"></i>
         </button>
+        {isModelOverrideOpen && (
+          <ModelOverridePopover model={modelOverride} onChange={setModelOverride} onClose={() => setIsModelOverrideOpen(false)} />
+        )}
+        <MicButton
+          mode={voiceSettings.inputMode}
+          language={voiceSettings.language}
+          disabled={isLoading && voiceSettings.inputMode === 'push_to_talk'}
+          onStart={() => {
+            setVoiceError(null);
+            onStopSpeaking();
+          }}
+          onTranscript={handleTranscript}
+          onEnd={handleDictationEnd}
+          onError={setVoiceError}
+        />
+        <textarea
+          ref={textareaRef}
+          rows={1}
+          value={text}
+          onChange={(e) => handleChange(e.target.value)}
+          onKeyDown={handleKeyDown}
+          onPaste={handlePaste}
+          placeholder={`Send a command to ${assistantName}, or type / for commands...`}
+          disabled={isLoading}
+          className="flex-grow resize-none bg-gray-800 border border-gray-700 rounded-3xl py-3 px-5 text-white placeholder-gray-500 focus:outline-none focus:ring-2 focus:ring-deep-purple-500 disabled:opacity-50 transition-all"
+        />
+        {isStreaming ? (
+          <button
+            type="button"
+            onClick={onStop}
+            aria-label="Stop generating"
+            title="Stop generating"
+            className="bg-gray-700 text-white rounded-full w-12 h-12 flex items-center justify-center flex-shrink-0 hover:bg-gray-600 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-gray-900 focus:ring-deep-purple-500 transition-all"
+          >
+            <i className="fas fa-stop"></i>
+          </button>
+        ) : (
+          <button
+            type="submit"
+            disabled={!canSend}
+            className="bg-deep-purple-600 text-white rounded-full w-12 h-12 flex items-center justify-center flex-shrink-0 hover:bg-deep-purple-500 disabled:bg-gray-600 disabled:cursor-not-allowed focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-gray-900 focus:ring-deep-purple-500 transition-all"
+          >
+            {isLoading ? (
+              <i className="fas fa-spinner fa-spin"></i>
+            ) : (
+              <i className="fas fa-paper-plane"></i>
+            )}
+          </button>
+        )}
       </form>
     </div>
   );
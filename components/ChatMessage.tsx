@@ -1,20 +1,57 @@
-import React from 'react';
-import { Message, Sender, DeploymentStatus } from '../types';
+import React, { useState, useMemo } from 'react';
+import { Message, Sender, DeploymentStatus, CodeChange, CodeChangeStatus, CodeModificationPayload, Attachment, ImageGeneration, AnalyzedUrlStatus } from '../types';
+import { diffLines, countChanges } from '../services/diffService';
+import DiffViewer from './DiffViewer';
+import MarkdownContent from './MarkdownContent';
+import { isImageAttachment, attachmentDataUrl, formatBytes } from '../services/attachments';
+import { STYLE_PRESETS, imageFileName } from '../services/imageOptions';
+import ImageLightbox from './ImageLightbox';
+import { Persona, userLabel, avatarInitials } from '../services/personas';
+import { modelLabel } from '../services/modelSettings';
 
 interface ChatMessageProps {
   message: Message;
+  /** The persona of the conversation, which names both sides. */
+  persona: Persona;
+  onCodeChangeDecision?: (messageId: string, changeIndex: number, status: CodeChangeStatus) => void;
+  onCancelDeployment?: (messageId: string) => void;
+  /** Generates new images from the prompt of an image message. */
+  onImageVariations?: (messageId: string) => void;
+  /** Generates new images from the prompt of an image message with the refinement added. */
+  onImageRefine?: (messageId: string, refinement: string) => void;
+  /** Briefly flashes the message, e.g. after jumping to it from search. */
+  isHighlighted?: boolean;
+  /** Set while this message is being read aloud. */
+  isSpeaking?: boolean;
+  onSpeak?: (message: Message) => void;
+  onStopSpeaking?: () => void;
+  /** Runs the request that failed with this error message again. */
+  onRetry?: (messageId: string) => void;
+  /** Which of the versions of this message is shown, counted from 0. */
+  version?: { index: number; count: number };
+  onSwitchVersion?: (messageId: string, offset: -1 | 1) => void;
+  /** Sends an edited copy of a prompt as a new version of it. */
+  onEdit?: (messageId: string, text: string) => void;
+  /** Generates a new version of a reply. */
+  onRegenerate?: (messageId: string) => void;
+  /** Copies the conversation up to this message into a new one. */
+  onFork?: (messageId: string) => void;
 }
 
-const UserAvatar: React.FC = () => (
+const UserAvatar: React.FC<{ persona: Persona }> = ({ persona }) => (
   <div className="w-8 h-8 rounded-full bg-light-blue-600 flex items-center justify-center font-bold text-white flex-shrink-0">
-    K
+    {userLabel(persona)[0].toUpperCase()}
   </div>
 );
 
-const AiAvatar: React.FC = () => (
-  <div className="w-8 h-8 rounded-full bg-deep-purple-600 flex items-center justify-center font-bold text-white flex-shrink-0">
-    A
-  </div>
+const AiAvatar: React.FC<{ persona: Persona }> = ({ persona }) => (
+  persona.avatarImage
+    ? <img src={persona.avatarImage} alt="" className="w-8 h-8 rounded-full object-cover flex-shrink-0" />
+    : (
+      <div className="w-8 h-8 rounded-full bg-deep-purple-600 flex items-center justify-center font-bold text-white text-sm flex-shrink-0">
+        {avatarInitials(persona)}
+      </div>
+    )
 );
 
 const ChatBubble: React.FC<{ sender: Sender; children: React.ReactNode }> = ({ sender, children }) => {
@@ -26,25 +63,181 @@ const ChatBubble: React.FC<{ sender: Sender; children: React.ReactNode }> = ({ s
   );
 };
 
-const DeploymentStatusIndicator: React.FC<{ status: DeploymentStatus; text: string; url?: string }> = ({ status, text, url }) => {
+const StreamingCursor: React.FC = () => (
+  <span className="inline-block w-2 h-4 ml-0.5 align-text-bottom bg-deep-purple-400 animate-pulse" aria-hidden="true"></span>
+);
+
+const AttachmentList: React.FC<{ attachments: Attachment[] }> = ({ attachments }) => (
+  <div className="flex flex-wrap gap-2 mb-2">
+    {attachments.map(attachment => (
+      isImageAttachment(attachment) ? (
+        <a key={attachment.id} href={attachmentDataUrl(attachment)} target="_blank" rel="noopener noreferrer" title={attachment.name}>
+          <img src={attachmentDataUrl(attachment)} alt={attachment.name} className="h-24 max-w-[12rem] rounded-lg object-cover" />
+        </a>
+      ) : (
+        <a
+          key={attachment.id}
+          href={attachmentDataUrl(attachment)}
+          download={attachment.name}
+          className="flex items-center gap-2 bg-gray-800/60 rounded-lg px-3 py-2 text-xs text-gray-200 hover:bg-gray-800"
+        >
+          <i className={`fas ${attachment.mimeType === 'application/pdf' ? 'fa-file-pdf' : 'fa-file-alt'} text-gray-400`}></i>
+          <span className="max-w-[12rem] truncate">{attachment.name}</span>
+          <span className="text-gray-500">{formatBytes(attachment.size)}</span>
+        </a>
+      )
+    ))}
+  </div>
+);
+
+const ANALYZED_URL_ICONS: Record<AnalyzedUrlStatus, string> = {
+  ok: 'fa-globe text-gray-500',
+  truncated: 'fa-cut text-yellow-400',
+  failed: 'fa-exclamation-triangle text-red-400',
+};
+
+const ANALYZED_URL_LABELS: Record<AnalyzedUrlStatus, string> = {
+  ok: 'Fetched',
+  truncated: 'Partly fetched',
+  failed: 'Could not be fetched',
+};
+
+const ImageGrid: React.FC<{
+  message: Message;
+  onVariations?: () => void;
+  onRefine?: (refinement: string) => void;
+}> = ({ message, onVariations, onRefine }) => {
+  const [lightboxIndex, setLightboxIndex] = useState<number | null>(null);
+  const [isRefining, setIsRefining] = useState(false);
+  const [refinement, setRefinement] = useState('');
+  const images = message.images ?? [];
+  const generation: ImageGeneration | undefined = message.imageGeneration;
+  const aspectRatio = (generation?.options.aspectRatio ?? '1:1').replace(':', ' / ');
+
+  const submitRefinement = () => {
+    if (!refinement.trim()) return;
+    onRefine?.(refinement.trim());
+    setRefinement('');
+    setIsRefining(false);
+  };
+
+  return (
+    <>
+      <div className={`grid gap-2 ${images.length > 1 ? 'grid-cols-2' : 'grid-cols-1'} ${images.length > 1 ? 'w-80 sm:w-96' : 'w-64'}`}>
+        {images.map((url, index) => (
+          <div key={index} className="relative group">
+            <button onClick={() => setLightboxIndex(index)} aria-label={`View image ${index + 1} full size`} className="block w-full">
+              <img src={url} alt="Generated image" style={{ aspectRatio }} className="rounded-lg w-full object-cover" />
+            </button>
+            <a
+              href={url}
+              download={imageFileName(message, index, url)}
+              aria-label={`Download image ${index + 1}`}
+              title="Download"
+              className="absolute top-1 right-1 w-7 h-7 flex items-center justify-center rounded-full bg-gray-900/70 text-gray-200 hover:text-white opacity-0 group-hover:opacity-100 focus:opacity-100 transition-opacity"
+            >
+              <i className="fas fa-download text-xs"></i>
+            </a>
+          </div>
+        ))}
+      </div>
+      {generation && (
+        <p className="text-xs text-gray-500 mt-2" title={generation.options.negativePrompt && `Avoiding: ${generation.options.negativePrompt}`}>
+          {generation.prompt} · {STYLE_PRESETS[generation.options.style].label} · {generation.options.aspectRatio}
+        </p>
+      )}
+      {generation && (onVariations || onRefine) && (
+        isRefining ? (
+          <form className="flex items-center gap-2 mt-2" onSubmit={(e) => { e.preventDefault(); submitRefinement(); }}>
+            <input
+              autoFocus
+              value={refinement}
+              onChange={(e) => setRefinement(e.target.value)}
+              onKeyDown={(e) => e.key === 'Escape' && setIsRefining(false)}
+              placeholder="e.g. at sunset, with more contrast"
+              aria-label="Refinement"
+              className="flex-1 bg-gray-700 text-white text-sm rounded px-2 py-1 focus:outline-none focus:ring-2 focus:ring-deep-purple-500"
+            />
+            <button type="submit" disabled={!refinement.trim()} className="px-3 py-1 rounded text-xs bg-deep-purple-600 hover:bg-deep-purple-500 text-white disabled:bg-gray-600">
+              Refine
+            </button>
+            <button type="button" onClick={() => setIsRefining(false)} aria-label="Cancel refinement" className="text-gray-400 hover:text-white text-xs">
+              <i className="fas fa-times"></i>
+            </button>
+          </form>
+        ) : (
+          <div className="flex items-center gap-2 mt-2">
+            {onVariations && (
+              <button onClick={onVariations} className="flex items-center gap-1 px-3 py-1 rounded text-xs bg-gray-700 hover:bg-gray-600 text-gray-200">
+                <i className="fas fa-clone"></i> Make variations
+              </button>
+            )}
+            {onRefine && (
+              <button onClick={() => setIsRefining(true)} className="flex items-center gap-1 px-3 py-1 rounded text-xs bg-gray-700 hover:bg-gray-600 text-gray-200">
+                <i className="fas fa-magic"></i> Refine this
+              </button>
+            )}
+          </div>
+        )
+      )}
+      {lightboxIndex !== null && (
+        <ImageLightbox
+          images={images.map((url, index) => ({ url, fileName: imageFileName(message, index, url), caption: generation?.prompt }))}
+          startIndex={lightboxIndex}
+          onClose={() => setLightboxIndex(null)}
+        />
+      )}
+    </>
+  );
+};
+
+const TERMINAL_DEPLOYMENT_STATUSES: DeploymentStatus[] = ['success', 'error', 'timed_out', 'cancelled'];
+
+const DeploymentStatusIndicator: React.FC<{
+  status: DeploymentStatus;
+  text: string;
+  url?: string;
+  log?: string[];
+  onCancel?: () => void;
+}> = ({ status, text, url, log, onCancel }) => {
   const getIcon = () => {
     switch (status) {
       case 'success':
         return <i className="fas fa-check-circle text-green-400"></i>;
       case 'error':
         return <i className="fas fa-times-circle text-red-400"></i>;
+      case 'timed_out':
+        return <i className="fas fa-clock text-yellow-400"></i>;
+      case 'cancelled':
+        return <i className="fas fa-ban text-gray-400"></i>;
       default:
         return <i className="fas fa-spinner fa-spin text-deep-purple-400"></i>;
     }
   };
 
+  const isRunning = !TERMINAL_DEPLOYMENT_STATUSES.includes(status);
+
   return (
     <div className="p-2">
       <div className="flex items-center gap-3 mb-3">
         {getIcon()}
         <span className="font-semibold text-gray-300">{text}</span>
+        {isRunning && onCancel && (
+          <button
+            onClick={onCancel}
+            className="ml-auto text-xs bg-gray-700 hover:bg-gray-600 text-white font-semibold py-1 px-2 rounded"
+          >
+            Cancel
+          </button>
+        )}
       </div>
-      {status === 'success' && url && (
+      {(status === 'error' || status === 'timed_out') && log && log.length > 0 && (
+        <div className="mt-2 pt-2 border-t border-gray-700/50">
+          <h4 className="text-xs font-semibold text-gray-400 mb-2 uppercase tracking-wider">Build Log</h4>
+          <pre className="text-xs text-gray-400 bg-gray-900/60 rounded-lg p-2 overflow-x-auto whitespace-pre-wrap">{log.join('\n')}</pre>
+        </div>
+      )}
+      {(status === 'success' || status === 'timed_out') && url && (
         <div className="mt-2 pt-2 border-t border-gray-700/50">
            <a
             href={url}
@@ -53,7 +246,7 @@ const DeploymentStatusIndicator: React.FC<{ status: DeploymentStatus; text: stri
             className="inline-flex items-center gap-2 bg-green-600/80 hover:bg-green-500 text-white font-bold py-2 px-4 rounded-lg transition-colors"
             >
             <i className="fas fa-external-link-alt"></i>
-            View Live Application
+            {status === 'success' ? 'View Live Application' : 'Open Site'}
             </a>
         </div>
       )}
@@ -62,9 +255,147 @@ const DeploymentStatusIndicator: React.FC<{ status: DeploymentStatus; text: stri
 
 }
 
+const CodeChangeReview: React.FC<{ change: CodeChange; onDecision?: (status: CodeChangeStatus) => void }> = ({ change, onDecision }) => {
+  const [showDiff, setShowDiff] = useState(change.status === 'pending');
+  const { additions, deletions } = useMemo(
+    () => countChanges(change.newContent === undefined ? [] : diffLines(change.originalContent, change.newContent)),
+    [change.originalContent, change.newContent],
+  );
+
+  // Messages saved before modifications carried file contents only list the file.
+  if (change.newContent === undefined) {
+    return (
+      <li className="py-2 text-sm text-gray-400 font-mono" title={change.reason}>
+        <i className="fas fa-file-alt mr-2 text-gray-500"></i>
+        {change.file}
+      </li>
+    );
+  }
+
+  const isNewFile = change.originalContent === '';
+
+  const statusBadge: Record<CodeChangeStatus, React.ReactNode> = {
+    pending: <span className="text-xs text-yellow-400">Pending review</span>,
+    accepted: <span className="text-xs text-green-400"><i className="fas fa-check mr-1"></i>Accepted</span>,
+    rejected: <span className="text-xs text-red-400"><i className="fas fa-times mr-1"></i>Rejected</span>,
+  };
+
+  return (
+    <li className="py-2">
+      <div className="flex flex-wrap items-center gap-2">
+        <button
+          onClick={() => setShowDiff(!showDiff)}
+          className="text-sm text-gray-300 font-mono hover:text-white"
+          title={change.reason}
+        >
+          <i className={`fas fa-chevron-${showDiff ? 'down' : 'right'} mr-2 text-gray-500 text-xs`}></i>
+          {change.file}
+        </button>
+        {isNewFile && <span className="text-xs text-light-blue-400">new</span>}
+        <span className="text-xs text-green-400">+{additions}</span>
+        <span className="text-xs text-red-400">-{deletions}</span>
+        <span className="flex-grow"></span>
+        {statusBadge[change.status]}
+        {onDecision && change.status !== 'accepted' && (
+          <button
+            onClick={() => onDecision('accepted')}
+            className="text-xs bg-green-600/80 hover:bg-green-500 text-white font-semibold py-1 px-2 rounded"
+          >
+            Accept
+          </button>
+        )}
+        {onDecision && change.status !== 'rejected' && (
+          <button
+            onClick={() => onDecision('rejected')}
+            className="text-xs bg-gray-700 hover:bg-gray-600 text-white font-semibold py-1 px-2 rounded"
+          >
+            Reject
+          </button>
+        )}
+      </div>
+      <p className="text-xs text-gray-400 mt-1">{change.reason}</p>
+      {showDiff && <DiffViewer before={change.originalContent} after={change.newContent} />}
+    </li>
+  );
+};
+
+const CodeModificationReview: React.FC<{
+  explanation: string;
+  changes: CodeModificationPayload['changes'];
+  onDecision?: (changeIndex: number, status: CodeChangeStatus) => void;
+}> = ({ explanation, changes, onDecision }) => (
+  <div>
+    <div className="flex items-center gap-3 mb-3">
+      <i className="fas fa-code-merge text-deep-purple-400"></i>
+      <h4 className="font-semibold text-gray-300">Executing Self-Modification</h4>
+    </div>
+    <p className="text-gray-200 whitespace-pre-wrap mb-3">{explanation}</p>
+    {changes.length > 0 && (
+       <div className="mt-2 pt-2 border-t border-gray-700/50">
+          <h5 className="text-xs font-semibold text-gray-400 mb-2 uppercase tracking-wider">Affected Files</h5>
+          <ul className="divide-y divide-gray-700/50">
+              {changes.map((change, index) => (
+                  <CodeChangeReview
+                    key={index}
+                    change={change}
+                    onDecision={onDecision && (status => onDecision(index, status))}
+                  />
+              ))}
+          </ul>
+       </div>
+    )}
+  </div>
+);
+
+const actionClass = 'px-2 py-1 rounded-full text-xs text-gray-500 hover:text-gray-300 hover:bg-gray-800 disabled:opacity-40 disabled:hover:bg-transparent';
+
+const VersionSwitcher: React.FC<{ index: number; count: number; onSwitch?: (offset: -1 | 1) => void }> = ({ index, count, onSwitch }) => (
+  <div className="flex items-center text-xs text-gray-500">
+    <button onClick={() => onSwitch?.(-1)} disabled={!onSwitch || index === 0} aria-label="Previous version" className={actionClass}>
+      <i className="fas fa-chevron-left"></i>
+    </button>
+    <span aria-label={`Version ${index + 1} of ${count}`}>{index + 1}/{count}</span>
+    <button onClick={() => onSwitch?.(1)} disabled={!onSwitch || index === count - 1} aria-label="Next version" className={actionClass}>
+      <i className="fas fa-chevron-right"></i>
+    </button>
+  </div>
+);
+
+const MessageEditor: React.FC<{ text: string; onSubmit: (text: string) => void; onCancel: () => void }> = ({ text, onSubmit, onCancel }) => {
+  const [draft, setDraft] = useState(text);
+  const canSubmit = !!draft.trim() && draft !== text;
+
+  return (
+    <div className="w-80 sm:w-[32rem] max-w-full space-y-2">
+      <textarea
+        value={draft}
+        onChange={(e) => setDraft(e.target.value)}
+        onKeyDown={(e) => e.key === 'Escape' && onCancel()}
+        rows={Math.min(Math.max(draft.split('\n').length, 3), 12)}
+        aria-label="Edit message"
+        autoFocus
+        className="w-full p-3 bg-gray-800 border border-gray-700 rounded-lg text-sm text-white focus:outline-none focus:ring-2 focus:ring-deep-purple-500 resize-y"
+      />
+      <div className="flex justify-end gap-2">
+        <button onClick={onCancel} className="px-3 py-1 rounded text-xs bg-gray-700 hover:bg-gray-600 text-gray-200">
+          Cancel
+        </button>
+        <button
+          onClick={() => onSubmit(draft.trim())}
+          disabled={!canSubmit}
+          className="px-3 py-1 rounded text-xs bg-deep-purple-600 hover:bg-deep-purple-500 text-white disabled:opacity-50"
+        >
+          Save & submit
+        </button>
+      </div>
+    </div>
+  );
+};
 
-const ChatMessage: React.FC<ChatMessageProps> = ({ message }) => {
+const ChatMessage: React.FC<ChatMessageProps> = ({ message, persona, onCodeChangeDecision, onCancelDeployment, onImageVariations, onImageRefine, isHighlighted, isSpeaking, onSpeak, onStopSpeaking, onRetry, version, onSwitchVersion, onEdit, onRegenerate, onFork }) => {
+  const [isEditing, setIsEditing] = useState(false);
   const isAI = message.sender === 'ai';
+  const canSpeak = isAI && !message.isStreaming && !!message.text.trim() && (message.type === 'text' || message.type === 'grounded_text');
 
   const renderContent = () => {
     switch (message.type) {
@@ -72,55 +403,74 @@ const ChatMessage: React.FC<ChatMessageProps> = ({ message }) => {
         return (
           <>
             <p className="text-gray-200 mb-2">{message.text}</p>
-            <img src={message.imageUrl} alt="Generated by Alfreyaa" className="rounded-lg w-64 h-64 object-cover" />
+            <ImageGrid
+              message={message}
+              onVariations={onImageVariations && (() => onImageVariations(message.id))}
+              onRefine={onImageRefine && (refinement => onImageRefine(message.id, refinement))}
+            />
           </>
         );
       case 'error':
-        return <p className="text-red-400">{message.text}</p>;
+        return (
+          <>
+            <p className="text-red-400">{message.text}</p>
+            {onRetry && (
+              <button onClick={() => onRetry(message.id)} className="mt-2 flex items-center gap-1 px-3 py-1 rounded text-xs bg-gray-700 hover:bg-gray-600 text-gray-200">
+                <i className="fas fa-redo"></i> Retry
+              </button>
+            )}
+          </>
+        );
       case 'deployment':
-        return <DeploymentStatusIndicator status={message.deploymentStatus!} text={message.text} url={message.deploymentUrl} />;
+        return (
+          <DeploymentStatusIndicator
+            status={message.deploymentStatus!}
+            text={message.text}
+            url={message.deploymentUrl}
+            log={message.deploymentLog}
+            onCancel={onCancelDeployment && (() => onCancelDeployment(message.id))}
+          />
+        );
       case 'code_modification':
           return (
-            <div>
-              <div className="flex items-center gap-3 mb-3">
-                <i className="fas fa-code-merge text-deep-purple-400"></i>
-                <h4 className="font-semibold text-gray-300">Executing Self-Modification</h4>
-              </div>
-              <p className="text-gray-200 whitespace-pre-wrap mb-3">{message.codeModification?.explanation || message.text}</p>
-              {message.codeModification && message.codeModification.changes.length > 0 && (
-                 <div className="mt-2 pt-2 border-t border-gray-700/50">
-                    <h5 className="text-xs font-semibold text-gray-400 mb-2 uppercase tracking-wider">Affected Files</h5>
-                    <ul className="space-y-1">
-                        {message.codeModification.changes.map((change, index) => (
-                            <li key={index} className="text-sm text-gray-400 font-mono" title={change.reason}>
-                                <i className="fas fa-file-alt mr-2 text-gray-500"></i>
-                                {change.file}
-                            </li>
-                        ))}
-                    </ul>
-                 </div>
-              )}
-            </div>
+            <CodeModificationReview
+              explanation={message.codeModification?.explanation || message.text}
+              changes={message.codeModification?.changes ?? []}
+              onDecision={onCodeChangeDecision && ((index, status) => onCodeChangeDecision(message.id, index, status))}
+            />
           );
       case 'website_analysis':
         return (
           <>
-            <p className="text-gray-200 whitespace-pre-wrap">{message.text}</p>
-            {message.analyzedUrl && (
+            <MarkdownContent text={message.text} />
+            {message.analyzedUrls && message.analyzedUrls.length > 0 && (
               <div className="mt-4 pt-3 border-t border-gray-700/50">
-                <h4 className="text-xs font-semibold text-gray-400 mb-2 uppercase tracking-wider">Analyzed Source</h4>
-                 <div className="flex items-start gap-2">
-                    <i className="fas fa-globe text-gray-500 mt-1 flex-shrink-0"></i>
-                    <a
-                        href={message.analyzedUrl}
-                        target="_blank"
-                        rel="noopener noreferrer"
-                        className="text-light-blue-400 hover:text-light-blue-300 hover:underline text-sm break-all"
-                        title={message.analyzedUrl}
-                    >
-                        {message.analyzedUrl}
-                    </a>
-                 </div>
+                <h4 className="text-xs font-semibold text-gray-400 mb-2 uppercase tracking-wider">
+                  {message.analyzedUrls.length > 1 ? 'Analyzed Sources' : 'Analyzed Source'}
+                </h4>
+                <ul className="space-y-2">
+                  {message.analyzedUrls.map(({ url, status, title, detail }) => (
+                    <li key={url} className="flex items-start gap-2">
+                      <i
+                        className={`fas ${ANALYZED_URL_ICONS[status]} mt-1 flex-shrink-0`}
+                        title={detail ?? ANALYZED_URL_LABELS[status]}
+                        aria-label={ANALYZED_URL_LABELS[status]}
+                      ></i>
+                      <div className="min-w-0">
+                        <a
+                          href={url}
+                          target="_blank"
+                          rel="noopener noreferrer"
+                          className="text-light-blue-400 hover:text-light-blue-300 hover:underline text-sm break-all"
+                          title={url}
+                        >
+                          {title && title !== url ? title : url}
+                        </a>
+                        {status !== 'ok' && detail && <p className="text-xs text-gray-500">{detail}</p>}
+                      </div>
+                    </li>
+                  ))}
+                </ul>
               </div>
             )}
           </>
@@ -128,14 +478,16 @@ const ChatMessage: React.FC<ChatMessageProps> = ({ message }) => {
       case 'grounded_text':
         return (
           <>
-            <p className="text-gray-200 whitespace-pre-wrap">{message.text}</p>
+            <MarkdownContent text={message.text} sources={message.sources} sourceIdPrefix={`source-${message.id}-`}>
+              {message.isStreaming && <StreamingCursor />}
+            </MarkdownContent>
             {message.sources && message.sources.length > 0 && (
               <div className="mt-4 pt-3 border-t border-gray-700/50">
                 <h4 className="text-xs font-semibold text-gray-400 mb-2 uppercase tracking-wider">Sources</h4>
                 <ul className="space-y-2">
                   {message.sources.map((source, index) => (
-                    <li key={index} className="flex items-start gap-2">
-                      <i className="fas fa-link text-gray-500 mt-1 flex-shrink-0"></i>
+                    <li key={index} id={`source-${message.id}-${index + 1}`} className="flex items-start gap-2">
+                      <span className="text-xs text-gray-500 mt-0.5 flex-shrink-0">[{index + 1}]</span>
                       <a
                         href={source.uri}
                         target="_blank"
@@ -154,22 +506,79 @@ const ChatMessage: React.FC<ChatMessageProps> = ({ message }) => {
         );
       case 'text':
       default:
-        return <p className="text-gray-200 whitespace-pre-wrap">{message.text}</p>;
+        // Prompts are shown as typed; only answers are Markdown.
+        if (!isAI) return message.text && <p className="text-gray-200 whitespace-pre-wrap">{message.text}</p>;
+        return (
+          <MarkdownContent text={message.text}>
+            {message.isStreaming && <StreamingCursor />}
+          </MarkdownContent>
+        );
     }
   };
 
   return (
-    <div className={`flex items-start gap-3 my-4 ${isAI ? 'justify-start' : 'justify-end'}`}>
-      {isAI && <AiAvatar />}
-      <div className={`flex flex-col ${isAI ? 'items-start' : 'items-end'}`}>
+    <div id={`message-${message.id}`} className={`flex items-start gap-3 my-4 rounded-2xl ${isAI ? 'justify-start' : 'justify-end'} ${isHighlighted ? 'animate-flash' : ''}`}>
+      {isAI && <AiAvatar persona={persona} />}
+      <div className={`group/message flex flex-col ${isAI ? 'items-start' : 'items-end'}`}>
         <span className={`text-sm font-bold mb-1 ${isAI ? 'text-deep-purple-400' : 'text-light-blue-400'}`}>
-          {isAI ? 'Alfreyaa' : 'Kaarthi'}
+          {isAI ? persona.assistantName : userLabel(persona)}
+          {/* The model is shown on hover so it does not crowd the conversation. */}
+          {isAI && message.model && (
+            <span className="ml-2 text-xs font-normal text-gray-500 opacity-0 group-hover/message:opacity-100 transition-opacity" title={message.model}>
+              {modelLabel(message.model)}
+            </span>
+          )}
         </span>
-        <ChatBubble sender={message.sender}>
-          {renderContent()}
-        </ChatBubble>
+        {isEditing && onEdit ? (
+          <MessageEditor
+            text={message.text}
+            onSubmit={(text) => {
+              setIsEditing(false);
+              onEdit(message.id, text);
+            }}
+            onCancel={() => setIsEditing(false)}
+          />
+        ) : (
+          <ChatBubble sender={message.sender}>
+            {message.attachments && message.attachments.length > 0 && <AttachmentList attachments={message.attachments} />}
+            {renderContent()}
+          </ChatBubble>
+        )}
+        <div className={`mt-1 flex items-center gap-1 ${isAI ? '' : 'flex-row-reverse'}`}>
+          {version && version.count > 1 && (
+            <VersionSwitcher index={version.index} count={version.count} onSwitch={onSwitchVersion && (offset => onSwitchVersion(message.id, offset))} />
+          )}
+          {canSpeak && onSpeak && (
+            <button
+              onClick={() => (isSpeaking ? onStopSpeaking?.() : onSpeak(message))}
+              aria-label={isSpeaking ? 'Stop reading aloud' : 'Read aloud'}
+              title={isSpeaking ? 'Stop reading aloud' : 'Read aloud'}
+              className={`px-2 py-1 rounded-full text-xs hover:bg-gray-800 ${isSpeaking ? 'text-deep-purple-400' : 'text-gray-500 hover:text-gray-300'}`}
+            >
+              <i className={`fas ${isSpeaking ? 'fa-stop' : 'fa-volume-up'}`}></i>
+            </button>
+          )}
+          {/* Editing and branching are shown on hover, like the model label. */}
+          <div className="flex items-center gap-1 opacity-0 group-hover/message:opacity-100 focus-within:opacity-100 transition-opacity">
+            {onEdit && !isEditing && (
+              <button onClick={() => setIsEditing(true)} aria-label="Edit message" title="Edit" className={actionClass}>
+                <i className="fas fa-pen"></i>
+              </button>
+            )}
+            {onRegenerate && !message.isStreaming && (
+              <button onClick={() => onRegenerate(message.id)} aria-label="Regenerate reply" title="Regenerate" className={actionClass}>
+                <i className="fas fa-sync-alt"></i>
+              </button>
+            )}
+            {onFork && (
+              <button onClick={() => onFork(message.id)} aria-label="Fork conversation from here" title="Fork from here" className={actionClass}>
+                <i className="fas fa-code-branch"></i>
+              </button>
+            )}
+          </div>
+        </div>
       </div>
-      {!isAI && <UserAvatar />}
+      {!isAI && <UserAvatar persona={persona} />}
     </div>
   );
 };
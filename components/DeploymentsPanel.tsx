@@ -0,0 +1,157 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { DeploymentTarget, DeploymentRecord } from '../types';
+import { listDeployments, rollbackDeployment } from '../services/deploymentService';
+import { loadTargets, forgetTarget } from '../services/deploymentTargets';
+
+interface DeploymentsPanelProps {
+  onClose: () => void;
+}
+
+const STATUS_STYLES: Record<string, string> = {
+  success: 'text-green-400',
+  error: 'text-red-400',
+  building: 'text-deep-purple-400',
+  deploying: 'text-deep-purple-400',
+};
+
+const DeploymentsPanel: React.FC<DeploymentsPanelProps> = ({ onClose }) => {
+  const [targets, setTargets] = useState<DeploymentTarget[]>(() => loadTargets());
+  const [selectedSiteId, setSelectedSiteId] = useState<string | undefined>(targets[targets.length - 1]?.netlifySiteId);
+  const [deployments, setDeployments] = useState<DeploymentRecord[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const selectedTarget = targets.find(t => t.netlifySiteId === selectedSiteId);
+
+  const refresh = useCallback(async () => {
+    if (!selectedTarget) {
+      setDeployments([]);
+      return;
+    }
+    setIsLoading(true);
+    setError(null);
+    try {
+      setDeployments(await listDeployments(selectedTarget));
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e));
+    } finally {
+      setIsLoading(false);
+    }
+  }, [selectedTarget]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const handleRollback = async (deployment: DeploymentRecord) => {
+    if (!selectedTarget) return;
+    if (!window.confirm(`Roll ${selectedTarget.siteUrl} back to the deploy from ${new Date(deployment.createdAt).toLocaleString()}?`)) return;
+    setIsLoading(true);
+    try {
+      await rollbackDeployment(selectedTarget, deployment.id);
+      await refresh();
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e));
+      setIsLoading(false);
+    }
+  };
+
+  const handleForget = () => {
+    if (!selectedTarget) return;
+    if (!window.confirm(`Forget ${selectedTarget.repoFullName}? The repository and site are not deleted, but the next deployment will create new ones.`)) return;
+    forgetTarget(selectedTarget.netlifySiteId);
+    const remaining = loadTargets();
+    setTargets(remaining);
+    setSelectedSiteId(remaining[remaining.length - 1]?.netlifySiteId);
+  };
+
+  return (
+    <div className="fixed inset-0 z-30 bg-black/60 flex items-center justify-center p-4" onClick={onClose}>
+      <div
+        className="bg-gray-800 rounded-2xl shadow-xl w-full max-w-2xl max-h-[80vh] flex flex-col"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between px-5 py-4 border-b border-gray-700">
+          <h2 className="text-lg font-bold text-white">Deployments</h2>
+          <button onClick={onClose} aria-label="Close" className="p-2 rounded-full text-gray-400 hover:text-white hover:bg-gray-700">
+            <i className="fas fa-times"></i>
+          </button>
+        </div>
+
+        {targets.length === 0 ? (
+          <p className="p-5 text-gray-400">Nothing has been deployed yet. Ask Alfreyaa to deploy, or use /deploy.</p>
+        ) : (
+          <>
+            <div className="flex items-center gap-3 px-5 py-3 border-b border-gray-700">
+              <select
+                value={selectedSiteId}
+                onChange={(e) => setSelectedSiteId(e.target.value)}
+                className="flex-grow bg-gray-900 border border-gray-700 rounded-lg py-2 px-3 text-sm text-white focus:outline-none focus:ring-2 focus:ring-deep-purple-500"
+              >
+                {targets.map(target => (
+                  <option key={target.netlifySiteId} value={target.netlifySiteId}>
+                    {target.repoFullName} ({target.branch})
+                  </option>
+                ))}
+              </select>
+              <button onClick={refresh} title="Refresh" className="p-2 rounded-full text-gray-400 hover:text-white hover:bg-gray-700">
+                <i className={`fas fa-sync-alt ${isLoading ? 'fa-spin' : ''}`}></i>
+              </button>
+              <button onClick={handleForget} title="Forget this target" className="p-2 rounded-full text-gray-400 hover:text-white hover:bg-gray-700">
+                <i className="fas fa-unlink"></i>
+              </button>
+            </div>
+            {selectedTarget && (
+              <a
+                href={selectedTarget.siteUrl}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="px-5 pt-3 text-sm text-light-blue-400 hover:text-light-blue-300 hover:underline break-all"
+              >
+                {selectedTarget.siteUrl}
+              </a>
+            )}
+            {error && <p className="px-5 pt-3 text-sm text-red-400">{error}</p>}
+            <ul className="flex-1 overflow-y-auto px-5 py-3 divide-y divide-gray-700/50">
+              {deployments.map(deployment => (
+                <li key={deployment.id} className="py-3 flex items-center gap-3">
+                  <div className="flex-grow min-w-0">
+                    <div className="flex items-center gap-2">
+                      <span className={`text-sm font-semibold ${STATUS_STYLES[deployment.status] ?? 'text-gray-400'}`}>{deployment.state}</span>
+                      {deployment.isPublished && (
+                        <span className="text-xs bg-green-600/80 text-white rounded px-1.5 py-0.5">Live</span>
+                      )}
+                      {deployment.commitRef && (
+                        <span className="text-xs text-gray-500 font-mono">{deployment.commitRef.slice(0, 7)}</span>
+                      )}
+                    </div>
+                    <p className="text-xs text-gray-400 truncate">
+                      {new Date(deployment.createdAt).toLocaleString()}
+                      {deployment.title && ` · ${deployment.title}`}
+                    </p>
+                  </div>
+                  {deployment.url && (
+                    <a href={deployment.url} target="_blank" rel="noopener noreferrer" title="Open this deploy" className="text-gray-400 hover:text-white">
+                      <i className="fas fa-external-link-alt"></i>
+                    </a>
+                  )}
+                  {deployment.status === 'success' && !deployment.isPublished && (
+                    <button
+                      onClick={() => handleRollback(deployment)}
+                      disabled={isLoading}
+                      className="text-xs bg-gray-700 hover:bg-gray-600 disabled:opacity-50 text-white font-semibold py-1 px-2 rounded"
+                    >
+                      Roll back
+                    </button>
+                  )}
+                </li>
+              ))}
+            </ul>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default DeploymentsPanel;
@@ -0,0 +1,85 @@
+import React, { useMemo, useState } from 'react';
+import { diffLines, DiffRow, DiffLine } from '../services/diffService';
+
+interface DiffViewerProps {
+  before: string;
+  after: string;
+}
+
+// Unchanged lines shown around each change when the diff is collapsed.
+const CONTEXT_LINES = 3;
+
+type DisplayRow = DiffRow | { kind: 'collapsed'; count: number };
+
+const collapseUnchanged = (rows: DiffRow[]): DisplayRow[] => {
+  const visible = rows.map((_, index) =>
+    rows.slice(Math.max(0, index - CONTEXT_LINES), index + CONTEXT_LINES + 1).some(r => r.kind !== 'equal')
+  );
+
+  const result: DisplayRow[] = [];
+  rows.forEach((row, index) => {
+    if (visible[index]) {
+      result.push(row);
+      return;
+    }
+    const last = result[result.length - 1];
+    if (last && last.kind === 'collapsed') {
+      last.count++;
+    } else {
+      result.push({ kind: 'collapsed', count: 1 });
+    }
+  });
+  return result;
+};
+
+const cellClass = (kind: DiffRow['kind'], side: 'left' | 'right'): string => {
+  if (kind === 'removed' || (kind === 'changed' && side === 'left')) return 'bg-red-900/40 text-red-200';
+  if (kind === 'added' || (kind === 'changed' && side === 'right')) return 'bg-green-900/40 text-green-200';
+  return 'text-gray-400';
+};
+
+const Cells: React.FC<{ line?: DiffLine; kind: DiffRow['kind']; side: 'left' | 'right' }> = ({ line, kind, side }) => (
+  <>
+    <td className="w-10 pr-2 text-right text-gray-600 select-none align-top">{line?.number}</td>
+    <td className={`px-2 whitespace-pre-wrap break-all align-top ${line ? cellClass(kind, side) : 'bg-gray-900/40'}`}>
+      {line?.text}
+    </td>
+  </>
+);
+
+const DiffViewer: React.FC<DiffViewerProps> = ({ before, after }) => {
+  const [expanded, setExpanded] = useState(false);
+  const rows = useMemo(() => diffLines(before, after), [before, after]);
+  const displayRows = useMemo(() => (expanded ? rows : collapseUnchanged(rows)), [rows, expanded]);
+
+  return (
+    <div className="mt-2 rounded-lg border border-gray-700 overflow-x-auto">
+      <table className="w-full text-xs font-mono border-collapse">
+        <tbody>
+          {displayRows.map((row, index) =>
+            row.kind === 'collapsed' ? (
+              <tr key={index}>
+                <td colSpan={4} className="px-2 py-1 text-center bg-gray-900/60">
+                  <button
+                    onClick={() => setExpanded(true)}
+                    className="text-gray-500 hover:text-gray-300"
+                  >
+                    <i className="fas fa-ellipsis-h mr-2"></i>
+                    {row.count} unchanged {row.count === 1 ? 'line' : 'lines'}
+                  </button>
+                </td>
+              </tr>
+            ) : (
+              <tr key={index}>
+                <Cells line={row.left} kind={row.kind} side="left" />
+                <Cells line={row.right} kind={row.kind} side="right" />
+              </tr>
+            )
+          )}
+        </tbody>
+      </table>
+    </div>
+  );
+};
+
+export default DiffViewer;
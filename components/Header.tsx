@@ -1,23 +1,95 @@
 
 import React from 'react';
+import { Persona } from '../services/personas';
 
 interface HeaderProps {
+  onToggleSidebar: () => void;
   onClearHistory: () => void;
+  onOpenDeployments: () => void;
+  onOpenSearch: () => void;
+  onOpenGallery: () => void;
+  onOpenSettings: () => void;
+  onOpenUsage: () => void;
+  personas: Persona[];
+  /** The persona of the conversation being shown. */
+  activePersonaId: string;
+  onSelectPersona: (personaId: string) => void;
 }
 
-const Header: React.FC<HeaderProps> = ({ onClearHistory }) => {
+const Header: React.FC<HeaderProps> = ({ onToggleSidebar, onClearHistory, onOpenDeployments, onOpenSearch, onOpenGallery, onOpenSettings, onOpenUsage, personas, activePersonaId, onSelectPersona }) => {
   return (
     <header className="bg-gray-900/80 backdrop-blur-sm shadow-lg sticky top-0 z-20">
       <div className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8">
         <div className="flex items-center justify-between h-16">
-          <div className="flex items-center">
+          <div className="flex items-center gap-2">
+            <button
+              onClick={onToggleSidebar}
+              aria-label="Toggle chat sessions"
+              title="Chat sessions"
+              className="p-2 rounded-full text-gray-400 hover:text-white hover:bg-gray-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-gray-800 focus:ring-white transition-colors"
+            >
+              <i className="fas fa-bars"></i>
+            </button>
              <h1 className="text-xl font-bold text-white">Alfreyaa AI Assistant</h1>
+            {personas.length > 1 && (
+              <select
+                value={activePersonaId}
+                onChange={(e) => onSelectPersona(e.target.value)}
+                aria-label="Persona for this conversation"
+                title="Persona for this conversation"
+                className="ml-2 bg-gray-800 text-gray-200 text-sm rounded-lg px-2 py-1 focus:outline-none focus:ring-2 focus:ring-deep-purple-500"
+              >
+                {personas.map(persona => (
+                  <option key={persona.id} value={persona.id}>{persona.assistantName}</option>
+                ))}
+              </select>
+            )}
           </div>
-          <div className="flex items-center">
+          <div className="flex items-center gap-1">
+            <button
+              onClick={onOpenSearch}
+              aria-label="Search conversations"
+              title="Search conversations"
+              className="p-2 rounded-full text-gray-400 hover:text-white hover:bg-gray-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-gray-800 focus:ring-white transition-colors"
+            >
+              <i className="fas fa-search"></i>
+            </button>
+            <button
+              onClick={onOpenGallery}
+              aria-label="Show image gallery"
+              title="Image gallery"
+              className="p-2 rounded-full text-gray-400 hover:text-white hover:bg-gray-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-gray-800 focus:ring-white transition-colors"
+            >
+              <i className="fas fa-images"></i>
+            </button>
+            <button
+              onClick={onOpenDeployments}
+              aria-label="Show deployments"
+              title="Show deployments"
+              className="p-2 rounded-full text-gray-400 hover:text-white hover:bg-gray-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-gray-800 focus:ring-white transition-colors"
+            >
+              <i className="fas fa-rocket"></i>
+            </button>
+            <button
+              onClick={onOpenUsage}
+              aria-label="Show usage and cost"
+              title="Usage and cost"
+              className="p-2 rounded-full text-gray-400 hover:text-white hover:bg-gray-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-gray-800 focus:ring-white transition-colors"
+            >
+              <i className="fas fa-chart-bar"></i>
+            </button>
+            <button
+              onClick={onOpenSettings}
+              aria-label="Open settings"
+              title="Settings"
+              className="p-2 rounded-full text-gray-400 hover:text-white hover:bg-gray-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-gray-800 focus:ring-white transition-colors"
+            >
+              <i className="fas fa-cog"></i>
+            </button>
             <button
               onClick={onClearHistory}
-              aria-label="Clear chat history"
-              title="Clear chat history"
+              aria-label="Clear this conversation"
+              title="Clear this conversation"
               className="p-2 rounded-full text-gray-400 hover:text-white hover:bg-gray-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-gray-800 focus:ring-white transition-colors"
             >
               <i className="fas fa-trash-alt"></i>
@@ -0,0 +1,72 @@
+import React, { useState, useMemo } from 'react';
+import { ChatSession } from '../types';
+import { collectGalleryImages, imageFileName } from '../services/imageOptions';
+import ImageLightbox from './ImageLightbox';
+
+interface ImageGalleryProps {
+  sessions: ChatSession[];
+  onShowInChat: (sessionId: string, messageId: string) => void;
+  onClose: () => void;
+}
+
+const ImageGallery: React.FC<ImageGalleryProps> = ({ sessions, onShowInChat, onClose }) => {
+  const [lightboxIndex, setLightboxIndex] = useState<number | null>(null);
+  const images = useMemo(() => collectGalleryImages(sessions), [sessions]);
+  const titles = new Map(sessions.map(session => [session.id, session.title]));
+
+  return (
+    <div className="fixed inset-0 z-30 bg-black/60 flex items-start justify-center p-4 pt-[5vh]" onClick={onClose}>
+      <div
+        className="bg-gray-800 rounded-2xl shadow-xl w-full max-w-5xl max-h-[90vh] flex flex-col"
+        onClick={(e) => e.stopPropagation()}
+        onKeyDown={(e) => e.key === 'Escape' && lightboxIndex === null && onClose()}
+      >
+        <div className="flex items-center justify-between px-5 py-4 border-b border-gray-700">
+          <h2 className="text-lg font-bold text-white">Image gallery</h2>
+          <button autoFocus onClick={onClose} aria-label="Close" className="p-2 rounded-full text-gray-400 hover:text-white hover:bg-gray-700">
+            <i className="fas fa-times"></i>
+          </button>
+        </div>
+        <div className="flex-1 overflow-y-auto p-5">
+          {images.length === 0 && <p className="text-sm text-gray-400">No images have been generated yet.</p>}
+          <ul className="grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-4 gap-3">
+            {images.map((image, i) => (
+              <li key={`${image.sessionId}/${image.message.id}/${image.index}`}>
+                <button onClick={() => setLightboxIndex(i)} className="block w-full" aria-label={`View ${image.message.imageGeneration?.prompt ?? 'image'}`}>
+                  <img src={image.url} alt={image.message.imageGeneration?.prompt ?? 'Generated image'} className="rounded-lg w-full aspect-square object-cover hover:opacity-90" />
+                </button>
+                <p className="text-xs text-gray-400 mt-1 truncate" title={image.message.imageGeneration?.prompt}>
+                  {image.message.imageGeneration?.prompt ?? titles.get(image.sessionId)}
+                </p>
+              </li>
+            ))}
+          </ul>
+        </div>
+      </div>
+      {lightboxIndex !== null && (
+        <div onClick={(e) => e.stopPropagation()}>
+          <ImageLightbox
+            images={images.map(image => ({
+              url: image.url,
+              fileName: imageFileName(image.message, image.index, image.url),
+              caption: image.message.imageGeneration?.prompt,
+            }))}
+            startIndex={lightboxIndex}
+            onClose={() => setLightboxIndex(null)}
+            renderActions={index => (
+              <button
+                onClick={() => onShowInChat(images[index].sessionId, images[index].message.id)}
+                title={`Show in "${titles.get(images[index].sessionId)}"`}
+                className="px-3 py-2 rounded-full text-sm text-gray-300 hover:text-white hover:bg-white/10"
+              >
+                <i className="fas fa-comment-alt mr-1"></i> Show in chat
+              </button>
+            )}
+          />
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ImageGallery;
@@ -0,0 +1,67 @@
+import React, { useState, useEffect } from 'react';
+
+export interface LightboxImage {
+  url: string;
+  fileName: string;
+  caption?: string;
+}
+
+interface ImageLightboxProps {
+  images: LightboxImage[];
+  startIndex: number;
+  onClose: () => void;
+  /** Extra actions shown next to the download button for the current image. */
+  renderActions?: (index: number) => React.ReactNode;
+}
+
+const controlClass = 'p-3 rounded-full text-gray-300 hover:text-white hover:bg-white/10 focus:outline-none focus:ring-2 focus:ring-white';
+
+const ImageLightbox: React.FC<ImageLightboxProps> = ({ images, startIndex, onClose, renderActions }) => {
+  const [index, setIndex] = useState(startIndex);
+  const image = images[index];
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+      if (e.key === 'ArrowRight') setIndex(i => (i + 1) % images.length);
+      if (e.key === 'ArrowLeft') setIndex(i => (i - 1 + images.length) % images.length);
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [images.length, onClose]);
+
+  if (!image) return null;
+
+  return (
+    <div className="fixed inset-0 z-40 bg-black/90 flex flex-col" onClick={onClose} role="dialog" aria-label="Image viewer">
+      <div className="flex items-center justify-between p-3" onClick={(e) => e.stopPropagation()}>
+        <span className="text-sm text-gray-400">{images.length > 1 && `${index + 1} / ${images.length}`}</span>
+        <div className="flex items-center gap-1">
+          {renderActions?.(index)}
+          <a href={image.url} download={image.fileName} aria-label="Download image" title="Download" className={controlClass}>
+            <i className="fas fa-download"></i>
+          </a>
+          <button onClick={onClose} aria-label="Close" title="Close" className={controlClass}>
+            <i className="fas fa-times"></i>
+          </button>
+        </div>
+      </div>
+      <div className="flex-1 min-h-0 flex items-center justify-center gap-2 px-2">
+        {images.length > 1 && (
+          <button onClick={(e) => { e.stopPropagation(); setIndex((index - 1 + images.length) % images.length); }} aria-label="Previous image" className={controlClass}>
+            <i className="fas fa-chevron-left"></i>
+          </button>
+        )}
+        <img src={image.url} alt={image.caption ?? 'Generated image'} onClick={(e) => e.stopPropagation()} className="max-h-full max-w-full object-contain rounded-lg" />
+        {images.length > 1 && (
+          <button onClick={(e) => { e.stopPropagation(); setIndex((index + 1) % images.length); }} aria-label="Next image" className={controlClass}>
+            <i className="fas fa-chevron-right"></i>
+          </button>
+        )}
+      </div>
+      {image.caption && <p className="p-4 text-center text-sm text-gray-300" onClick={(e) => e.stopPropagation()}>{image.caption}</p>}
+    </div>
+  );
+};
+
+export default ImageLightbox;
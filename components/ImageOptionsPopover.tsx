@@ -0,0 +1,86 @@
+import React from 'react';
+import { ImageAspectRatio, ImageGenerationOptions, ImageStylePreset } from '../types';
+import { ASPECT_RATIOS, STYLE_PRESETS, MAX_IMAGES_PER_REQUEST } from '../services/imageOptions';
+
+interface ImageOptionsPopoverProps {
+  options: ImageGenerationOptions;
+  onChange: (options: ImageGenerationOptions) => void;
+  onClose: () => void;
+}
+
+const labelClass = 'block text-xs font-semibold text-gray-400 uppercase tracking-wider mb-1';
+
+const ImageOptionsPopover: React.FC<ImageOptionsPopoverProps> = ({ options, onChange, onClose }) => {
+  const update = (patch: Partial<ImageGenerationOptions>) => onChange({ ...options, ...patch });
+
+  return (
+    <div
+      className="absolute bottom-full left-0 mb-2 w-72 bg-gray-800 border border-gray-700 rounded-lg shadow-lg p-4 space-y-4 z-10"
+      role="dialog"
+      aria-label="Image options"
+      onKeyDown={(e) => e.key === 'Escape' && onClose()}
+    >
+      <div className="flex items-center justify-between">
+        <h3 className="text-sm font-bold text-white">Image options</h3>
+        <button type="button" onClick={onClose} aria-label="Close image options" className="text-gray-400 hover:text-white">
+          <i className="fas fa-times"></i>
+        </button>
+      </div>
+      <div>
+        <span className={labelClass}>Aspect ratio</span>
+        <div className="flex flex-wrap gap-1">
+          {ASPECT_RATIOS.map((ratio: ImageAspectRatio) => (
+            <button
+              key={ratio}
+              type="button"
+              onClick={() => update({ aspectRatio: ratio })}
+              aria-pressed={options.aspectRatio === ratio}
+              className={`px-2 py-1 rounded text-xs border ${options.aspectRatio === ratio ? 'bg-deep-purple-600 border-deep-purple-500 text-white' : 'border-gray-600 text-gray-300 hover:bg-gray-700'}`}
+            >
+              {ratio}
+            </button>
+          ))}
+        </div>
+      </div>
+      <div>
+        <span className={labelClass}>Images</span>
+        <div className="flex gap-1">
+          {Array.from({ length: MAX_IMAGES_PER_REQUEST }, (_, i) => i + 1).map(count => (
+            <button
+              key={count}
+              type="button"
+              onClick={() => update({ numberOfImages: count })}
+              aria-pressed={options.numberOfImages === count}
+              className={`w-8 py-1 rounded text-xs border ${options.numberOfImages === count ? 'bg-deep-purple-600 border-deep-purple-500 text-white' : 'border-gray-600 text-gray-300 hover:bg-gray-700'}`}
+            >
+              {count}
+            </button>
+          ))}
+        </div>
+      </div>
+      <label className="block">
+        <span className={labelClass}>Style</span>
+        <select
+          value={options.style}
+          onChange={(e) => update({ style: e.target.value as ImageStylePreset })}
+          className="w-full bg-gray-700 text-gray-200 text-sm rounded px-2 py-1 focus:outline-none focus:ring-2 focus:ring-deep-purple-500"
+        >
+          {(Object.keys(STYLE_PRESETS) as ImageStylePreset[]).map(style => (
+            <option key={style} value={style}>{STYLE_PRESETS[style].label}</option>
+          ))}
+        </select>
+      </label>
+      <label className="block">
+        <span className={labelClass}>Avoid</span>
+        <input
+          value={options.negativePrompt ?? ''}
+          onChange={(e) => update({ negativePrompt: e.target.value || undefined })}
+          placeholder="e.g. text, watermarks, blur"
+          className="w-full bg-gray-700 text-white text-sm rounded px-2 py-1 placeholder-gray-500 focus:outline-none focus:ring-2 focus:ring-deep-purple-500"
+        />
+      </label>
+    </div>
+  );
+};
+
+export default ImageOptionsPopover;
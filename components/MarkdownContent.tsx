@@ -0,0 +1,96 @@
+import React, { useState } from 'react';
+import ReactMarkdown, { Components } from 'react-markdown';
+import type { ElementContent } from 'hast';
+import { Source } from '../types';
+import { markdownPlugins } from '../services/markdown';
+
+interface MarkdownContentProps {
+  text: string;
+  /** Sources that `[n]` citation markers in the text refer to. */
+  sources?: Source[];
+  /** Prefix of the element ids of the source entries, which citations link to. */
+  sourceIdPrefix?: string;
+  children?: React.ReactNode;
+}
+
+const textOf = (nodes: ElementContent[]): string =>
+  nodes.map(node => (node.type === 'text' ? node.value : 'children' in node ? textOf(node.children) : '')).join('');
+
+const CodeBlock: React.FC<{ code: string; children: React.ReactNode }> = ({ code, children }) => {
+  const [copied, setCopied] = useState(false);
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(code);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 1500);
+    } catch (error) {
+      console.error("Failed to copy code:", error);
+    }
+  };
+
+  return (
+    <div className="relative group my-3">
+      <button
+        onClick={handleCopy}
+        aria-label="Copy code"
+        className="absolute top-2 right-2 px-2 py-1 rounded text-xs bg-gray-700/80 text-gray-300 hover:text-white hover:bg-gray-600 opacity-0 group-hover:opacity-100 focus:opacity-100 transition-opacity"
+      >
+        <i className={`fas ${copied ? 'fa-check' : 'fa-copy'} mr-1`}></i>{copied ? 'Copied' : 'Copy'}
+      </button>
+      <pre className="bg-gray-950 rounded-lg p-3 overflow-x-auto text-sm">{children}</pre>
+    </div>
+  );
+};
+
+const COMPONENTS: Components = {
+  pre: ({ node, children }) => <CodeBlock code={textOf(node?.children ?? [])}>{children}</CodeBlock>,
+  code: ({ className, children }) => (
+    className?.includes('hljs') || className?.startsWith('language-')
+      ? <code className={className}>{children}</code>
+      : <code className="bg-gray-700/70 rounded px-1 py-0.5 text-[0.9em]">{children}</code>
+  ),
+  a: ({ href, title, children, ...props }) => {
+    if ('data-citation' in props) {
+      return (
+        <sup>
+          <a href={href} title={title} className="text-light-blue-400 hover:text-light-blue-300 no-underline px-0.5">[{children}]</a>
+        </sup>
+      );
+    }
+    return <a href={href} title={title} target="_blank" rel="noopener noreferrer" className="text-light-blue-400 hover:text-light-blue-300 hover:underline">{children}</a>;
+  },
+  h1: ({ children }) => <h1 className="text-xl font-bold mt-4 mb-2">{children}</h1>,
+  h2: ({ children }) => <h2 className="text-lg font-bold mt-4 mb-2">{children}</h2>,
+  h3: ({ children }) => <h3 className="font-bold mt-3 mb-1">{children}</h3>,
+  p: ({ children }) => <p className="my-2 first:mt-0 last:mb-0">{children}</p>,
+  ul: ({ children }) => <ul className="list-disc pl-6 my-2 space-y-1">{children}</ul>,
+  ol: ({ children }) => <ol className="list-decimal pl-6 my-2 space-y-1">{children}</ol>,
+  blockquote: ({ children }) => <blockquote className="border-l-4 border-gray-600 pl-3 my-2 text-gray-400">{children}</blockquote>,
+  table: ({ children }) => (
+    <div className="overflow-x-auto my-3">
+      <table className="text-sm border-collapse">{children}</table>
+    </div>
+  ),
+  th: ({ children, style }) => <th style={style} className="border border-gray-600 px-3 py-1 bg-gray-700/50 text-left">{children}</th>,
+  td: ({ children, style }) => <td style={style} className="border border-gray-600 px-3 py-1">{children}</td>,
+  hr: () => <hr className="my-4 border-gray-700" />,
+};
+
+/**
+ * Renders Markdown from the model. Raw HTML in the text is never injected
+ * into the page, and unsafe link protocols are removed.
+ */
+const MarkdownContent: React.FC<MarkdownContentProps> = ({ text, sources = [], sourceIdPrefix = '', children }) => (
+  <div className="text-gray-200 break-words">
+    <ReactMarkdown
+      {...markdownPlugins(sources, sourceIdPrefix)}
+      components={COMPONENTS}
+    >
+      {text}
+    </ReactMarkdown>
+    {children}
+  </div>
+);
+
+export default MarkdownContent;
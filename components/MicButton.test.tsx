@@ -0,0 +1,131 @@
+// @vitest-environment happy-dom
+import React, { act } from 'react';
+import { createRoot, Root } from 'react-dom/client';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { RecognitionCallbacks, RecognitionOptions, SpeechRecognizer, getSpeechRecognizer, setSpeechRecognizer } from '../services/speech';
+import MicButton from './MicButton';
+
+(globalThis as { IS_REACT_ACT_ENVIRONMENT?: boolean }).IS_REACT_ACT_ENVIRONMENT = true;
+
+/** A recognizer the test speaks through: `say` delivers transcripts, `stop` ends the session. */
+const createFakeRecognizer = (supported = true) => {
+  let callbacks: RecognitionCallbacks | null = null;
+  const fake = {
+    starts: [] as RecognitionOptions[],
+    isSupported: () => supported,
+    start: vi.fn((options: RecognitionOptions, next: RecognitionCallbacks) => {
+      fake.starts.push(options);
+      callbacks = next;
+    }),
+    stop: vi.fn(() => {
+      callbacks?.onEnd();
+      callbacks = null;
+    }),
+    say: (text: string, isFinal: boolean) => callbacks?.onTranscript(text, isFinal),
+    fail: (message: string) => callbacks?.onError(message),
+  };
+  return fake satisfies SpeechRecognizer;
+};
+
+const webRecognizer = getSpeechRecognizer();
+let container: HTMLDivElement;
+let root: Root;
+
+beforeEach(() => {
+  container = document.createElement('div');
+  document.body.appendChild(container);
+  root = createRoot(container);
+});
+
+afterEach(() => {
+  act(() => root.unmount());
+  container.remove();
+  setSpeechRecognizer(webRecognizer);
+});
+
+const renderButton = (props: Partial<React.ComponentProps<typeof MicButton>> = {}) => {
+  const handlers = { onStart: vi.fn(), onTranscript: vi.fn(), onEnd: vi.fn(), onError: vi.fn() };
+  act(() => root.render(<MicButton mode="push_to_talk" language="en-GB" disabled={false} {...handlers} {...props} />));
+  return { button: () => container.querySelector('button'), ...handlers };
+};
+
+const fire = (element: Element | null, event: Event) => act(() => {
+  element!.dispatchEvent(event);
+});
+
+describe('MicButton', () => {
+  it('renders nothing when speech recognition is not supported', () => {
+    setSpeechRecognizer(createFakeRecognizer(false));
+
+    expect(renderButton().button()).toBeNull();
+  });
+
+  it('listens while held in push-to-talk mode', () => {
+    const recognizer = createFakeRecognizer();
+    setSpeechRecognizer(recognizer);
+    const { button, onStart, onTranscript, onEnd } = renderButton();
+
+    fire(button(), new PointerEvent('pointerdown', { bubbles: true }));
+    expect(onStart).toHaveBeenCalledOnce();
+    expect(recognizer.starts).toEqual([{ continuous: false, lang: 'en-GB' }]);
+    expect(button()?.getAttribute('aria-pressed')).toBe('true');
+
+    act(() => {
+      recognizer.say('turn the', false);
+      recognizer.say('turn the header blue', true);
+    });
+    expect(onTranscript.mock.calls).toEqual([['turn the', false], ['turn the header blue', true]]);
+
+    fire(button(), new PointerEvent('pointerup', { bubbles: true }));
+    expect(recognizer.stop).toHaveBeenCalled();
+    expect(onEnd).toHaveBeenCalledOnce();
+    expect(button()?.getAttribute('aria-pressed')).toBe('false');
+  });
+
+  it('holds with Space, ignoring key repeats', () => {
+    const recognizer = createFakeRecognizer();
+    setSpeechRecognizer(recognizer);
+    const { button } = renderButton();
+
+    fire(button(), new KeyboardEvent('keydown', { key: ' ', bubbles: true }));
+    fire(button(), new KeyboardEvent('keydown', { key: ' ', repeat: true, bubbles: true }));
+    expect(recognizer.start).toHaveBeenCalledOnce();
+
+    fire(button(), new KeyboardEvent('keyup', { key: ' ', bubbles: true }));
+    expect(recognizer.stop).toHaveBeenCalled();
+  });
+
+  it('toggles listening with clicks in continuous mode', () => {
+    const recognizer = createFakeRecognizer();
+    setSpeechRecognizer(recognizer);
+    const { button, onEnd } = renderButton({ mode: 'continuous', language: '' });
+
+    fire(button(), new MouseEvent('click', { bubbles: true }));
+    expect(recognizer.starts).toEqual([{ continuous: true, lang: '' }]);
+    expect(button()?.getAttribute('aria-label')).toBe('Stop listening');
+
+    fire(button(), new MouseEvent('click', { bubbles: true }));
+    expect(onEnd).toHaveBeenCalledOnce();
+    expect(button()?.getAttribute('aria-label')).toBe('Start listening');
+  });
+
+  it('does not start while disabled', () => {
+    const recognizer = createFakeRecognizer();
+    setSpeechRecognizer(recognizer);
+    const { button, onStart } = renderButton({ disabled: true });
+
+    fire(button(), new PointerEvent('pointerdown', { bubbles: true }));
+    expect(onStart).not.toHaveBeenCalled();
+    expect(recognizer.start).not.toHaveBeenCalled();
+  });
+
+  it('passes on recognition errors', () => {
+    const recognizer = createFakeRecognizer();
+    setSpeechRecognizer(recognizer);
+    const { button, onError } = renderButton();
+
+    fire(button(), new PointerEvent('pointerdown', { bubbles: true }));
+    act(() => recognizer.fail('Microphone access was denied.'));
+    expect(onError).toHaveBeenCalledWith('Microphone access was denied.');
+  });
+});
@@ -0,0 +1,86 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { getSpeechRecognizer, RecognitionCallbacks } from '../services/speech';
+import { VoiceInputMode } from '../services/voiceSettings';
+
+interface MicButtonProps {
+  mode: VoiceInputMode;
+  language: string;
+  disabled: boolean;
+  /** Called when listening starts, e.g. to stop a reply being read aloud. */
+  onStart: () => void;
+  onTranscript: RecognitionCallbacks['onTranscript'];
+  onEnd: RecognitionCallbacks['onEnd'];
+  onError: RecognitionCallbacks['onError'];
+}
+
+/**
+ * Dictation button. In push-to-talk mode it listens while held, with the mouse,
+ * touch or Space/Enter; in continuous mode a click turns listening on and off.
+ */
+const MicButton: React.FC<MicButtonProps> = ({ mode, language, disabled, onStart, onTranscript, onEnd, onError }) => {
+  const [isListening, setIsListening] = useState(false);
+  const recognizer = getSpeechRecognizer();
+  // Recognition callbacks outlive renders, so they always call the latest props.
+  const callbacksRef = useRef({ onTranscript, onEnd, onError });
+  callbacksRef.current = { onTranscript, onEnd, onError };
+
+  useEffect(() => () => recognizer.stop(), [recognizer]);
+
+  if (!recognizer.isSupported()) return null;
+
+  const start = () => {
+    if (isListening || disabled) return;
+    onStart();
+    setIsListening(true);
+    recognizer.start({ continuous: mode === 'continuous', lang: language }, {
+      onTranscript: (text, isFinal) => callbacksRef.current.onTranscript(text, isFinal),
+      onEnd: () => {
+        setIsListening(false);
+        callbacksRef.current.onEnd();
+      },
+      onError: message => callbacksRef.current.onError(message),
+    });
+  };
+
+  const stop = () => {
+    if (isListening) recognizer.stop();
+  };
+
+  const holdHandlers = {
+    onPointerDown: (e: React.PointerEvent) => {
+      e.preventDefault();
+      start();
+    },
+    onPointerUp: stop,
+    onPointerLeave: stop,
+    onKeyDown: (e: React.KeyboardEvent) => {
+      if ((e.key === ' ' || e.key === 'Enter') && !e.repeat) {
+        e.preventDefault();
+        start();
+      }
+    },
+    onKeyUp: (e: React.KeyboardEvent) => {
+      if (e.key === ' ' || e.key === 'Enter') stop();
+    },
+  };
+
+  const label = mode === 'push_to_talk'
+    ? 'Hold to talk'
+    : isListening ? 'Stop listening' : 'Start listening';
+
+  return (
+    <button
+      type="button"
+      {...(mode === 'push_to_talk' ? holdHandlers : { onClick: () => (isListening ? stop() : start()) })}
+      disabled={disabled && !isListening}
+      aria-label={label}
+      aria-pressed={isListening}
+      title={label}
+      className={`rounded-full w-12 h-12 flex items-center justify-center flex-shrink-0 focus:outline-none focus:ring-2 focus:ring-deep-purple-500 disabled:opacity-50 transition-all select-none touch-none ${isListening ? 'bg-red-600 text-white animate-pulse' : 'text-gray-400 hover:text-white hover:bg-gray-800'}`}
+    >
+      <i className="fas fa-microphone"></i>
+    </button>
+  );
+};
+
+export default MicButton;
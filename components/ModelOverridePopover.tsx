@@ -0,0 +1,63 @@
+import React from 'react';
+import { ModelKind, modelsOfKind } from '../services/modelSettings';
+
+interface ModelOverridePopoverProps {
+  /** The model chosen for the next message; the configured models when unset. */
+  model?: string;
+  onChange: (model: string | undefined) => void;
+  onClose: () => void;
+}
+
+const GROUPS: { kind: ModelKind; label: string }[] = [
+  { kind: 'text', label: 'Text replies' },
+  { kind: 'image', label: 'Images' },
+];
+
+const optionClass = (selected: boolean) =>
+  `w-full text-left px-2 py-1 rounded text-sm ${selected ? 'bg-deep-purple-600 text-white' : 'text-gray-300 hover:bg-gray-700'}`;
+
+const ModelOverridePopover: React.FC<ModelOverridePopoverProps> = ({ model, onChange, onClose }) => {
+  const choose = (next: string | undefined) => {
+    onChange(next);
+    onClose();
+  };
+
+  return (
+    <div
+      className="absolute bottom-full left-0 mb-2 w-72 bg-gray-800 border border-gray-700 rounded-lg shadow-lg p-4 space-y-3 z-10"
+      role="dialog"
+      aria-label="Model for the next message"
+      onKeyDown={(e) => e.key === 'Escape' && onClose()}
+    >
+      <div className="flex items-center justify-between">
+        <h3 className="text-sm font-bold text-white">Model for the next message</h3>
+        <button type="button" onClick={onClose} aria-label="Close model choice" className="text-gray-400 hover:text-white">
+          <i className="fas fa-times"></i>
+        </button>
+      </div>
+      <button type="button" onClick={() => choose(undefined)} aria-pressed={!model} className={optionClass(!model)}>
+        Configured models
+      </button>
+      {GROUPS.map(({ kind, label }) => (
+        <div key={kind}>
+          <span className="block text-xs font-semibold text-gray-400 uppercase tracking-wider mb-1">{label}</span>
+          {modelsOfKind(kind).map(option => (
+            <button
+              key={option.id}
+              type="button"
+              onClick={() => choose(option.id)}
+              aria-pressed={model === option.id}
+              title={option.id}
+              className={optionClass(model === option.id)}
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+      ))}
+      <p className="text-xs text-gray-500">A text model is used if the message gets a text reply, an image model if it generates images.</p>
+    </div>
+  );
+};
+
+export default ModelOverridePopover;
@@ -0,0 +1,120 @@
+import React, { useState, useMemo } from 'react';
+import { ChatSession, MessageType, Sender } from '../types';
+import { searchMessages, SEARCH_FIELD_LABELS } from '../services/searchIndex';
+import { PersonaSettings, resolvePersona, userLabel } from '../services/personas';
+
+interface SearchPanelProps {
+  /** Passed so results refresh as the index is updated. */
+  sessions: ChatSession[];
+  /** Names the sender of each result after the persona of its conversation. */
+  personaSettings: PersonaSettings;
+  onSelectResult: (sessionId: string, messageId: string) => void;
+  onClose: () => void;
+}
+
+const TYPE_LABELS: Record<MessageType, string> = {
+  text: 'Chat',
+  grounded_text: 'Search',
+  website_analysis: 'Website',
+  image: 'Image',
+  code_modification: 'Code',
+  deployment: 'Deployment',
+  error: 'Error',
+};
+
+const SearchPanel: React.FC<SearchPanelProps> = ({ sessions, personaSettings, onSelectResult, onClose }) => {
+  const [query, setQuery] = useState('');
+  const [types, setTypes] = useState<MessageType[]>([]);
+  const [sender, setSender] = useState<Sender | ''>('');
+
+  const results = useMemo(
+    () => searchMessages(query, { types, sender: sender || undefined }),
+    // `sessions` is a dependency so results follow index updates.
+    [query, types, sender, sessions],
+  );
+  const titles = new Map(sessions.map(session => [session.id, session.title]));
+  const personaOf = (sessionId: string) => resolvePersona(personaSettings, sessions.find(session => session.id === sessionId)?.personaId);
+
+  const toggleType = (type: MessageType) => {
+    setTypes(prev => (prev.includes(type) ? prev.filter(t => t !== type) : [...prev, type]));
+  };
+
+  return (
+    <div className="fixed inset-0 z-30 bg-black/60 flex items-start justify-center p-4 pt-[10vh]" onClick={onClose}>
+      <div
+        className="bg-gray-800 rounded-2xl shadow-xl w-full max-w-2xl max-h-[80vh] flex flex-col"
+        onClick={(e) => e.stopPropagation()}
+        onKeyDown={(e) => e.key === 'Escape' && onClose()}
+      >
+        <div className="flex items-center gap-3 px-5 py-4 border-b border-gray-700">
+          <i className="fas fa-search text-gray-400"></i>
+          <input
+            autoFocus
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder="Search all conversations..."
+            aria-label="Search all conversations"
+            className="flex-1 bg-transparent text-white placeholder-gray-500 focus:outline-none"
+          />
+          <button onClick={onClose} aria-label="Close" className="p-2 rounded-full text-gray-400 hover:text-white hover:bg-gray-700">
+            <i className="fas fa-times"></i>
+          </button>
+        </div>
+
+        <div className="flex flex-wrap items-center gap-2 px-5 py-3 border-b border-gray-700 text-xs">
+          {(Object.keys(TYPE_LABELS) as MessageType[]).map(type => (
+            <button
+              key={type}
+              onClick={() => toggleType(type)}
+              aria-pressed={types.includes(type)}
+              className={`px-2 py-1 rounded-full border ${types.includes(type) ? 'bg-deep-purple-600 border-deep-purple-500 text-white' : 'border-gray-600 text-gray-300 hover:bg-gray-700'}`}
+            >
+              {TYPE_LABELS[type]}
+            </button>
+          ))}
+          <select
+            value={sender}
+            onChange={(e) => setSender(e.target.value as Sender | '')}
+            aria-label="Filter by sender"
+            className="ml-auto bg-gray-700 text-gray-200 rounded px-2 py-1 focus:outline-none"
+          >
+            <option value="">Anyone</option>
+            <option value="user">You</option>
+            <option value="ai">Assistant</option>
+          </select>
+        </div>
+
+        <div className="flex-1 overflow-y-auto">
+          {query.trim() && results.length === 0 && <p className="px-5 py-6 text-sm text-gray-400">No messages match.</p>}
+          <ul>
+            {results.map(result => (
+              <li key={`${result.sessionId}/${result.message.id}`}>
+                <button
+                  onClick={() => onSelectResult(result.sessionId, result.message.id)}
+                  className="w-full text-left px-5 py-3 hover:bg-gray-700/60 border-b border-gray-700/50"
+                >
+                  <div className="flex items-center gap-2 text-xs text-gray-400 mb-1">
+                    <span className="truncate">{titles.get(result.sessionId)}</span>
+                    <span>·</span>
+                    <span>{result.message.sender === 'user' ? userLabel(personaOf(result.sessionId)) : personaOf(result.sessionId).assistantName}</span>
+                    <span>·</span>
+                    <span>{SEARCH_FIELD_LABELS[result.field]}</span>
+                  </div>
+                  <p className="text-sm text-gray-200 break-words">
+                    {result.snippet.map((segment, i) => (
+                      segment.match
+                        ? <mark key={i} className="bg-deep-purple-500/60 text-white rounded px-0.5">{segment.text}</mark>
+                        : <span key={i}>{segment.text}</span>
+                    ))}
+                  </p>
+                </button>
+              </li>
+            ))}
+          </ul>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SearchPanel;
@@ -0,0 +1,110 @@
+import React, { useState } from 'react';
+import { ChatSession } from '../types';
+import { sortSessions } from '../services/sessionStore';
+
+interface SessionSidebarProps {
+  sessions: ChatSession[];
+  activeSessionId: string;
+  isOpen: boolean;
+  onSelect: (sessionId: string) => void;
+  onCreate: () => void;
+  onImport: () => void;
+  onRename: (sessionId: string, title: string) => void;
+  onTogglePin: (sessionId: string) => void;
+  onDelete: (sessionId: string) => void;
+}
+
+const iconButtonClass = 'p-1.5 rounded text-gray-400 hover:text-white hover:bg-gray-600 transition-colors';
+
+const SessionItem: React.FC<{
+  session: ChatSession;
+  isActive: boolean;
+} & Omit<SessionSidebarProps, 'sessions' | 'activeSessionId' | 'isOpen' | 'onCreate' | 'onImport'>> = ({ session, isActive, onSelect, onRename, onTogglePin, onDelete }) => {
+  const [isEditing, setIsEditing] = useState(false);
+  const [draft, setDraft] = useState(session.title);
+
+  const commitRename = () => {
+    setIsEditing(false);
+    if (draft.trim() && draft.trim() !== session.title) onRename(session.id, draft.trim());
+    else setDraft(session.title);
+  };
+
+  if (isEditing) {
+    return (
+      <li className="px-2 py-1">
+        <input
+          autoFocus
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          onBlur={commitRename}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') commitRename();
+            if (e.key === 'Escape') {
+              setDraft(session.title);
+              setIsEditing(false);
+            }
+          }}
+          aria-label="Session title"
+          className="w-full bg-gray-700 text-white text-sm rounded px-2 py-1 focus:outline-none focus:ring-2 focus:ring-deep-purple-500"
+        />
+      </li>
+    );
+  }
+
+  return (
+    <li className={`group flex items-center rounded-lg ${isActive ? 'bg-gray-700' : 'hover:bg-gray-800'}`}>
+      <button
+        onClick={() => onSelect(session.id)}
+        aria-current={isActive ? 'true' : undefined}
+        title={`Updated ${new Date(session.updatedAt).toLocaleString()}`}
+        className="flex-1 min-w-0 text-left px-3 py-2 text-sm text-gray-200"
+      >
+        {session.pinned && <i className="fas fa-thumbtack text-xs text-deep-purple-400 mr-2"></i>}
+        <span className="truncate">{session.title}</span>
+      </button>
+      <div className={`flex items-center pr-1 ${isActive ? '' : 'opacity-0 group-hover:opacity-100 focus-within:opacity-100'}`}>
+        <button onClick={() => onTogglePin(session.id)} aria-label={session.pinned ? 'Unpin session' : 'Pin session'} title={session.pinned ? 'Unpin' : 'Pin'} className={iconButtonClass}>
+          <i className="fas fa-thumbtack text-xs"></i>
+        </button>
+        <button onClick={() => { setDraft(session.title); setIsEditing(true); }} aria-label="Rename session" title="Rename" className={iconButtonClass}>
+          <i className="fas fa-pen text-xs"></i>
+        </button>
+        <button onClick={() => onDelete(session.id)} aria-label="Delete session" title="Delete" className={iconButtonClass}>
+          <i className="fas fa-trash-alt text-xs"></i>
+        </button>
+      </div>
+    </li>
+  );
+};
+
+const SessionSidebar: React.FC<SessionSidebarProps> = ({ sessions, activeSessionId, isOpen, onCreate, onImport, ...itemProps }) => {
+  if (!isOpen) return null;
+
+  return (
+    <aside className="w-64 shrink-0 bg-gray-900 border-r border-gray-800 flex flex-col" aria-label="Chat sessions">
+      <div className="p-3 flex gap-2">
+        <button
+          onClick={onCreate}
+          className="flex-1 flex items-center justify-center gap-2 px-3 py-2 rounded-lg text-sm bg-deep-purple-600 hover:bg-deep-purple-500 text-white transition-colors"
+        >
+          <i className="fas fa-plus"></i> New chat
+        </button>
+        <button
+          onClick={onImport}
+          aria-label="Import conversation"
+          title="Import a conversation exported as JSON"
+          className="px-3 py-2 rounded-lg text-sm text-gray-300 bg-gray-800 hover:bg-gray-700 hover:text-white transition-colors"
+        >
+          <i className="fas fa-file-import"></i>
+        </button>
+      </div>
+      <ul className="flex-1 overflow-y-auto px-2 pb-3 space-y-1">
+        {sortSessions(sessions).map(session => (
+          <SessionItem key={session.id} session={session} isActive={session.id === activeSessionId} {...itemProps} />
+        ))}
+      </ul>
+    </aside>
+  );
+};
+
+export default SessionSidebar;
@@ -0,0 +1,456 @@
+import React, { useState, useEffect } from 'react';
+import { getSpeechSynthesizer, getSpeechRecognizer, SpeechVoice } from '../services/speech';
+import { VoiceSettings, VoiceInputMode, VOICE_INPUT_MODES, MIN_SPEECH_RATE, MAX_SPEECH_RATE } from '../services/voiceSettings';
+import {
+  Persona, PersonaSettings, PersonaTone, PERSONA_TONES, MAX_AVATAR_IMAGE_BYTES, createPersona, resolvePersona, avatarInitials, buildSystemInstruction,
+} from '../services/personas';
+import { formatBytes } from '../services/attachments';
+import { ModelSettings, ModelCapability, CapabilitySettings, MODEL_CAPABILITIES, MAX_TEMPERATURE, getModel, modelsOfKind, MODELS } from '../services/modelSettings';
+import { UsageSettings, ModelPrice, DEFAULT_PRICES } from '../services/usageSettings';
+
+interface SettingsPanelProps {
+  voiceSettings: VoiceSettings;
+  onVoiceSettingsChange: (settings: VoiceSettings) => void;
+  personaSettings: PersonaSettings;
+  onPersonaSettingsChange: (settings: PersonaSettings) => void;
+  modelSettings: ModelSettings;
+  onModelSettingsChange: (settings: ModelSettings) => void;
+  usageSettings: UsageSettings;
+  onUsageSettingsChange: (settings: UsageSettings) => void;
+  onClose: () => void;
+}
+
+const INPUT_CLASS = 'w-full bg-gray-900 rounded-lg px-3 py-2 text-white placeholder-gray-500 focus:outline-none focus:ring-2 focus:ring-deep-purple-500';
+
+const PersonaSection: React.FC<{ settings: PersonaSettings; onChange: (settings: PersonaSettings) => void }> = ({ settings, onChange }) => {
+  const [editingId, setEditingId] = useState(settings.defaultPersonaId);
+  const [avatarError, setAvatarError] = useState<string | null>(null);
+  const persona = resolvePersona(settings, editingId);
+
+  const update = (changes: Partial<Persona>) => onChange({
+    ...settings,
+    personas: settings.personas.map(p => (p.id === persona.id ? { ...p, ...changes } : p)),
+  });
+
+  const addPersona = () => {
+    const created = createPersona();
+    onChange({ ...settings, personas: [...settings.personas, created] });
+    setEditingId(created.id);
+  };
+
+  const deletePersona = () => {
+    if (!window.confirm(`Delete the persona "${persona.assistantName}"? Conversations using it switch to the default persona.`)) return;
+    const personas = settings.personas.filter(p => p.id !== persona.id);
+    const defaultPersonaId = settings.defaultPersonaId === persona.id ? personas[0].id : settings.defaultPersonaId;
+    onChange({ personas, defaultPersonaId });
+    setEditingId(defaultPersonaId);
+  };
+
+  const handleAvatarFile = (file: File | undefined) => {
+    setAvatarError(null);
+    if (!file) return;
+    if (!file.type.startsWith('image/')) {
+      setAvatarError(`${file.name} is not an image.`);
+      return;
+    }
+    if (file.size > MAX_AVATAR_IMAGE_BYTES) {
+      setAvatarError(`Avatar images can be at most ${formatBytes(MAX_AVATAR_IMAGE_BYTES)}.`);
+      return;
+    }
+    const reader = new FileReader();
+    reader.onload = () => update({ avatarImage: reader.result as string });
+    reader.onerror = () => setAvatarError(`${file.name} could not be read.`);
+    reader.readAsDataURL(file);
+  };
+
+  return (
+    <section className="space-y-4">
+      <h3 className="text-xs font-semibold uppercase tracking-wide text-gray-400">Personas</h3>
+      <div className="flex items-center gap-2">
+        <select
+          value={persona.id}
+          onChange={(e) => setEditingId(e.target.value)}
+          aria-label="Persona to edit"
+          className={INPUT_CLASS}
+        >
+          {settings.personas.map(p => (
+            <option key={p.id} value={p.id}>{p.assistantName}{p.id === settings.defaultPersonaId ? ' (default)' : ''}</option>
+          ))}
+        </select>
+        <button onClick={addPersona} aria-label="Add persona" title="Add persona" className="p-2 rounded-full text-gray-400 hover:text-white hover:bg-gray-700">
+          <i className="fas fa-plus"></i>
+        </button>
+        <button
+          onClick={deletePersona}
+          disabled={settings.personas.length === 1}
+          aria-label="Delete persona"
+          title="Delete persona"
+          className="p-2 rounded-full text-gray-400 hover:text-white hover:bg-gray-700 disabled:opacity-50 disabled:hover:bg-transparent"
+        >
+          <i className="fas fa-trash-alt"></i>
+        </button>
+      </div>
+      <label className="flex items-center gap-2">
+        <input
+          type="checkbox"
+          checked={persona.id === settings.defaultPersonaId}
+          disabled={persona.id === settings.defaultPersonaId}
+          onChange={() => onChange({ ...settings, defaultPersonaId: persona.id })}
+          className="accent-deep-purple-500"
+        />
+        Use for new conversations
+      </label>
+      <div className="grid grid-cols-2 gap-3">
+        <label className="block">
+          <span className="block mb-1">Assistant name</span>
+          <input value={persona.assistantName} onChange={(e) => update({ assistantName: e.target.value })} required className={INPUT_CLASS} />
+        </label>
+        <label className="block">
+          <span className="block mb-1">Your name</span>
+          <input value={persona.userName} onChange={(e) => update({ userName: e.target.value })} placeholder="Not addressed by name" className={INPUT_CLASS} />
+        </label>
+      </div>
+      <label className="block">
+        <span className="block mb-1">Tone</span>
+        <select value={persona.tone} onChange={(e) => update({ tone: e.target.value as PersonaTone })} className={INPUT_CLASS}>
+          {(Object.keys(PERSONA_TONES) as PersonaTone[]).map(tone => (
+            <option key={tone} value={tone}>{PERSONA_TONES[tone].label}</option>
+          ))}
+        </select>
+      </label>
+      <div>
+        <span className="block mb-1">Avatar</span>
+        <div className="flex items-center gap-3">
+          {persona.avatarImage
+            ? <img src={persona.avatarImage} alt="" className="w-10 h-10 rounded-full object-cover flex-shrink-0" />
+            : (
+              <div className="w-10 h-10 rounded-full bg-deep-purple-600 flex items-center justify-center font-bold text-white flex-shrink-0">
+                {avatarInitials(persona)}
+              </div>
+            )}
+          <input
+            value={persona.avatarInitials}
+            onChange={(e) => update({ avatarInitials: e.target.value.slice(0, 2) })}
+            placeholder="Initials"
+            aria-label="Avatar initials"
+            className={`${INPUT_CLASS} w-24`}
+          />
+          <label className="px-3 py-2 rounded-lg bg-gray-700 text-gray-200 hover:bg-gray-600 cursor-pointer">
+            <i className="fas fa-image mr-2"></i>Image
+            <input type="file" accept="image/*" className="hidden" onChange={(e) => {
+              handleAvatarFile(e.target.files?.[0]);
+              e.target.value = '';
+            }} />
+          </label>
+          {persona.avatarImage && (
+            <button onClick={() => update({ avatarImage: undefined })} className="text-gray-400 hover:text-white">Remove</button>
+          )}
+        </div>
+        {avatarError && <p className="mt-1 text-red-400">{avatarError}</p>}
+      </div>
+      <label className="block">
+        <span className="block mb-1">Custom system instruction</span>
+        <textarea
+          value={persona.systemInstruction}
+          onChange={(e) => update({ systemInstruction: e.target.value })}
+          rows={4}
+          placeholder={buildSystemInstruction({ ...persona, systemInstruction: '' })}
+          className={`${INPUT_CLASS} resize-y`}
+        />
+        <span className="block mt-1 text-xs text-gray-500">
+          Replaces the instruction generated from the names and tone. {'{assistant}'} and {'{user}'} are replaced by the names.
+        </span>
+      </label>
+    </section>
+  );
+};
+
+// Empty number inputs mean "use the model's default".
+const parseOptionalNumber = (value: string): number | undefined => (value.trim() === '' ? undefined : Number(value));
+
+const ModelSection: React.FC<{ settings: ModelSettings; onChange: (settings: ModelSettings) => void }> = ({ settings, onChange }) => {
+  const [capability, setCapability] = useState<ModelCapability>('chat');
+  const current = settings[capability];
+  const { kind } = MODEL_CAPABILITIES[capability];
+  const model = getModel(current.model);
+
+  const update = (changes: Partial<CapabilitySettings>) => onChange({ ...settings, [capability]: { ...current, ...changes } });
+
+  return (
+    <section className="space-y-4 pt-6 border-t border-gray-700">
+      <h3 className="text-xs font-semibold uppercase tracking-wide text-gray-400">Models</h3>
+      <div className="flex flex-wrap gap-1" role="tablist" aria-label="Capability">
+        {(Object.keys(MODEL_CAPABILITIES) as ModelCapability[]).map(key => (
+          <button
+            key={key}
+            role="tab"
+            aria-selected={key === capability}
+            onClick={() => setCapability(key)}
+            className={`px-3 py-1 rounded-full border ${key === capability ? 'bg-deep-purple-600 border-deep-purple-500 text-white' : 'border-gray-600 text-gray-300 hover:bg-gray-700'}`}
+          >
+            {MODEL_CAPABILITIES[key].label}
+          </button>
+        ))}
+      </div>
+      <label className="block">
+        <span className="block mb-1">Model</span>
+        <select value={current.model} onChange={(e) => update({ model: e.target.value })} className={INPUT_CLASS}>
+          {modelsOfKind(kind).map(option => (
+            <option key={option.id} value={option.id}>{option.label} ({option.id})</option>
+          ))}
+        </select>
+      </label>
+      {kind === 'image' ? (
+        <p className="text-gray-400">Aspect ratio, number of images and style are set in the image options next to the message input.</p>
+      ) : (
+        <>
+          <div className="grid grid-cols-2 gap-3">
+            <label className="block">
+              <span className="block mb-1">Temperature</span>
+              <input
+                type="number"
+                min={0}
+                max={MAX_TEMPERATURE}
+                step={0.1}
+                value={current.temperature ?? ''}
+                onChange={(e) => {
+                  const temperature = parseOptionalNumber(e.target.value);
+                  update({ temperature: temperature === undefined ? undefined : Math.min(Math.max(temperature, 0), MAX_TEMPERATURE) });
+                }}
+                placeholder="Model default"
+                className={INPUT_CLASS}
+              />
+            </label>
+            <label className="block">
+              <span className="block mb-1">Max output tokens</span>
+              <input
+                type="number"
+                min={1}
+                step={256}
+                value={current.maxOutputTokens ?? ''}
+                onChange={(e) => {
+                  const maxOutputTokens = parseOptionalNumber(e.target.value);
+                  update({ maxOutputTokens: maxOutputTokens && maxOutputTokens > 0 ? Math.round(maxOutputTokens) : undefined });
+                }}
+                placeholder="Model default"
+                className={INPUT_CLASS}
+              />
+            </label>
+          </div>
+          {model?.maxThinkingBudget !== undefined ? (
+            <div>
+              <span className="block mb-1">Thinking</span>
+              <div className="flex gap-3">
+                <select
+                  value={current.thinkingBudget === undefined ? 'default' : current.thinkingBudget === 0 ? 'off' : 'budget'}
+                  onChange={(e) => update({ thinkingBudget: { default: undefined, off: 0, budget: 1024 }[e.target.value as 'default' | 'off' | 'budget'] })}
+                  aria-label="Thinking"
+                  className={INPUT_CLASS}
+                >
+                  <option value="default">Model default</option>
+                  {model.canDisableThinking && <option value="off">Off</option>}
+                  <option value="budget">Token budget</option>
+                </select>
+                {current.thinkingBudget !== undefined && current.thinkingBudget > 0 && (
+                  <input
+                    type="number"
+                    min={1}
+                    max={model.maxThinkingBudget}
+                    step={256}
+                    value={current.thinkingBudget}
+                    onChange={(e) => update({ thinkingBudget: Math.min(Math.max(Math.round(Number(e.target.value)), 1), model.maxThinkingBudget!) })}
+                    aria-label="Thinking budget in tokens"
+                    className={INPUT_CLASS}
+                  />
+                )}
+              </div>
+              {current.thinkingBudget === 0 && !model.canDisableThinking && (
+                <p className="mt-1 text-xs text-gray-500">{model.label} always thinks, so the model default is used.</p>
+              )}
+            </div>
+          ) : (
+            <p className="text-gray-400">{model?.label ?? current.model} does not support thinking.</p>
+          )}
+        </>
+      )}
+    </section>
+  );
+};
+
+const PRICE_FIELDS: { key: keyof ModelPrice; label: string; kind: 'text' | 'image' }[] = [
+  { key: 'input', label: 'Input', kind: 'text' },
+  { key: 'cachedInput', label: 'Cached input', kind: 'text' },
+  { key: 'output', label: 'Output', kind: 'text' },
+  { key: 'image', label: 'Per image', kind: 'image' },
+];
+
+const UsageSection: React.FC<{ settings: UsageSettings; onChange: (settings: UsageSettings) => void }> = ({ settings, onChange }) => {
+  const updatePrice = (modelId: string, key: keyof ModelPrice, value: number) => {
+    if (!Number.isFinite(value) || value < 0) return;
+    onChange({ ...settings, prices: { ...settings.prices, [modelId]: { ...settings.prices[modelId], [key]: value } } });
+  };
+
+  return (
+    <section className="space-y-4 pt-6 border-t border-gray-700">
+      <h3 className="text-xs font-semibold uppercase tracking-wide text-gray-400">Usage and cost</h3>
+      <label className="block">
+        <span className="block mb-1">Monthly budget (USD)</span>
+        <input
+          type="number"
+          min={0}
+          step={1}
+          value={settings.monthlyBudget ?? ''}
+          onChange={(e) => {
+            const monthlyBudget = parseOptionalNumber(e.target.value);
+            onChange({ ...settings, monthlyBudget: monthlyBudget && monthlyBudget > 0 ? monthlyBudget : undefined });
+          }}
+          placeholder="No budget"
+          className={INPUT_CLASS}
+        />
+        <span className="block mt-1 text-xs text-gray-500">The chat shows a warning once a month when the estimated cost exceeds it.</span>
+      </label>
+      <div>
+        <span className="block mb-1">Prices (USD per million tokens, or per image)</span>
+        <div className="space-y-3">
+          {MODELS.map(model => (
+            <div key={model.id}>
+              <span className="block text-xs text-gray-400 mb-1" title={model.id}>{model.label}</span>
+              <div className={`grid gap-2 ${model.kind === 'text' ? 'grid-cols-3' : 'grid-cols-1'}`}>
+                {PRICE_FIELDS.filter(field => field.kind === model.kind).map(field => (
+                  <input
+                    key={field.key}
+                    type="number"
+                    min={0}
+                    step={0.01}
+                    value={settings.prices[model.id]?.[field.key] ?? 0}
+                    onChange={(e) => updatePrice(model.id, field.key, Number(e.target.value))}
+                    aria-label={`${model.label} ${field.label.toLowerCase()} price`}
+                    title={field.label}
+                    className={INPUT_CLASS}
+                  />
+                ))}
+              </div>
+            </div>
+          ))}
+        </div>
+        <p className="mt-2 text-xs text-gray-500">Text prices are input, cached input and output; thinking is billed as output. Search grounding fees are not included.</p>
+      </div>
+      <button onClick={() => onChange({ ...settings, prices: DEFAULT_PRICES })} className="px-3 py-2 rounded-lg bg-gray-700 text-gray-200 hover:bg-gray-600">
+        Reset prices
+      </button>
+    </section>
+  );
+};
+
+const SettingsPanel: React.FC<SettingsPanelProps> = ({ voiceSettings, onVoiceSettingsChange, personaSettings, onPersonaSettingsChange, modelSettings, onModelSettingsChange, usageSettings, onUsageSettingsChange, onClose }) => {
+  const synthesizer = getSpeechSynthesizer();
+  const [voices, setVoices] = useState<SpeechVoice[]>(() => synthesizer.getVoices());
+
+  useEffect(() => synthesizer.onVoicesChanged(() => setVoices(synthesizer.getVoices())), [synthesizer]);
+
+  const update = (changes: Partial<VoiceSettings>) => onVoiceSettingsChange({ ...voiceSettings, ...changes });
+
+  const testVoice = () => {
+    synthesizer.speak('This is how replies will sound.', { voiceId: voiceSettings.voiceId, rate: voiceSettings.rate }, () => undefined);
+  };
+
+  return (
+    <div className="fixed inset-0 z-30 bg-black/60 flex items-start justify-center p-4 pt-[10vh]" onClick={onClose}>
+      <div
+        className="bg-gray-800 rounded-2xl shadow-xl w-full max-w-lg max-h-[80vh] flex flex-col"
+        onClick={(e) => e.stopPropagation()}
+        onKeyDown={(e) => e.key === 'Escape' && onClose()}
+      >
+        <div className="flex items-center justify-between px-5 py-4 border-b border-gray-700">
+          <h2 className="text-lg font-bold text-white">Settings</h2>
+          <button autoFocus onClick={onClose} aria-label="Close" className="p-2 rounded-full text-gray-400 hover:text-white hover:bg-gray-700">
+            <i className="fas fa-times"></i>
+          </button>
+        </div>
+        <div className="flex-1 overflow-y-auto p-5 space-y-6 text-sm text-gray-300">
+          <PersonaSection settings={personaSettings} onChange={onPersonaSettingsChange} />
+          <ModelSection settings={modelSettings} onChange={onModelSettingsChange} />
+          <UsageSection settings={usageSettings} onChange={onUsageSettingsChange} />
+          <section className="space-y-4 pt-6 border-t border-gray-700">
+            <h3 className="text-xs font-semibold uppercase tracking-wide text-gray-400">Voice</h3>
+            {!getSpeechRecognizer().isSupported() && (
+              <p className="text-gray-400">Dictation is not supported in this browser.</p>
+            )}
+            <fieldset>
+              <legend className="mb-2">Microphone</legend>
+              <div className="flex gap-4">
+                {(Object.keys(VOICE_INPUT_MODES) as VoiceInputMode[]).map(mode => (
+                  <label key={mode} className="flex items-center gap-2">
+                    <input
+                      type="radio"
+                      name="voice-input-mode"
+                      checked={voiceSettings.inputMode === mode}
+                      onChange={() => update({ inputMode: mode })}
+                      className="accent-deep-purple-500"
+                    />
+                    {VOICE_INPUT_MODES[mode]}
+                  </label>
+                ))}
+              </div>
+            </fieldset>
+            <label className="block">
+              <span className="block mb-1">Dictation language</span>
+              <input
+                type="text"
+                value={voiceSettings.language}
+                onChange={(e) => update({ language: e.target.value.trim() })}
+                placeholder={`Browser default (${navigator.language})`}
+                className={INPUT_CLASS}
+              />
+            </label>
+            {synthesizer.isSupported() ? (
+              <>
+                <label className="block">
+                  <span className="block mb-1">Reply voice</span>
+                  <select
+                    value={voiceSettings.voiceId ?? ''}
+                    onChange={(e) => update({ voiceId: e.target.value || undefined })}
+                    className={INPUT_CLASS}
+                  >
+                    <option value="">Browser default</option>
+                    {voices.map(voice => (
+                      <option key={voice.id} value={voice.id}>{voice.name} ({voice.lang})</option>
+                    ))}
+                  </select>
+                </label>
+                <label className="block">
+                  <span className="block mb-1">Speaking rate: {voiceSettings.rate.toFixed(1)}×</span>
+                  <input
+                    type="range"
+                    min={MIN_SPEECH_RATE}
+                    max={MAX_SPEECH_RATE}
+                    step={0.1}
+                    value={voiceSettings.rate}
+                    onChange={(e) => update({ rate: Number(e.target.value) })}
+                    className="w-full accent-deep-purple-500"
+                  />
+                </label>
+                <label className="flex items-center gap-2">
+                  <input
+                    type="checkbox"
+                    checked={voiceSettings.autoRead}
+                    onChange={(e) => update({ autoRead: e.target.checked })}
+                    className="accent-deep-purple-500"
+                  />
+                  Read replies aloud automatically
+                </label>
+                <button onClick={testVoice} className="px-3 py-2 rounded-lg bg-gray-700 text-gray-200 hover:bg-gray-600">
+                  <i className="fas fa-volume-up mr-2"></i>Test voice
+                </button>
+              </>
+            ) : (
+              <p className="text-gray-400">Reading replies aloud is not supported in this browser.</p>
+            )}
+          </section>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SettingsPanel;
@@ -0,0 +1,18 @@
+import React from 'react';
+
+interface StorageWarningProps {
+  message: string;
+  onDismiss: () => void;
+}
+
+const StorageWarning: React.FC<StorageWarningProps> = ({ message, onDismiss }) => (
+  <div role="alert" className="flex items-start gap-3 px-4 py-2 bg-yellow-900/60 border-b border-yellow-700 text-yellow-100 text-sm">
+    <i className="fas fa-exclamation-triangle mt-0.5 text-yellow-400"></i>
+    <p className="flex-1">{message}</p>
+    <button onClick={onDismiss} aria-label="Dismiss storage warning" className="text-yellow-300 hover:text-white">
+      <i className="fas fa-times"></i>
+    </button>
+  </div>
+);
+
+export default StorageWarning;
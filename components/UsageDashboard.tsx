@@ -0,0 +1,156 @@
+import React, { useState, useMemo } from 'react';
+import { ChatSession, UsageRecord } from '../types';
+import { UsageSettings } from '../services/usageSettings';
+import { summarizeUsage, startOfMonth, formatCost, UsageTotals } from '../services/usage';
+import { MODEL_CAPABILITIES } from '../services/modelSettings';
+
+interface UsageDashboardProps {
+  records: UsageRecord[];
+  sessions: ChatSession[];
+  settings: UsageSettings;
+  onSelectSession: (sessionId: string) => void;
+  onClose: () => void;
+}
+
+type Period = 'month' | 'days30' | 'all';
+
+const PERIODS: Record<Period, string> = {
+  month: 'This month',
+  days30: 'Last 30 days',
+  all: 'All time',
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const periodStart = (period: Period, now: number): number =>
+  ({ month: startOfMonth(now), days30: now - 30 * DAY_MS, all: 0 })[period];
+
+const formatTokens = (tokens: number): string => tokens.toLocaleString();
+
+const UsageTable: React.FC<{ title: string; rows: { key: string; label: React.ReactNode; totals: UsageTotals }[] }> = ({ title, rows }) => (
+  <section>
+    <h3 className="text-xs font-semibold uppercase tracking-wide text-gray-400 mb-2">{title}</h3>
+    <div className="overflow-x-auto">
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="text-left text-xs text-gray-500">
+            <th className="py-1 pr-3 font-normal"></th>
+            <th className="py-1 px-3 font-normal text-right">Requests</th>
+            <th className="py-1 px-3 font-normal text-right">Input tokens</th>
+            <th className="py-1 px-3 font-normal text-right">Output tokens</th>
+            <th className="py-1 px-3 font-normal text-right">Images</th>
+            <th className="py-1 pl-3 font-normal text-right">Cost</th>
+          </tr>
+        </thead>
+        <tbody>
+          {rows.map(({ key, label, totals }) => (
+            <tr key={key} className="border-t border-gray-700 text-gray-300">
+              <td className="py-1 pr-3 max-w-[14rem] truncate">{label}</td>
+              <td className="py-1 px-3 text-right">{totals.requests}</td>
+              <td className="py-1 px-3 text-right" title={`${formatTokens(totals.cachedTokens)} cached`}>{formatTokens(totals.promptTokens)}</td>
+              <td className="py-1 px-3 text-right">{formatTokens(totals.outputTokens)}</td>
+              <td className="py-1 px-3 text-right">{totals.images}</td>
+              <td className="py-1 pl-3 text-right text-white">{formatCost(totals.cost)}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  </section>
+);
+
+const UsageDashboard: React.FC<UsageDashboardProps> = ({ records, sessions, settings, onSelectSession, onClose }) => {
+  const [period, setPeriod] = useState<Period>('month');
+  const summary = useMemo(() => summarizeUsage(records, sessions, settings.prices, periodStart(period, Date.now())), [records, sessions, settings.prices, period]);
+  const monthCost = useMemo(() => summarizeUsage(records, sessions, settings.prices, startOfMonth(Date.now())).total.cost, [records, sessions, settings.prices]);
+  const budget = settings.monthlyBudget;
+
+  return (
+    <div className="fixed inset-0 z-30 bg-black/60 flex items-start justify-center p-4 pt-[5vh]" onClick={onClose}>
+      <div
+        className="bg-gray-800 rounded-2xl shadow-xl w-full max-w-3xl max-h-[90vh] flex flex-col"
+        onClick={(e) => e.stopPropagation()}
+        onKeyDown={(e) => e.key === 'Escape' && onClose()}
+      >
+        <div className="flex items-center justify-between px-5 py-4 border-b border-gray-700">
+          <h2 className="text-lg font-bold text-white">Usage and cost</h2>
+          <button autoFocus onClick={onClose} aria-label="Close" className="p-2 rounded-full text-gray-400 hover:text-white hover:bg-gray-700">
+            <i className="fas fa-times"></i>
+          </button>
+        </div>
+        <div className="flex-1 overflow-y-auto p-5 space-y-6">
+          <div className="flex flex-wrap gap-1 text-sm" role="tablist" aria-label="Period">
+            {(Object.keys(PERIODS) as Period[]).map(key => (
+              <button
+                key={key}
+                role="tab"
+                aria-selected={key === period}
+                onClick={() => setPeriod(key)}
+                className={`px-3 py-1 rounded-full border ${key === period ? 'bg-deep-purple-600 border-deep-purple-500 text-white' : 'border-gray-600 text-gray-300 hover:bg-gray-700'}`}
+              >
+                {PERIODS[key]}
+              </button>
+            ))}
+          </div>
+          <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+            {[
+              { label: 'Estimated cost', value: formatCost(summary.total.cost) },
+              { label: 'Input tokens', value: formatTokens(summary.total.promptTokens) },
+              { label: 'Output tokens', value: formatTokens(summary.total.outputTokens) },
+              { label: 'Images', value: String(summary.total.images) },
+            ].map(({ label, value }) => (
+              <div key={label} className="bg-gray-900 rounded-lg p-3">
+                <span className="block text-xs text-gray-400">{label}</span>
+                <span className="block text-lg font-bold text-white">{value}</span>
+              </div>
+            ))}
+          </div>
+          {budget !== undefined && (
+            <div>
+              <div className="flex justify-between text-sm text-gray-300 mb-1">
+                <span>Monthly budget</span>
+                <span>{formatCost(monthCost)} of {formatCost(budget)}</span>
+              </div>
+              <div className="h-2 rounded-full bg-gray-900 overflow-hidden">
+                <div
+                  className={`h-full ${monthCost >= budget ? 'bg-red-500' : 'bg-deep-purple-500'}`}
+                  style={{ width: `${Math.min(monthCost / budget, 1) * 100}%` }}
+                ></div>
+              </div>
+            </div>
+          )}
+          {summary.total.requests === 0 ? (
+            <p className="text-sm text-gray-400">No usage has been recorded for this period.</p>
+          ) : (
+            <>
+              <UsageTable
+                title="By capability"
+                rows={summary.byCapability.map(({ capability, totals }) => ({ key: capability, label: MODEL_CAPABILITIES[capability]?.label ?? capability, totals }))}
+              />
+              <UsageTable
+                title="By conversation"
+                rows={summary.bySession.map(({ sessionId, session, totals }) => ({
+                  key: sessionId,
+                  label: session ? (
+                    <button onClick={() => onSelectSession(session.id)} className="text-light-blue-400 hover:text-light-blue-300 truncate" title={session.title}>
+                      {session.title}
+                    </button>
+                  ) : (
+                    <span className="italic text-gray-500">Deleted conversation</span>
+                  ),
+                  totals,
+                }))}
+              />
+              <UsageTable title="By day" rows={summary.byDay.map(({ day, totals }) => ({ key: day, label: day, totals }))} />
+            </>
+          )}
+          <p className="text-xs text-gray-500">
+            Costs are estimates from the price table in the settings. Every request is recorded when it is made, so cleared and deleted conversations still count.
+          </p>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default UsageDashboard;
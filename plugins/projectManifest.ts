@@ -0,0 +1,153 @@
+import fs from 'fs';
+import path from 'path';
+import crypto from 'crypto';
+import type { Plugin } from 'vite';
+import type { ProjectManifest, ProjectManifestEntry } from '../types';
+import { PROJECT_MANIFEST_PATH, PROJECT_FILES_PREFIX } from '../services/projectFiles';
+
+export interface ProjectManifestOptions {
+  /** Glob patterns, relative to the project root, of files to include. */
+  include?: string[];
+  /** Glob patterns excluded even when included. */
+  exclude?: string[];
+}
+
+const DEFAULT_INCLUDE = ['**/*'];
+
+// Secrets, dependencies and build output never belong in the project sources.
+const DEFAULT_EXCLUDE = [
+  '.git/**',
+  'node_modules/**',
+  'dist/**',
+  '.env',
+  '.env.*',
+  '**/.DS_Store',
+  '**/*.log',
+];
+
+const TEXT_EXTENSIONS = new Set([
+  'ts', 'tsx', 'js', 'jsx', 'mjs', 'cjs', 'json', 'html', 'css', 'md', 'txt', 'svg', 'yml', 'yaml', 'toml', 'gitignore',
+]);
+
+/**
+ * Converts a glob with `**`, `*` and `?` into an anchored regular expression.
+ */
+const globToRegExp = (glob: string): RegExp => {
+  let pattern = '';
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i];
+    if (char === '*' && glob[i + 1] === '*') {
+      // `**/` also matches zero directories.
+      pattern += glob[i + 2] === '/' ? '(?:.*/)?' : '.*';
+      i += glob[i + 2] === '/' ? 2 : 1;
+    } else if (char === '*') {
+      pattern += '[^/]*';
+    } else if (char === '?') {
+      pattern += '[^/]';
+    } else {
+      pattern += char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    }
+  }
+  return new RegExp(`^${pattern}$`);
+};
+
+const isBinary = (relativePath: string, content: Buffer): boolean => {
+  const extension = path.extname(relativePath).slice(1).toLowerCase() || path.basename(relativePath).replace(/^\./, '');
+  if (TEXT_EXTENSIONS.has(extension)) return false;
+  // Unknown extensions are sniffed: a NUL byte means binary.
+  return content.subarray(0, 8000).includes(0);
+};
+
+const walk = (root: string, directory = ''): string[] =>
+  fs.readdirSync(path.join(root, directory), { withFileTypes: true }).flatMap(entry => {
+    const relativePath = directory ? `${directory}/${entry.name}` : entry.name;
+    if (entry.isDirectory()) return walk(root, relativePath);
+    return entry.isFile() ? [relativePath] : [];
+  });
+
+export const buildProjectManifest = (root: string, options: ProjectManifestOptions = {}): ProjectManifest => {
+  const include = (options.include ?? DEFAULT_INCLUDE).map(globToRegExp);
+  const exclude = [...DEFAULT_EXCLUDE, ...(options.exclude ?? [])].map(globToRegExp);
+
+  const files: ProjectManifestEntry[] = walk(root)
+    .filter(file => include.some(regex => regex.test(file)) && !exclude.some(regex => regex.test(file)))
+    .sort()
+    .map(file => {
+      const content = fs.readFileSync(path.join(root, file));
+      return {
+        path: file,
+        size: content.length,
+        sha256: crypto.createHash('sha256').update(content).digest('hex'),
+        encoding: isBinary(file, content) ? 'base64' : 'utf8',
+      };
+    });
+
+  return { generatedAt: new Date().toISOString(), files };
+};
+
+/**
+ * Publishes the project's own sources to the app: a manifest listing every
+ * included file with its hash, and the raw files next to it. The dev server
+ * serves both on demand; a build emits them as assets.
+ */
+export const projectManifest = (options: ProjectManifestOptions = {}): Plugin => {
+  let root = process.cwd();
+
+  return {
+    name: 'alfreyaa-project-manifest',
+
+    configResolved(config) {
+      root = config.root;
+    },
+
+    configureServer(server) {
+      // Hashing every file is slow, so the manifest is kept until a file changes.
+      let manifest: ProjectManifest | null = null;
+      const currentManifest = (): ProjectManifest => (manifest ??= buildProjectManifest(root, options));
+      const invalidate = () => {
+        manifest = null;
+      };
+      server.watcher.on('change', invalidate);
+      server.watcher.on('add', invalidate);
+      server.watcher.on('unlink', invalidate);
+
+      server.middlewares.use((req, res, next) => {
+        const url = decodeURIComponent((req.url ?? '').split('?')[0]);
+
+        if (url === `/${PROJECT_MANIFEST_PATH}`) {
+          res.setHeader('Content-Type', 'application/json');
+          res.end(JSON.stringify(currentManifest()));
+          return;
+        }
+
+        if (url.startsWith(`/${PROJECT_FILES_PREFIX}`)) {
+          const file = url.slice(PROJECT_FILES_PREFIX.length + 1);
+          // Only files listed in the manifest are served, which also rules out path traversal.
+          const listed = currentManifest().files.some(entry => entry.path === file);
+          if (!listed) {
+            res.statusCode = 404;
+            res.end(`Not a project file: ${file}`);
+            return;
+          }
+          res.setHeader('Content-Type', 'application/octet-stream');
+          res.end(fs.readFileSync(path.join(root, file)));
+          return;
+        }
+
+        next();
+      });
+    },
+
+    generateBundle() {
+      const manifest = buildProjectManifest(root, options);
+      this.emitFile({ type: 'asset', fileName: PROJECT_MANIFEST_PATH, source: JSON.stringify(manifest) });
+      for (const entry of manifest.files) {
+        this.emitFile({
+          type: 'asset',
+          fileName: `${PROJECT_FILES_PREFIX}${entry.path}`,
+          source: new Uint8Array(fs.readFileSync(path.join(root, entry.path))),
+        });
+      }
+    },
+  };
+};
@@ -0,0 +1,104 @@
+/**
+ * The contract between the browser and the local server: endpoint paths and
+ * the JSON bodies they exchange. Both sides import this module, so it must not
+ * depend on Node or browser APIs.
+ */
+import type { Candidate, GenerateContentParameters, GenerateImagesParameters, GenerateContentResponsePromptFeedback, GenerateContentResponseUsageMetadata } from '@google/genai';
+import type { DeploymentTarget, DeploymentRecord, ProjectFile } from '../types';
+import type { DeploymentProviderId, PollOptions, ProgressUpdate } from '../services/deploymentProviders/provider';
+
+export const API_PATHS = {
+  config: '/api/config',
+  generate: '/api/gemini/generate',
+  generateStream: '/api/gemini/stream',
+  generateImages: '/api/gemini/images',
+  fetchPage: '/api/fetch',
+  deploy: '/api/deploy',
+  listDeployments: '/api/deployments/list',
+  rollbackDeployment: '/api/deployments/rollback',
+} as const;
+
+export const DEFAULT_SERVER_PORT = 8787;
+
+/** Every failed request answers with this body and a non-2xx status. */
+export interface ApiErrorBody {
+  /** Machine-readable reason, e.g. `missing_api_key`. */
+  code: string;
+  message: string;
+  /** How long to wait before sending the request again, when the upstream API says so. */
+  retryAfterSeconds?: number;
+}
+
+/**
+ * Codes of failed Gemini requests: the quota or rate limit was hit, the API
+ * is temporarily unavailable, or it rejected the request.
+ */
+export const GEMINI_ERROR_CODES = {
+  missingApiKey: 'missing_api_key',
+  quotaExceeded: 'quota_exceeded',
+  unavailable: 'gemini_unavailable',
+  rejected: 'gemini_error',
+} as const;
+
+export interface ServerConfig {
+  /** Whether the server has a Gemini API key. */
+  gemini: boolean;
+  /** Names of the missing environment variables for each deployment provider. */
+  missingDeploymentCredentials: Partial<Record<DeploymentProviderId, string[]>>;
+}
+
+/** Request parameters without the abort signal, which cannot be sent; closing the request aborts instead. */
+export type GenerateRequest = Omit<GenerateContentParameters, 'config'> & { config?: Omit<NonNullable<GenerateContentParameters['config']>, 'abortSignal'> };
+export type GenerateImagesRequest = Omit<GenerateImagesParameters, 'config'> & { config?: Omit<NonNullable<GenerateImagesParameters['config']>, 'abortSignal'> };
+
+/** A model response, or one streamed chunk of it. */
+export interface GenerateResult {
+  text?: string;
+  candidates?: Candidate[];
+  /** Set when the prompt itself was blocked. */
+  promptFeedback?: GenerateContentResponsePromptFeedback;
+  usageMetadata?: GenerateContentResponseUsageMetadata;
+}
+
+export interface GenerateImagesResult {
+  /** Base64-encoded image bytes; images the model filtered out are missing. */
+  images: string[];
+  /** Why the missing images were filtered out. */
+  filteredReasons: string[];
+}
+
+/** Event streams that fail after the response has started end with this event, carrying an `ApiErrorBody`. */
+export const STREAM_ERROR_EVENT = 'error';
+
+/** Server-sent event of `generateStream`, one per chunk. */
+export const GENERATE_CHUNK_EVENT = 'chunk';
+
+/**
+ * The API hosts are not part of the deployment requests: the server sends its
+ * credentials to them, so only its own environment may name them.
+ */
+export interface DeployRequest extends Partial<PollOptions> {
+  providerId: DeploymentProviderId;
+  files: ProjectFile[];
+  /** The destination remembered by the browser, reused unless `createNewTarget` is set. */
+  rememberedTarget?: DeploymentTarget;
+  createNewTarget?: boolean;
+}
+
+/** Server-sent event names of `deploy`: progress updates, and targets for the browser to remember. */
+export const DEPLOY_EVENTS = { progress: 'progress', target: 'target' } as const;
+
+export type DeployEvent =
+  | { event: typeof DEPLOY_EVENTS.progress; data: ProgressUpdate }
+  | { event: typeof DEPLOY_EVENTS.target; data: DeploymentTarget };
+
+export interface ListDeploymentsRequest {
+  target: DeploymentTarget;
+}
+
+export type ListDeploymentsResult = DeploymentRecord[];
+
+export interface RollbackDeploymentRequest {
+  target: DeploymentTarget;
+  deployId: string;
+}
@@ -0,0 +1,63 @@
+import { Hono } from 'hono';
+import { streamSSE } from 'hono/streaming';
+import { API_PATHS, DEPLOY_EVENTS, STREAM_ERROR_EVENT, DeployRequest, ListDeploymentsRequest, ListDeploymentsResult, RollbackDeploymentRequest } from './api';
+import { HttpError, toErrorBody } from './errors';
+import { DEPLOYMENT_PROVIDERS, getDeploymentProvider } from '../services/deploymentProviders';
+import { DeploymentCancelledError, DeploymentProviderId } from '../services/deploymentProviders/provider';
+import { createDeploymentContext } from '../services/deploymentProviders/runner';
+import { listDeployments, rollbackDeployment } from '../services/deploymentProviders/netlifyProvider';
+
+export const missingDeploymentCredentials = (): Partial<Record<DeploymentProviderId, string[]>> =>
+  Object.fromEntries(DEPLOYMENT_PROVIDERS.filter(provider => !provider.runsInBrowser).map(provider => [provider.id, provider.missingCredentials()]));
+
+/**
+ * Runs deployments with the server's credentials. Progress is streamed as
+ * server-sent events; closing the connection cancels the deployment.
+ */
+export const deploymentRoutes = new Hono()
+  .post(API_PATHS.deploy, async (c) => {
+    // Fields are picked one by one, so that nothing else in the body reaches the deployment context.
+    const { providerId, files, rememberedTarget, createNewTarget, pollIntervalMs, maxPollIntervalMs, timeoutMs } = await c.req.json<DeployRequest>();
+    const provider = getDeploymentProvider(providerId);
+    if (!provider || provider.runsInBrowser) throw new HttpError(400, 'unknown_provider', `"${providerId}" cannot be deployed by the server.`);
+    const missing = provider.missingCredentials();
+    if (missing.length > 0) throw new HttpError(503, 'missing_credentials', `${missing.join(' and ')} must be set on the server to deploy with ${provider.name}.`);
+
+    return streamSSE(c, async (stream) => {
+      const controller = new AbortController();
+      stream.onAbort(() => controller.abort());
+      // Events are written in order, so the final update never overtakes the progress before it.
+      let writes = Promise.resolve();
+      const send = (event: string, data: unknown) => {
+        writes = writes.then(() => stream.writeSSE({ event, data: JSON.stringify(data) }));
+      };
+
+      const context = createDeploymentContext({
+        rememberedTarget,
+        createNewTarget,
+        pollIntervalMs,
+        maxPollIntervalMs,
+        timeoutMs,
+        signal: controller.signal,
+        onProgress: update => send(DEPLOY_EVENTS.progress, update),
+        onTarget: target => send(DEPLOY_EVENTS.target, target),
+      });
+      try {
+        send(DEPLOY_EVENTS.progress, await provider.run(files, context));
+      } catch (error) {
+        if (error instanceof DeploymentCancelledError || controller.signal.aborted) return;
+        console.error('Deployment failed:', error);
+        send(STREAM_ERROR_EVENT, toErrorBody(error));
+      }
+      await writes;
+    });
+  })
+  .post(API_PATHS.listDeployments, async (c) => {
+    const { target } = await c.req.json<ListDeploymentsRequest>();
+    return c.json<ListDeploymentsResult>(await listDeployments(target));
+  })
+  .post(API_PATHS.rollbackDeployment, async (c) => {
+    const { target, deployId } = await c.req.json<RollbackDeploymentRequest>();
+    await rollbackDeployment(target, deployId);
+    return c.json({});
+  });
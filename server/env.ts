@@ -0,0 +1,7 @@
+import fs from 'fs';
+
+// Imported first by the entry point, so the variables are set before any module reads them.
+// Variables already set in the shell win, then .env.local, then .env.
+for (const file of ['.env.local', '.env']) {
+  if (fs.existsSync(file)) process.loadEnvFile(file);
+}
@@ -0,0 +1,17 @@
+import type { ContentfulStatusCode } from 'hono/utils/http-status';
+import type { ApiErrorBody } from './api';
+
+/** An error with the status and code it is answered with. */
+export class HttpError extends Error {
+  constructor(public readonly status: ContentfulStatusCode, public readonly code: string, message: string, public readonly retryAfterSeconds?: number) {
+    super(message);
+    this.name = 'HttpError';
+  }
+}
+
+export const toErrorBody = (error: unknown): ApiErrorBody =>
+  error instanceof HttpError
+    ? { code: error.code, message: error.message, ...(error.retryAfterSeconds !== undefined && { retryAfterSeconds: error.retryAfterSeconds }) }
+    : { code: 'internal_error', message: error instanceof Error ? error.message : String(error) };
+
+export const errorStatus = (error: unknown): ContentfulStatusCode => (error instanceof HttpError ? error.status : 500);
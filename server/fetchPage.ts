@@ -0,0 +1,111 @@
+import { lookup } from 'node:dns/promises';
+import { BlockList } from 'node:net';
+import { Hono } from 'hono';
+import { API_PATHS } from './api';
+import { HttpError } from './errors';
+
+const TIMEOUT_MS = 15000;
+const MAX_BYTES = 5 * 1024 * 1024;
+const MAX_REDIRECTS = 5;
+
+// The server runs on the developer's machine, so it must not become a way into the local network.
+const PRIVATE_ADDRESSES = new BlockList();
+for (const [network, prefix] of [['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8], ['169.254.0.0', 16], ['172.16.0.0', 12], ['192.168.0.0', 16]] as const) {
+  PRIVATE_ADDRESSES.addSubnet(network, prefix, 'ipv4');
+}
+// IPv4-mapped addresses are blocked as a whole rather than checked against the IPv4 ranges.
+for (const [network, prefix] of [['::', 127], ['::ffff:0:0', 96], ['fc00::', 7], ['fe80::', 10]] as const) {
+  PRIVATE_ADDRESSES.addSubnet(network, prefix, 'ipv6');
+}
+
+/**
+ * Rejects URLs that are not http or https, or whose host resolves to a
+ * private, loopback or link-local address. Every redirect is checked again.
+ */
+const checkTarget = async (target: URL): Promise<void> => {
+  if (!/^https?:$/.test(target.protocol)) throw new HttpError(400, 'invalid_url', 'Only http and https URLs can be fetched.');
+  const host = target.hostname.replace(/^\[(.*)\]$/, '$1');
+  const addresses = await lookup(host, { all: true }).catch(() => {
+    throw new HttpError(502, 'upstream_unreachable', `The website could not be reached: ${host} could not be resolved.`);
+  });
+  if (addresses.some(({ address, family }) => PRIVATE_ADDRESSES.check(address, family === 6 ? 'ipv6' : 'ipv4'))) {
+    throw new HttpError(403, 'private_address', 'Private and local addresses cannot be fetched.');
+  }
+};
+
+const readLimited = async (response: Response, maxBytes: number): Promise<{ body: Buffer; truncated: boolean }> => {
+  const reader = response.body?.getReader();
+  if (!reader) return { body: Buffer.alloc(0), truncated: false };
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) return { body: Buffer.concat(chunks), truncated: false };
+    chunks.push(value);
+    size += value.length;
+    if (size > maxBytes) {
+      await reader.cancel();
+      return { body: Buffer.concat(chunks).subarray(0, maxBytes), truncated: true };
+    }
+  }
+};
+
+/**
+ * `WEBSITE_PROXY_URL` sends page requests through a proxy you host instead,
+ * with `{url}` where the encoded page URL goes.
+ */
+const upstreamUrl = (target: URL): string => {
+  const template = process.env.WEBSITE_PROXY_URL;
+  return template ? template.replace('{url}', encodeURIComponent(target.toString())) : target.toString();
+};
+
+/**
+ * Serves `GET /api/fetch?url=...`, fetching public web pages on behalf of the
+ * app, which cannot read them itself because of CORS. The body is passed
+ * through as is; the final URL after redirects is returned in the
+ * `X-Final-Url` header. Redirects are followed here, up to `MAX_REDIRECTS`,
+ * so that each one goes through `checkTarget`.
+ */
+export const fetchPageRoutes = new Hono()
+  .get(API_PATHS.fetchPage, async (c) => {
+    let target: URL;
+    try {
+      target = new URL(c.req.query('url') ?? '');
+    } catch {
+      throw new HttpError(400, 'invalid_url', 'The url parameter must be an absolute URL.');
+    }
+
+    const signal = AbortSignal.any([AbortSignal.timeout(TIMEOUT_MS), c.req.raw.signal]);
+    try {
+      for (let redirects = 0; ; redirects++) {
+        await checkTarget(target);
+        const upstream = await fetch(upstreamUrl(target), {
+          redirect: 'manual',
+          signal,
+          headers: { 'User-Agent': 'Mozilla/5.0 (compatible; Alfreyaa/1.0)', Accept: 'text/html,application/xhtml+xml,text/plain;q=0.9,*/*;q=0.5' },
+        });
+        const location = upstream.headers.get('location');
+        if (upstream.status >= 300 && upstream.status < 400 && location) {
+          await upstream.body?.cancel();
+          if (redirects === MAX_REDIRECTS) throw new HttpError(502, 'too_many_redirects', 'The website redirected too many times.');
+          target = new URL(location, target);
+          continue;
+        }
+        const { body, truncated } = await readLimited(upstream, MAX_BYTES);
+        return new Response(body, {
+          status: upstream.status,
+          headers: {
+            'Content-Type': upstream.headers.get('content-type') ?? 'text/html',
+            'X-Final-Url': target.toString(),
+            ...(truncated && { 'X-Truncated': 'true' }),
+          },
+        });
+      }
+    } catch (error) {
+      if (error instanceof HttpError) throw error;
+      const timedOut = error instanceof DOMException && error.name === 'TimeoutError';
+      throw timedOut
+        ? new HttpError(504, 'upstream_timeout', 'The website took too long to respond.')
+        : new HttpError(502, 'upstream_unreachable', `The website could not be reached: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  });
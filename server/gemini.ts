@@ -0,0 +1,89 @@
+import { Hono } from 'hono';
+import { streamSSE } from 'hono/streaming';
+import type { ContentfulStatusCode } from 'hono/utils/http-status';
+import { GoogleGenAI, ApiError, GenerateContentResponse } from '@google/genai';
+import { API_PATHS, GEMINI_ERROR_CODES, GENERATE_CHUNK_EVENT, STREAM_ERROR_EVENT, GenerateRequest, GenerateImagesRequest, GenerateResult, GenerateImagesResult } from './api';
+import { HttpError, toErrorBody } from './errors';
+
+let ai: GoogleGenAI | null = null;
+
+export const isGeminiConfigured = (): boolean => !!(process.env.GEMINI_API_KEY || process.env.API_KEY);
+
+const getClient = (): GoogleGenAI => {
+  if (ai) return ai;
+  const apiKey = process.env.GEMINI_API_KEY || process.env.API_KEY;
+  if (!apiKey) throw new HttpError(503, GEMINI_ERROR_CODES.missingApiKey, 'GEMINI_API_KEY is not set on the server.');
+  ai = new GoogleGenAI({ apiKey });
+  return ai;
+};
+
+// The SDK's response class computes `text` in a getter, which JSON leaves out.
+const toResult = (response: GenerateContentResponse): GenerateResult => ({
+  text: response.text,
+  candidates: response.candidates,
+  promptFeedback: response.promptFeedback,
+  usageMetadata: response.usageMetadata,
+});
+
+// Rate limit errors carry a google.rpc.RetryInfo detail, e.g. "retryDelay": "23s", in the message.
+const retryDelaySeconds = (message: string): number | undefined => {
+  const match = /"retryDelay":\s*"(\d+(?:\.\d+)?)s"/.exec(message);
+  return match ? Math.ceil(Number(match[1])) : undefined;
+};
+
+// Errors from the Gemini API keep their status, so the browser can tell quota and input problems apart.
+const toHttpError = (error: unknown): unknown => {
+  if (!(error instanceof ApiError)) return error;
+  const status = (error.status >= 400 && error.status < 600 ? error.status : 502) as ContentfulStatusCode;
+  const code = status === 429 ? GEMINI_ERROR_CODES.quotaExceeded : status >= 500 ? GEMINI_ERROR_CODES.unavailable : GEMINI_ERROR_CODES.rejected;
+  return new HttpError(status, code, error.message, retryDelaySeconds(error.message));
+};
+
+/**
+ * Relays model requests to Gemini with the server's API key. The browser
+ * builds the requests; closing the connection aborts them.
+ */
+export const geminiRoutes = new Hono()
+  .post(API_PATHS.generate, async (c) => {
+    const request = await c.req.json<GenerateRequest>();
+    try {
+      const response = await getClient().models.generateContent({ ...request, config: { ...request.config, abortSignal: c.req.raw.signal } });
+      return c.json(toResult(response));
+    } catch (error) {
+      throw toHttpError(error);
+    }
+  })
+  .post(API_PATHS.generateStream, async (c) => {
+    const request = await c.req.json<GenerateRequest>();
+    const client = getClient();
+    return streamSSE(c, async (stream) => {
+      const controller = new AbortController();
+      stream.onAbort(() => controller.abort());
+      try {
+        const chunks = await client.models.generateContentStream({ ...request, config: { ...request.config, abortSignal: controller.signal } });
+        for await (const chunk of chunks) {
+          await stream.writeSSE({ event: GENERATE_CHUNK_EVENT, data: JSON.stringify(toResult(chunk)) });
+        }
+      } catch (error) {
+        if (controller.signal.aborted) return;
+        console.error('Gemini stream failed:', error);
+        await stream.writeSSE({ event: STREAM_ERROR_EVENT, data: JSON.stringify(toErrorBody(toHttpError(error))) });
+      }
+    });
+  })
+  .post(API_PATHS.generateImages, async (c) => {
+    const request = await c.req.json<GenerateImagesRequest>();
+    try {
+      const response = await getClient().models.generateImages({ ...request, config: { ...request.config, abortSignal: c.req.raw.signal } });
+      const generated = response.generatedImages ?? [];
+      const images = generated
+        .map(image => image.image?.imageBytes)
+        .filter((bytes): bytes is string => !!bytes);
+      const filteredReasons = generated
+        .map(image => image.raiFilteredReason)
+        .filter((reason): reason is string => !!reason);
+      return c.json<GenerateImagesResult>({ images, filteredReasons });
+    } catch (error) {
+      throw toHttpError(error);
+    }
+  });
@@ -0,0 +1,40 @@
+import './env';
+import { Hono } from 'hono';
+import { serve } from '@hono/node-server';
+import { API_PATHS, DEFAULT_SERVER_PORT, ServerConfig } from './api';
+import { HttpError, toErrorBody, errorStatus } from './errors';
+import { geminiRoutes, isGeminiConfigured } from './gemini';
+import { fetchPageRoutes } from './fetchPage';
+import { deploymentRoutes, missingDeploymentCredentials } from './deployments';
+import { requestGuard } from './requestGuard';
+import { createSessionToken } from './sessionToken';
+
+const port = Number(process.env.SERVER_PORT) || DEFAULT_SERVER_PORT;
+
+/**
+ * The local server that holds the API keys and credentials. The browser app
+ * reaches it through the Vite dev server's `/api` proxy, so nothing secret is
+ * ever part of the client bundle. Requests from anywhere else are turned away.
+ */
+const app = new Hono()
+  .use('/api/*', requestGuard(createSessionToken(port)))
+  .get(API_PATHS.config, (c) => c.json<ServerConfig>({
+    gemini: isGeminiConfigured(),
+    missingDeploymentCredentials: missingDeploymentCredentials(),
+  }))
+  .route('/', geminiRoutes)
+  .route('/', fetchPageRoutes)
+  .route('/', deploymentRoutes)
+  .notFound((c) => c.json(toErrorBody(new HttpError(404, 'not_found', `No endpoint ${c.req.method} ${c.req.path}.`)), 404))
+  .onError((error, c) => {
+    const status = errorStatus(error);
+    // HttpErrors are expected answers; anything else is a bug worth a stack trace.
+    if (!(error instanceof HttpError)) console.error(`${c.req.method} ${c.req.path} failed:`, error);
+    if (error instanceof HttpError && error.retryAfterSeconds !== undefined) c.header('Retry-After', String(error.retryAfterSeconds));
+    return c.json(toErrorBody(error), status);
+  });
+
+// Only this machine may use the keys.
+serve({ fetch: app.fetch, port, hostname: '127.0.0.1' }, ({ port }) => {
+  console.log(`Alfreyaa server listening on http://127.0.0.1:${port}`);
+});
@@ -0,0 +1,47 @@
+import { describe, it, expect } from 'vitest';
+import { Hono } from 'hono';
+import { errorStatus, toErrorBody } from './errors';
+import { requestGuard } from './requestGuard';
+import { SESSION_TOKEN_HEADER } from './sessionToken';
+
+const TOKEN = 'a'.repeat(64);
+
+const app = new Hono()
+  .use('/api/*', requestGuard(TOKEN))
+  .post('/api/deploy', (c) => c.json({ ok: true }))
+  .get('/api/config', (c) => c.json({ ok: true }))
+  .onError((error, c) => c.json(toErrorBody(error), errorStatus(error)));
+
+const fromApp = { Host: 'localhost:5173', Origin: 'http://localhost:5173', 'Content-Type': 'application/json', [SESSION_TOKEN_HEADER]: TOKEN };
+
+const post = async (headers: Record<string, string>) => {
+  const response = await app.request('/api/deploy', { method: 'POST', headers, body: '{}' });
+  return { status: response.status, code: (await response.json()).code };
+};
+
+describe('requestGuard', () => {
+  it('serves the app through its proxy', async () => {
+    await expect(post(fromApp)).resolves.toEqual({ status: 200, code: undefined });
+    expect((await app.request('/api/config', { headers: { Host: '127.0.0.1:8787', [SESSION_TOKEN_HEADER]: TOKEN } })).status).toBe(200);
+  });
+
+  it('rejects requests from other origins', async () => {
+    await expect(post({ ...fromApp, Origin: 'https://attacker.example' })).resolves.toEqual({ status: 403, code: 'forbidden_origin' });
+  });
+
+  it('rejects requests for other host names', async () => {
+    await expect(post({ ...fromApp, Host: 'attacker.example:8787', Origin: 'http://attacker.example:8787' }))
+      .resolves.toEqual({ status: 403, code: 'forbidden_host' });
+  });
+
+  it('rejects requests without the session token', async () => {
+    const { [SESSION_TOKEN_HEADER]: _, ...withoutToken } = fromApp;
+    await expect(post(withoutToken)).resolves.toEqual({ status: 403, code: 'invalid_session_token' });
+    await expect(post({ ...fromApp, [SESSION_TOKEN_HEADER]: 'b'.repeat(64) })).resolves.toEqual({ status: 403, code: 'invalid_session_token' });
+  });
+
+  it('rejects bodies that are not JSON', async () => {
+    await expect(post({ ...fromApp, 'Content-Type': 'text/plain' })).resolves.toEqual({ status: 415, code: 'unsupported_media_type' });
+    await expect(post({ ...fromApp, 'Content-Type': 'application/json; charset=utf-8' })).resolves.toMatchObject({ status: 200 });
+  });
+});
@@ -0,0 +1,37 @@
+import crypto from 'crypto';
+import type { MiddlewareHandler } from 'hono';
+import { HttpError } from './errors';
+import { SESSION_TOKEN_HEADER } from './sessionToken';
+
+const LOCAL_HOSTNAMES = new Set(['localhost', '127.0.0.1', '[::1]']);
+
+const hostnameOf = (host: string): string => host.replace(/:\d+$/, '').toLowerCase();
+
+const sameToken = (sent: string, token: string): boolean =>
+  sent.length === token.length && crypto.timingSafeEqual(Buffer.from(sent), Buffer.from(token));
+
+/**
+ * Rejects requests that do not come from the app. Any web page the user
+ * visits can send simple requests to a local port, so a request must:
+ * - be addressed to a local host name, which rules out DNS rebinding;
+ * - come from the origin it is addressed to, when a browser sends it;
+ * - post JSON, which a page of another origin cannot do without a preflight;
+ * - carry the session token, which only the app's proxy adds.
+ */
+export const requestGuard = (token: string): MiddlewareHandler => async (c, next) => {
+  const host = c.req.header('Host') ?? '';
+  if (!LOCAL_HOSTNAMES.has(hostnameOf(host))) {
+    throw new HttpError(403, 'forbidden_host', `Requests for ${host || 'an unknown host'} are not served.`);
+  }
+  const origin = c.req.header('Origin');
+  if (origin !== undefined && origin !== `http://${host}` && origin !== `https://${host}`) {
+    throw new HttpError(403, 'forbidden_origin', `Requests from ${origin} are not served.`);
+  }
+  if (!sameToken(c.req.header(SESSION_TOKEN_HEADER) ?? '', token)) {
+    throw new HttpError(403, 'invalid_session_token', `The ${SESSION_TOKEN_HEADER} header is missing or out of date. Reach the server through the app's /api proxy.`);
+  }
+  if (c.req.method !== 'GET' && c.req.method !== 'HEAD' && !/^application\/json\s*(;|$)/i.test(c.req.header('Content-Type') ?? '')) {
+    throw new HttpError(415, 'unsupported_media_type', 'Requests must send a JSON body with Content-Type: application/json.');
+  }
+  await next();
+};
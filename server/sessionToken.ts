@@ -0,0 +1,31 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import crypto from 'crypto';
+
+/**
+ * Every request to the server must carry the token of its current run in
+ * this header. The token is kept in a file only the user can read, from which
+ * the dev and preview proxies add it, so web pages cannot send it.
+ */
+export const SESSION_TOKEN_HEADER = 'X-Alfreyaa-Token';
+
+const tokenPath = (port: number): string => path.join(os.tmpdir(), `alfreyaa-server-${port}.token`);
+
+/** Creates the token for a run of the server on `port`, replacing the previous run's. */
+export const createSessionToken = (port: number): string => {
+  const token = crypto.randomBytes(32).toString('hex');
+  const file = tokenPath(port);
+  fs.rmSync(file, { force: true });
+  fs.writeFileSync(file, token, { mode: 0o600 });
+  return token;
+};
+
+/** The token of the server running on `port`, or `undefined` when it has not started yet. */
+export const readSessionToken = (port: number): string | undefined => {
+  try {
+    return fs.readFileSync(tokenPath(port), 'utf8');
+  } catch {
+    return undefined;
+  }
+};
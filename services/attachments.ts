@@ -0,0 +1,92 @@
+import { Attachment } from '../types';
+
+// Gemini rejects requests above ~20 MB of inline data, base64 included.
+export const MAX_ATTACHMENT_BYTES = 7 * 1024 * 1024;
+export const MAX_TOTAL_ATTACHMENT_BYTES = 14 * 1024 * 1024;
+export const MAX_ATTACHMENTS = 5;
+
+/** MIME types Gemini accepts as inline data. */
+export const ACCEPTED_MIME_TYPES = [
+  'image/png',
+  'image/jpeg',
+  'image/webp',
+  'image/heic',
+  'image/heif',
+  'application/pdf',
+  'text/plain',
+  'text/markdown',
+  'text/csv',
+  'text/html',
+  'text/css',
+  'text/javascript',
+  'application/json',
+];
+
+// Browsers often report no MIME type for source files; they are sent as plain text.
+const TEXT_EXTENSIONS = ['txt', 'md', 'csv', 'json', 'ts', 'tsx', 'js', 'jsx', 'py', 'java', 'go', 'rs', 'c', 'cpp', 'h', 'sh', 'yml', 'yaml', 'toml', 'xml', 'sql', 'log'];
+
+export const ACCEPT_ATTRIBUTE = [...ACCEPTED_MIME_TYPES, ...TEXT_EXTENSIONS.map(extension => `.${extension}`)].join(',');
+
+export const formatBytes = (bytes: number): string => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+const resolveMimeType = (file: File): string | undefined => {
+  if (ACCEPTED_MIME_TYPES.includes(file.type)) return file.type;
+  // Source files get vendor or empty MIME types depending on the browser.
+  const extension = file.name.split('.').pop()?.toLowerCase() ?? '';
+  if (file.type.startsWith('text/') || TEXT_EXTENSIONS.includes(extension)) return 'text/plain';
+  return undefined;
+};
+
+const readAsBase64 = (file: File): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve((reader.result as string).split(',')[1] ?? '');
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(file);
+  });
+
+/**
+ * Validates files against the limits, given what is already attached, and
+ * reads the accepted ones. Rejected files are reported by name in `errors`.
+ */
+export const readAttachments = async (files: File[], existing: Attachment[]): Promise<{ attachments: Attachment[]; errors: string[] }> => {
+  const attachments: Attachment[] = [];
+  const errors: string[] = [];
+  let totalBytes = existing.reduce((total, attachment) => total + attachment.size, 0);
+
+  for (const file of files) {
+    const mimeType = resolveMimeType(file);
+    if (!mimeType) {
+      errors.push(`${file.name}: unsupported file type${file.type ? ` (${file.type})` : ''}.`);
+    } else if (existing.length + attachments.length >= MAX_ATTACHMENTS) {
+      errors.push(`${file.name}: at most ${MAX_ATTACHMENTS} files can be attached.`);
+    } else if (file.size > MAX_ATTACHMENT_BYTES) {
+      errors.push(`${file.name}: larger than ${formatBytes(MAX_ATTACHMENT_BYTES)}.`);
+    } else if (totalBytes + file.size > MAX_TOTAL_ATTACHMENT_BYTES) {
+      errors.push(`${file.name}: attachments may not exceed ${formatBytes(MAX_TOTAL_ATTACHMENT_BYTES)} in total.`);
+    } else {
+      try {
+        attachments.push({
+          id: `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+          name: file.name || 'pasted file',
+          mimeType,
+          size: file.size,
+          data: await readAsBase64(file),
+        });
+        totalBytes += file.size;
+      } catch {
+        errors.push(`${file.name}: the file could not be read.`);
+      }
+    }
+  }
+
+  return { attachments, errors };
+};
+
+export const isImageAttachment = (attachment: Attachment): boolean => attachment.mimeType.startsWith('image/');
+
+export const attachmentDataUrl = (attachment: Attachment): string => `data:${attachment.mimeType};base64,${attachment.data}`;
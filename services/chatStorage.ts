@@ -0,0 +1,372 @@
+import { ChatSession, Message, UsageRecord } from '../types';
+import { DEFAULT_SESSION_TITLE, createGreetingId } from './sessionStore';
+import { linkMessages } from './messageTree';
+import { monthKey } from './usage';
+
+const DB_NAME = 'alfreyaa';
+// localStorage keys written before conversations moved to IndexedDB.
+const LEGACY_SESSIONS_KEY = 'alfreyaa_sessions';
+const LEGACY_HISTORY_KEY = 'alfreyaa_chat_history';
+// The id every greeting shared before greetings got ids of their own.
+const LEGACY_GREETING_ID = 'alfreyaa-init';
+
+type StoredSession = Omit<ChatSession, 'messages'>;
+
+/**
+ * A message as stored: keyed by session and id, ordered by `position`, and
+ * with generated images moved to the `images` store as blobs.
+ */
+type StoredMessage = Omit<Message, 'images'> & {
+  sessionId: string;
+  position: number;
+  images?: string[];
+  hasImageBlob?: boolean;
+};
+
+/** The images of one message, in order. */
+interface StoredImage {
+  sessionId: string;
+  id: string;
+  blobs: Blob[];
+}
+
+/** The usage ledger of one calendar month, keyed by `YYYY-MM`. */
+interface StoredUsageMonth {
+  month: string;
+  records: UsageRecord[];
+}
+
+export class StorageError extends Error {
+  constructor(message: string, public readonly cause?: unknown) {
+    super(message);
+    this.name = 'StorageError';
+  }
+}
+
+const dataUrlToBlob = (dataUrl: string): Blob => {
+  const [header, data] = dataUrl.split(',');
+  const mimeType = header.match(/^data:([^;]+)/)?.[1] ?? 'application/octet-stream';
+  return new Blob([Uint8Array.from(atob(data), char => char.charCodeAt(0))], { type: mimeType });
+};
+
+const blobToDataUrl = (blob: Blob): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+
+const isDataUrl = (url?: string): url is string => !!url && url.startsWith('data:') && url.includes(';base64,');
+
+// Images are moved to blobs only when all of them are data URLs; imported links stay inline.
+const hasImageBlobs = (images?: string[]): boolean => !!images?.length && images.every(isDataUrl);
+
+const toStoredMessage = (sessionId: string, message: Message, position: number): StoredMessage => {
+  const { images, ...rest } = message;
+  return hasImageBlobs(images)
+    ? { ...rest, sessionId, position, hasImageBlob: true }
+    : { ...rest, sessionId, position, ...(images && { images }) };
+};
+
+const toStoredImage = (sessionId: string, message: Message): StoredImage =>
+  ({ sessionId, id: message.id, blobs: (message.images ?? []).map(dataUrlToBlob) });
+
+const toStoredSession = ({ messages, ...session }: ChatSession): StoredSession => session;
+
+const writeSession = (transaction: IDBTransaction, session: ChatSession): void => {
+  transaction.objectStore('sessions').put(toStoredSession(session));
+  session.messages.forEach((message, position) => {
+    transaction.objectStore('messages').put(toStoredMessage(session.id, message, position));
+    if (hasImageBlobs(message.images)) {
+      transaction.objectStore('images').put(toStoredImage(session.id, message));
+    }
+  });
+};
+
+type Migration = (db: IDBDatabase, transaction: IDBTransaction) => void;
+
+/**
+ * Schema migrations, applied in order on upgrade; the database version is the
+ * number of migrations. Changes to the `Message` shape get a new entry that
+ * rewrites the stored records through a cursor on the `messages` store.
+ */
+const MIGRATIONS: Migration[] = [
+  // 1: separate stores for sessions, messages and images, seeded from localStorage.
+  (db, transaction) => {
+    db.createObjectStore('sessions', { keyPath: 'id' });
+    db.createObjectStore('messages', { keyPath: ['sessionId', 'id'] }).createIndex('sessionId', 'sessionId');
+    db.createObjectStore('images', { keyPath: ['sessionId', 'id'] }).createIndex('sessionId', 'sessionId');
+
+    const sessions: ChatSession[] = JSON.parse(localStorage.getItem(LEGACY_SESSIONS_KEY) ?? '[]');
+    const history: Message[] = JSON.parse(localStorage.getItem(LEGACY_HISTORY_KEY) ?? '[]');
+    if (sessions.length === 0 && history.length > 0) {
+      const now = Date.now();
+      sessions.push({ id: `session-${now}`, title: DEFAULT_SESSION_TITLE, createdAt: now, updatedAt: now, pinned: false, needsTitle: true, messages: history });
+    }
+    sessions.forEach(session => writeSession(transaction, session));
+    transaction.addEventListener('complete', () => {
+      localStorage.removeItem(LEGACY_SESSIONS_KEY);
+      localStorage.removeItem(LEGACY_HISTORY_KEY);
+    });
+  },
+  // 2: a message holds a list of images instead of a single `imageUrl`.
+  (_db, transaction) => {
+    transaction.objectStore('messages').openCursor().onsuccess = (event) => {
+      const cursor = (event.target as IDBRequest<IDBCursorWithValue | null>).result;
+      if (!cursor) return;
+      const { imageUrl, ...message } = cursor.value as StoredMessage & { imageUrl?: string };
+      if (imageUrl !== undefined) cursor.update({ ...message, images: [imageUrl] });
+      cursor.continue();
+    };
+    transaction.objectStore('images').openCursor().onsuccess = (event) => {
+      const cursor = (event.target as IDBRequest<IDBCursorWithValue | null>).result;
+      if (!cursor) return;
+      const { blob, ...image } = cursor.value as Omit<StoredImage, 'blobs'> & { blob?: Blob };
+      if (blob) cursor.update({ ...image, blobs: [blob] });
+      cursor.continue();
+    };
+  },
+  // 3: website analyses list every analyzed URL with its fetch status instead of a single `analyzedUrl`.
+  (_db, transaction) => {
+    transaction.objectStore('messages').openCursor().onsuccess = (event) => {
+      const cursor = (event.target as IDBRequest<IDBCursorWithValue | null>).result;
+      if (!cursor) return;
+      const { analyzedUrl, ...message } = cursor.value as StoredMessage & { analyzedUrl?: string };
+      if (analyzedUrl !== undefined) cursor.update({ ...message, analyzedUrls: [{ url: analyzedUrl, status: 'ok' }] });
+      cursor.continue();
+    };
+  },
+  // 4: conversations are trees; every message but the first of a session links to its parent.
+  (_db, transaction) => {
+    const store = transaction.objectStore('messages');
+    store.getAll().onsuccess = (event) => {
+      const bySession = new Map<string, StoredMessage[]>();
+      for (const message of (event.target as IDBRequest<StoredMessage[]>).result) {
+        bySession.set(message.sessionId, [...(bySession.get(message.sessionId) ?? []), message]);
+      }
+      for (const messages of bySession.values()) {
+        const ordered = messages.sort((a, b) => a.position - b.position);
+        linkMessages(ordered).forEach((message, i) => {
+          if (message !== ordered[i]) store.put(message);
+        });
+      }
+    };
+  },
+  // 5: greetings get an id of their own, so message ids are unique across sessions.
+  (_db, transaction) => {
+    const messageStore = transaction.objectStore('messages');
+    const sessionStore = transaction.objectStore('sessions');
+    messageStore.getAll().onsuccess = (event) => {
+      const messages = (event.target as IDBRequest<StoredMessage[]>).result;
+      const greetingIds = new Map<string, string>();
+      for (const message of messages) {
+        if (message.id !== LEGACY_GREETING_ID) continue;
+        const id = createGreetingId();
+        greetingIds.set(message.sessionId, id);
+        messageStore.delete([message.sessionId, message.id]);
+        messageStore.put({ ...message, id });
+      }
+      for (const message of messages) {
+        if (message.parentId === LEGACY_GREETING_ID && greetingIds.has(message.sessionId)) {
+          messageStore.put({ ...message, parentId: greetingIds.get(message.sessionId) });
+        }
+      }
+      sessionStore.getAll().onsuccess = (sessionsEvent) => {
+        for (const session of (sessionsEvent.target as IDBRequest<StoredSession[]>).result) {
+          if (session.activeMessageId === LEGACY_GREETING_ID && greetingIds.has(session.id)) {
+            sessionStore.put({ ...session, activeMessageId: greetingIds.get(session.id) });
+          }
+        }
+      };
+    };
+  },
+  // 6: usage is also kept in a ledger by month, which deleting a conversation leaves alone.
+  (db, transaction) => {
+    const usageStore = db.createObjectStore('usage', { keyPath: 'month' });
+    const messageStore = transaction.objectStore('messages');
+    messageStore.getAll().onsuccess = (event) => {
+      const months = new Map<string, UsageRecord[]>();
+      const stored = (event.target as IDBRequest<StoredMessage[]>).result;
+      for (const { usage, sessionId } of stored) {
+        if (!usage) continue;
+        const month = monthKey(usage.at);
+        months.set(month, [...(months.get(month) ?? []), { ...usage, sessionId }]);
+      }
+      for (const [month, records] of months) {
+        usageStore.put({ month, records: records.sort((a, b) => a.at - b.at) } satisfies StoredUsageMonth);
+      }
+    };
+  },
+];
+
+export const SCHEMA_VERSION = MIGRATIONS.length;
+
+const requestResult = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const transactionDone = (transaction: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error ?? new Error('Transaction aborted.'));
+  });
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  dbPromise ??= new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, SCHEMA_VERSION);
+    request.onupgradeneeded = (event) => {
+      const transaction = request.transaction!;
+      for (let version = event.oldVersion; version < SCHEMA_VERSION; version++) {
+        MIGRATIONS[version](request.result, transaction);
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+    request.onblocked = () => reject(new Error('The database is open in another tab with an older version.'));
+  }).catch(error => {
+    dbPromise = null;
+    throw error;
+  });
+  return dbPromise;
+};
+
+// The last state known to be on disk; saves only write what differs from it.
+let persisted: ChatSession[] = [];
+let writeQueue: Promise<void> = Promise.resolve();
+
+/**
+ * Loads every session with its messages in order. Images are restored as
+ * data URLs so messages look exactly as they did when they were saved.
+ */
+export const loadSessions = async (): Promise<ChatSession[]> => {
+  try {
+    const db = await openDatabase();
+    const transaction = db.transaction(['sessions', 'messages', 'images'], 'readonly');
+    const [storedSessions, storedMessages, storedImages] = await Promise.all([
+      requestResult<StoredSession[]>(transaction.objectStore('sessions').getAll()),
+      requestResult<StoredMessage[]>(transaction.objectStore('messages').getAll()),
+      requestResult<StoredImage[]>(transaction.objectStore('images').getAll()),
+    ]);
+
+    const images = new Map(await Promise.all(storedImages.map(async image =>
+      [`${image.sessionId}/${image.id}`, await Promise.all(image.blobs.map(blobToDataUrl))] as const)));
+
+    const sessions = storedSessions.map((session): ChatSession => ({
+      ...session,
+      messages: storedMessages
+        .filter(message => message.sessionId === session.id)
+        .sort((a, b) => a.position - b.position)
+        // A stream interrupted by a reload can never finish, so its flag is dropped.
+        .map(({ sessionId, position, hasImageBlob, isStreaming, ...message }): Message => (
+          hasImageBlob ? { ...message, images: images.get(`${sessionId}/${message.id}`) ?? [] } : message
+        )),
+    }));
+    persisted = sessions;
+    return sessions;
+  } catch (error) {
+    throw new StorageError(`Saved conversations could not be loaded: ${error instanceof Error ? error.message : String(error)}`, error);
+  }
+};
+
+const writeChanges = async (previous: ChatSession[], next: ChatSession[]): Promise<void> => {
+  const db = await openDatabase();
+  const transaction = db.transaction(['sessions', 'messages', 'images'], 'readwrite');
+  const done = transactionDone(transaction);
+  const sessionStore = transaction.objectStore('sessions');
+  const messageStore = transaction.objectStore('messages');
+  const imageStore = transaction.objectStore('images');
+  const previousById = new Map(previous.map(session => [session.id, session]));
+  const nextIds = new Set(next.map(session => session.id));
+
+  for (const session of previous) {
+    if (nextIds.has(session.id)) continue;
+    sessionStore.delete(session.id);
+    const range = IDBKeyRange.bound([session.id], [session.id, []]);
+    messageStore.delete(range);
+    imageStore.delete(range);
+  }
+
+  // Sessions and messages are updated immutably, so an unchanged object means unchanged content.
+  for (const session of next) {
+    const before = previousById.get(session.id);
+    if (before === session) continue;
+    if (!before) {
+      writeSession(transaction, session);
+      continue;
+    }
+
+    sessionStore.put(toStoredSession(session));
+    const beforeMessages = new Map(before.messages.map((message, position) => [message.id, { message, position }]));
+    const keptIds = new Set<string>();
+    session.messages.forEach((message, position) => {
+      keptIds.add(message.id);
+      const old = beforeMessages.get(message.id);
+      if (old?.message === message && old.position === position) return;
+      messageStore.put(toStoredMessage(session.id, message, position));
+      if (message.images !== old?.message.images) {
+        if (hasImageBlobs(message.images)) imageStore.put(toStoredImage(session.id, message));
+        else if (old) imageStore.delete([session.id, message.id]);
+      }
+    });
+    for (const id of beforeMessages.keys()) {
+      if (keptIds.has(id)) continue;
+      messageStore.delete([session.id, id]);
+      imageStore.delete([session.id, id]);
+    }
+  }
+
+  await done;
+};
+
+/**
+ * Writes what changed since the last successful save. Saves run one after the
+ * other; after a failure the next save retries the changes it missed.
+ */
+export const saveSessions = (sessions: ChatSession[]): Promise<void> => {
+  const result = writeQueue.then(async () => {
+    try {
+      await writeChanges(persisted, sessions);
+      persisted = sessions;
+    } catch (error) {
+      const reason = error instanceof DOMException && error.name === 'QuotaExceededError'
+        ? 'the browser storage quota is full'
+        : error instanceof Error ? error.message : String(error);
+      throw new StorageError(`Your conversations could not be saved (${reason}). Recent messages will be lost on reload.`, error);
+    }
+  });
+  writeQueue = result.catch(() => undefined);
+  return result;
+};
+
+/** Loads the usage ledger, oldest request first. */
+export const loadUsage = async (): Promise<UsageRecord[]> => {
+  try {
+    const db = await openDatabase();
+    const months = await requestResult<StoredUsageMonth[]>(db.transaction('usage', 'readonly').objectStore('usage').getAll());
+    return months.flatMap(month => month.records);
+  } catch (error) {
+    throw new StorageError(`Usage could not be loaded: ${error instanceof Error ? error.message : String(error)}`, error);
+  }
+};
+
+/** Adds the usage of a request to the ledger of its month. */
+export const appendUsage = async (record: UsageRecord): Promise<void> => {
+  try {
+    const db = await openDatabase();
+    const transaction = db.transaction('usage', 'readwrite');
+    const done = transactionDone(transaction);
+    const store = transaction.objectStore('usage');
+    const month = monthKey(record.at);
+    const request: IDBRequest<StoredUsageMonth | undefined> = store.get(month);
+    request.onsuccess = () => store.put({ month, records: [...(request.result?.records ?? []), record] } satisfies StoredUsageMonth);
+    await done;
+  } catch (error) {
+    throw new StorageError(`Usage could not be recorded (${error instanceof Error ? error.message : String(error)}). The usage dashboard will miss this request.`, error);
+  }
+};
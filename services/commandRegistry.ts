@@ -0,0 +1,179 @@
+import { DEPLOYMENT_PROVIDERS } from './deploymentProviders';
+import { EXPORT_FORMATS, ExportFormat } from './conversationExport';
+import { MAX_CRAWL_PAGES } from './websiteService';
+
+/**
+ * Registry of explicit slash commands. Commands bypass intent routing; App
+ * maps every `CommandName` to the handler that runs it.
+ */
+
+export type CommandName = 'image' | 'search' | 'analyze' | 'deploy' | 'deployments' | 'modify' | 'clear' | 'export' | 'import' | 'help';
+
+export interface SlashCommand {
+  name: CommandName;
+  /** Usage line shown in autocomplete and `/help`, e.g. `/analyze <url> [question]`. */
+  usage: string;
+  description: string;
+  argument: 'none' | 'optional' | 'required';
+  /** Local commands act on the app itself and are not echoed into the chat. */
+  local?: boolean;
+  /** Returns an error message when the argument is invalid. */
+  validate?: (argument: string) => string | undefined;
+}
+
+const URL_REGEX = /^https?:\/\/\S+$/;
+
+const PROVIDER_IDS = DEPLOYMENT_PROVIDERS.map(provider => provider.id);
+
+export interface AnalyzeArguments {
+  /** One URL to analyze, or several to compare. */
+  urls: string[];
+  /** Linked same-origin pages to crawl besides the URL itself. */
+  crawlPages: number;
+  question: string;
+}
+
+/** Splits `<url> [url...] [--pages N] [question]`; `crawlPages` is NaN when N is not a number. */
+export const parseAnalyzeArgument = (argument: string): AnalyzeArguments => {
+  const words = argument.split(/\s+/);
+  const firstNonUrl = words.findIndex(word => !URL_REGEX.test(word));
+  // The first word is always taken as the URL, so validation can reject it.
+  const urlCount = firstNonUrl === -1 ? words.length : Math.max(firstNonUrl, 1);
+  const urls = words.slice(0, urlCount);
+  const rest = words.slice(urlCount).join(' ');
+  const pagesMatch = rest.match(/^--pages(?:=|\s+)(\S+)\s*([\s\S]*)$/);
+  return pagesMatch
+    ? { urls, crawlPages: Number(pagesMatch[1]), question: pagesMatch[2] }
+    : { urls, crawlPages: 0, question: rest };
+};
+
+const validateAnalyzeArgument = (argument: string): string | undefined => {
+  const { urls, crawlPages } = parseAnalyzeArgument(argument);
+  if (!URL_REGEX.test(urls[0])) return 'The first argument must be an http(s) URL.';
+  if (!Number.isInteger(crawlPages) || crawlPages < 0 || crawlPages > MAX_CRAWL_PAGES) return `--pages must be a whole number from 0 to ${MAX_CRAWL_PAGES}.`;
+  return undefined;
+};
+
+export const COMMANDS: SlashCommand[] = [
+  {
+    name: 'image',
+    usage: '/image <description>',
+    description: 'Generate images of the description with the current image options.',
+    argument: 'required',
+  },
+  {
+    name: 'search',
+    usage: '/search <query>',
+    description: 'Answer using live web search results.',
+    argument: 'required',
+  },
+  {
+    name: 'analyze',
+    usage: '/analyze <url> [url...] [--pages N] [question]',
+    description: 'Fetch a website and answer a question about it, or compare several. --pages also reads N pages each one links to on the same site.',
+    argument: 'required',
+    validate: validateAnalyzeArgument,
+  },
+  {
+    name: 'deploy',
+    usage: `/deploy [${PROVIDER_IDS.join('|')}]`,
+    description: 'Deploy the application, optionally choosing where. Defaults to the provider used last.',
+    argument: 'optional',
+    validate: argument => (PROVIDER_IDS.includes(argument as typeof PROVIDER_IDS[number]) ? undefined : `Unknown deployment provider "${argument}".`),
+  },
+  {
+    name: 'deployments',
+    usage: '/deployments',
+    description: 'List previous deployments and roll back to one of them.',
+    argument: 'none',
+    local: true,
+  },
+  {
+    name: 'modify',
+    usage: '/modify <change request>',
+    description: 'Propose changes to the application source code.',
+    argument: 'required',
+  },
+  {
+    name: 'clear',
+    usage: '/clear',
+    description: 'Clear the chat history.',
+    argument: 'none',
+    local: true,
+  },
+  {
+    name: 'export',
+    usage: `/export [${EXPORT_FORMATS.join('|')}]`,
+    description: 'Download the conversation. Markdown and HTML are for sharing; JSON can be imported again.',
+    argument: 'optional',
+    local: true,
+    validate: argument => (EXPORT_FORMATS.includes(argument.toLowerCase() as ExportFormat) ? undefined : `Unknown export format "${argument}".`),
+  },
+  {
+    name: 'import',
+    usage: '/import',
+    description: 'Open a conversation exported as JSON in a new session.',
+    argument: 'none',
+    local: true,
+  },
+  {
+    name: 'help',
+    usage: '/help',
+    description: 'List the available commands.',
+    argument: 'none',
+  },
+];
+
+export type CommandParseResult =
+  | { ok: true; command: SlashCommand; argument: string }
+  | { ok: false; error: string };
+
+export const isCommand = (input: string): boolean => input.trimStart().startsWith('/');
+
+export const findCommand = (name: string): SlashCommand | undefined =>
+  COMMANDS.find(command => command.name === name.toLowerCase());
+
+/**
+ * Parses `/name argument...` into a command and its (trimmed) argument.
+ * Returns `null` when the input is not a command at all.
+ */
+export const parseCommand = (input: string): CommandParseResult | null => {
+  if (!isCommand(input)) return null;
+
+  const match = input.trim().match(/^\/(\S*)\s*([\s\S]*)$/);
+  const name = match?.[1] ?? '';
+  const argument = (match?.[2] ?? '').trim();
+  const command = findCommand(name);
+
+  if (!command) {
+    return { ok: false, error: `Unknown command "/${name}". Type /help to see the available commands.` };
+  }
+  if (command.argument === 'required' && !argument) {
+    return { ok: false, error: `Missing argument. Usage: ${command.usage}` };
+  }
+  if (command.argument === 'none' && argument) {
+    return { ok: false, error: `/${command.name} takes no arguments. Usage: ${command.usage}` };
+  }
+  const validationError = argument ? command.validate?.(argument) : undefined;
+  if (validationError) {
+    return { ok: false, error: `${validationError} Usage: ${command.usage}` };
+  }
+
+  return { ok: true, command, argument };
+};
+
+/**
+ * Commands matching what has been typed so far. Suggestions are only offered
+ * while the command name itself is being typed.
+ */
+export const getCommandSuggestions = (input: string): SlashCommand[] => {
+  const match = input.match(/^\/(\S*)$/);
+  if (!match) return [];
+  const prefix = match[1].toLowerCase();
+  return COMMANDS.filter(command => command.name.startsWith(prefix));
+};
+
+export const formatHelp = (): string => {
+  const lines = COMMANDS.map(command => `${command.usage}\n    ${command.description}`);
+  return `Available commands:\n\n${lines.join('\n')}`;
+};
@@ -0,0 +1,218 @@
+export interface ExtractedPage {
+  url: string;
+  title: string;
+  /** Main content as Markdown-like structured text. */
+  text: string;
+  /** Absolute http(s) links found in the main content, without fragments. */
+  links: string[];
+}
+
+// Elements that never hold the content a reader came for.
+const NOISE_SELECTOR = [
+  'script', 'style', 'noscript', 'template', 'svg', 'canvas', 'iframe', 'object', 'embed', 'form', 'button', 'input', 'select',
+  'nav', 'footer', 'aside', 'header:not(article header)', '[role="navigation"]', '[role="banner"]', '[role="contentinfo"]',
+  '[role="complementary"]', '[aria-hidden="true"]', '[hidden]',
+].join(',');
+
+const NOISE_HINT = /\b(comment|cookie|consent|banner|sidebar|footer|share|social|related|promo|advert|ad-|newsletter|subscribe|popup|modal|breadcrumb|menu)\b/i;
+
+const BLOCK_TAGS = new Set(['P', 'DIV', 'SECTION', 'ARTICLE', 'MAIN', 'BLOCKQUOTE', 'FIGURE', 'FIGCAPTION', 'DL', 'DT', 'DD', 'ADDRESS', 'DETAILS', 'SUMMARY']);
+
+const normalizeSpace = (text: string): string => text.replace(/\s+/g, ' ');
+
+// Markers go around the words only; the whitespace around them stays outside.
+const wrap = (content: string, marker: string): string => {
+  const [, before, inner, after] = content.match(/^(\s*)([\s\S]*?)(\s*)$/)!;
+  return inner ? `${before}${marker}${inner}${marker}${after}` : content;
+};
+
+const textLength = (element: Element): number => normalizeSpace(element.textContent ?? '').trim().length;
+
+const linkTextLength = (element: Element): number =>
+  Array.from(element.querySelectorAll('a')).reduce((total, link) => total + textLength(link), 0);
+
+/**
+ * Scores block containers by the amount of paragraph text they hold, minus
+ * text that sits in links, and returns the best one. This is the core idea of
+ * readability-style extractors: navigation is link-heavy, articles are not.
+ */
+const findMainContent = (body: HTMLElement): Element => {
+  const semantic = body.querySelector('article, main, [role="main"], [itemprop="articleBody"]');
+  if (semantic && textLength(semantic) > 200) return semantic;
+
+  const scores = new Map<Element, number>();
+  for (const paragraph of Array.from(body.querySelectorAll('p, pre, td, li'))) {
+    const length = textLength(paragraph);
+    if (length < 25) continue;
+    const score = 1 + Math.min(length / 100, 3) + (paragraph.textContent?.split(',').length ?? 0) * 0.1;
+    // Credit the parent fully and the grandparent half, as readability does.
+    const parent = paragraph.parentElement;
+    if (parent) scores.set(parent, (scores.get(parent) ?? 0) + score);
+    const grandparent = parent?.parentElement;
+    if (grandparent) scores.set(grandparent, (scores.get(grandparent) ?? 0) + score / 2);
+  }
+
+  let best: Element = body;
+  let bestScore = 0;
+  for (const [element, score] of scores) {
+    const length = textLength(element) || 1;
+    const adjusted = score * (1 - linkTextLength(element) / length);
+    if (adjusted > bestScore) {
+      best = element;
+      bestScore = adjusted;
+    }
+  }
+  return best;
+};
+
+const resolveUrl = (href: string, baseUrl: string): string | undefined => {
+  try {
+    const url = new URL(href, baseUrl);
+    if (!/^https?:$/.test(url.protocol)) return undefined;
+    url.hash = '';
+    return url.toString();
+  } catch {
+    return undefined;
+  }
+};
+
+/** Serializes an element as structured text: headings, lists, tables and links survive. */
+const serialize = (root: Element, baseUrl: string, links: Set<string>): string => {
+  const blocks: string[] = [];
+
+  const inline = (node: Node): string => {
+    if (node.nodeType === Node.TEXT_NODE) return normalizeSpace(node.textContent ?? '');
+    if (node.nodeType !== Node.ELEMENT_NODE) return '';
+    const element = node as Element;
+    const content = Array.from(element.childNodes).map(inline).join('');
+    switch (element.tagName) {
+      case 'A': {
+        const url = resolveUrl(element.getAttribute('href') ?? '', baseUrl);
+        const label = content.trim();
+        if (!url || !label) return content;
+        links.add(url);
+        return `[${label}](${url})`;
+      }
+      case 'STRONG':
+      case 'B':
+        return wrap(content, '**');
+      case 'EM':
+      case 'I':
+        return wrap(content, '_');
+      case 'CODE':
+        return wrap(content, '`');
+      case 'BR':
+        return '\n';
+      case 'IMG': {
+        const alt = element.getAttribute('alt')?.trim();
+        return alt ? `[image: ${alt}]` : '';
+      }
+      default:
+        return content;
+    }
+  };
+
+  const table = (element: Element): string => {
+    const rows = Array.from(element.querySelectorAll('tr')).map(row =>
+      Array.from(row.querySelectorAll('th, td')).map(cell => inline(cell).trim().replace(/\|/g, '\\|')));
+    if (rows.length === 0) return '';
+    const width = Math.max(...rows.map(row => row.length));
+    const line = (cells: string[]) => `| ${[...cells, ...Array(width - cells.length).fill('')].join(' | ')} |`;
+    return [line(rows[0]), line(Array(width).fill('---')), ...rows.slice(1).map(line)].join('\n');
+  };
+
+  const list = (element: Element, depth: number): string =>
+    Array.from(element.children)
+      .filter(child => child.tagName === 'LI')
+      .map((item, i) => {
+        const marker = element.tagName === 'OL' ? `${i + 1}.` : '-';
+        const nested = Array.from(item.children).filter(child => child.tagName === 'UL' || child.tagName === 'OL');
+        const clone = item.cloneNode(true) as Element;
+        clone.querySelectorAll(':scope > ul, :scope > ol').forEach(child => child.remove());
+        const text = `${'  '.repeat(depth)}${marker} ${inline(clone).trim()}`;
+        return [text, ...nested.map(child => list(child, depth + 1))].join('\n');
+      })
+      .join('\n');
+
+  const walk = (element: Element) => {
+    let paragraph = '';
+    const flush = () => {
+      if (paragraph.trim()) blocks.push(paragraph.trim().replace(/ *\n */g, '\n'));
+      paragraph = '';
+    };
+
+    for (const node of Array.from(element.childNodes)) {
+      if (node.nodeType !== Node.ELEMENT_NODE) {
+        paragraph += inline(node);
+        continue;
+      }
+      const child = node as Element;
+      const tag = child.tagName;
+      if (/^H[1-6]$/.test(tag)) {
+        flush();
+        const heading = inline(child).trim();
+        if (heading) blocks.push(`${'#'.repeat(Number(tag[1]))} ${heading}`);
+      } else if (tag === 'UL' || tag === 'OL') {
+        flush();
+        blocks.push(list(child, 0));
+      } else if (tag === 'TABLE') {
+        flush();
+        blocks.push(table(child));
+      } else if (tag === 'PRE') {
+        flush();
+        blocks.push(`\`\`\`\n${child.textContent?.trim() ?? ''}\n\`\`\``);
+      } else if (tag === 'HR') {
+        flush();
+      } else if (BLOCK_TAGS.has(tag)) {
+        flush();
+        if (tag === 'BLOCKQUOTE') blocks.push(`> ${inline(child).trim()}`);
+        else walk(child);
+      } else {
+        paragraph += inline(child);
+      }
+    }
+    flush();
+  };
+
+  walk(root);
+  return blocks.filter(Boolean).join('\n\n');
+};
+
+/**
+ * Extracts the readable main content of an HTML document as structured text,
+ * together with the links inside it, which a crawl can follow.
+ */
+export const extractContent = (html: string, url: string): ExtractedPage => {
+  const doc = new DOMParser().parseFromString(html, 'text/html');
+  const baseUrl = resolveUrl(doc.querySelector('base[href]')?.getAttribute('href') ?? '', url) ?? url;
+  const title = normalizeSpace(doc.querySelector('meta[property="og:title"]')?.getAttribute('content') || doc.title || url).trim();
+
+  doc.querySelectorAll(NOISE_SELECTOR).forEach(element => element.remove());
+  doc.querySelectorAll('[class], [id]').forEach(element => {
+    const hint = `${element.getAttribute('class') ?? ''} ${element.id}`;
+    // Only small boxes are dropped by name, so a wrapper called "content-sidebar-layout" survives.
+    if (NOISE_HINT.test(hint) && textLength(element) < 1000) element.remove();
+  });
+
+  const links = new Set<string>();
+  const text = serialize(findMainContent(doc.body ?? doc.documentElement), baseUrl, links);
+  return { url, title, text, links: [...links] };
+};
+
+/**
+ * Splits text into chunks of at most `maxChars`, preferring paragraph, then
+ * line, then sentence boundaries so each chunk stays readable on its own.
+ */
+export const chunkText = (text: string, maxChars: number): string[] => {
+  const chunks: string[] = [];
+  let rest = text.trim();
+  while (rest.length > maxChars) {
+    const window = rest.slice(0, maxChars);
+    const cut = [window.lastIndexOf('\n\n'), window.lastIndexOf('\n'), window.lastIndexOf('. ')]
+      .find(index => index > maxChars / 2) ?? maxChars;
+    chunks.push(rest.slice(0, cut + (rest[cut] === '.' ? 1 : 0)).trim());
+    rest = rest.slice(cut + (rest[cut] === '.' ? 1 : 0)).trim();
+  }
+  if (rest) chunks.push(rest);
+  return chunks;
+};
@@ -0,0 +1,104 @@
+import { Content, Part } from "@google/genai";
+import { Message, MessageType, Attachment } from '../types';
+
+export interface ContextBudget {
+  /** Maximum number of prior messages sent verbatim. */
+  maxTurns: number;
+  /** Approximate token ceiling for the verbatim part of the history. */
+  maxTokens: number;
+}
+
+export const DEFAULT_CONTEXT_BUDGET: ContextBudget = {
+  maxTurns: 20,
+  maxTokens: 8000,
+};
+
+// Only conversational messages carry meaning for follow-up questions.
+// Errors, images, deployments and code modifications are left out.
+const CONTEXT_MESSAGE_TYPES: MessageType[] = ['text', 'grounded_text', 'website_analysis'];
+
+let contextBudget: ContextBudget = DEFAULT_CONTEXT_BUDGET;
+
+export const getContextBudget = (): ContextBudget => contextBudget;
+
+export const setContextBudget = (budget: Partial<ContextBudget>): void => {
+  contextBudget = { ...contextBudget, ...budget };
+};
+
+/**
+ * Rough token estimate (~4 characters per token), good enough for budgeting.
+ */
+export const estimateTokens = (text: string): number => Math.ceil(text.length / 4);
+
+export interface ConversationWindow {
+  /** Older messages that no longer fit the budget and should be summarized. */
+  overflow: Message[];
+  /** Most recent messages that fit the budget, oldest first. */
+  recent: Message[];
+}
+
+/**
+ * Splits the history into the recent messages that fit the budget and the
+ * older overflow that has to be summarized.
+ */
+export const splitHistory = (history: Message[], budget: ContextBudget = contextBudget): ConversationWindow => {
+  const eligible = history.filter(m => CONTEXT_MESSAGE_TYPES.includes(m.type) && m.text.trim() !== '');
+
+  let tokens = 0;
+  let start = eligible.length;
+  while (start > 0) {
+    const cost = estimateTokens(eligible[start - 1].text);
+    if (eligible.length - start >= budget.maxTurns || tokens + cost > budget.maxTokens) break;
+    tokens += cost;
+    start--;
+  }
+
+  return { overflow: eligible.slice(0, start), recent: eligible.slice(start) };
+};
+
+/**
+ * Formats messages as a plain transcript, used as input for summarization.
+ */
+export const toTranscript = (messages: Message[]): string =>
+  messages.map(m => `${m.sender === 'ai' ? 'Assistant' : 'User'}: ${m.text}`).join('\n\n');
+
+const appendTurn = (contents: Content[], role: 'user' | 'model', text: string, extraParts: Part[] = []) => {
+  const last = contents[contents.length - 1];
+  const parts = [{ text }, ...extraParts];
+  // Gemini expects alternating roles, so consecutive turns of the same role are merged.
+  if (last && last.role === role) {
+    last.parts = [...(last.parts ?? []), ...parts];
+  } else {
+    contents.push({ role, parts });
+  }
+};
+
+// Earlier attachments are only named; resending their content would exhaust the budget.
+const turnText = (message: Message): string =>
+  message.attachments?.length
+    ? `${message.text}\n[Attached: ${message.attachments.map(a => a.name).join(', ')}]`
+    : message.text;
+
+/**
+ * Builds the Gemini `contents` array: an optional summary of older turns,
+ * the recent messages, and finally the new prompt with its attachments as
+ * inline data.
+ */
+export const buildContents = (recent: Message[], prompt: string, summary?: string, attachments: Attachment[] = []): Content[] => {
+  const contents: Content[] = [];
+
+  if (summary) {
+    appendTurn(contents, 'user', `Summary of our earlier conversation:\n${summary}`);
+    appendTurn(contents, 'model', 'Understood. I will keep that context in mind.');
+  }
+
+  for (const message of recent) {
+    const role = message.sender === 'ai' ? 'model' : 'user';
+    // A conversation has to open with a user turn.
+    if (contents.length === 0 && role === 'model') continue;
+    appendTurn(contents, role, turnText(message));
+  }
+
+  appendTurn(contents, 'user', prompt, attachments.map(a => ({ inlineData: { mimeType: a.mimeType, data: a.data } })));
+  return contents;
+};
@@ -0,0 +1,85 @@
+import { describe, it, expect } from 'vitest';
+import { ChatSession, Message } from '../types';
+import { ConversationImportError, EXPORT_FORMAT_VERSION, parseConversationExport, toMarkdown } from './conversationExport';
+import { DEFAULT_PERSONA } from './personas';
+import { linkMessages } from './messageTree';
+
+const message = (id: string, parentId?: string): Partial<Message> =>
+  ({ id, sender: 'user', type: 'text', text: `Message ${id}`, ...(parentId && { parentId }) });
+
+const exportOf = (messages: Partial<Message>[], activeMessageId?: string): string =>
+  JSON.stringify({
+    format: 'alfreyaa-conversation',
+    version: EXPORT_FORMAT_VERSION,
+    exportedAt: new Date(0).toISOString(),
+    session: { title: 'Imported', createdAt: 0, messages, ...(activeMessageId && { activeMessageId }) },
+  });
+
+describe('parseConversationExport', () => {
+  it('imports a conversation with branches', () => {
+    const session = parseConversationExport(exportOf([message('a'), message('b', 'a'), message('c', 'a')], 'c'), []);
+
+    expect(session.messages.map(({ id, parentId }) => [id, parentId])).toEqual([['a', undefined], ['b', 'a'], ['c', 'a']]);
+    expect(session.activeMessageId).toBe('c');
+    expect(session.title).toBe('Imported');
+  });
+
+  it('renames ids that are already stored, along with the parents pointing at them', () => {
+    const existing = { id: 'old', messages: [message('a') as Message] } as ChatSession;
+    const session = parseConversationExport(exportOf([message('a'), message('b', 'a')], 'a'), [existing]);
+
+    const [root, reply] = session.messages;
+    expect(root.id).not.toBe('a');
+    expect(reply).toMatchObject({ id: 'b', parentId: root.id });
+    expect(session.activeMessageId).toBe(root.id);
+  });
+
+  it('rejects a message that is its own parent', () => {
+    expect(() => parseConversationExport(exportOf([message('a'), message('b', 'b')]), []))
+      .toThrow(new ConversationImportError('Invalid conversation file: session.messages[1].parentId must not form a cycle.'));
+  });
+
+  it('rejects parents that form a cycle', () => {
+    expect(() => parseConversationExport(exportOf([message('root'), message('a', 'b'), message('b', 'a')]), []))
+      .toThrow(new ConversationImportError('Invalid conversation file: session.messages[1].parentId must not form a cycle.'));
+  });
+
+  it('rejects ids that repeat within the file', () => {
+    expect(() => parseConversationExport(exportOf([message('a'), message('b', 'a'), message('b', 'a')]), []))
+      .toThrow(new ConversationImportError('Invalid conversation file: session.messages[2].id must be unique.'));
+  });
+
+  it('keeps the usage of messages', () => {
+    const usage = { at: 1, models: [{ capability: 'chat', model: 'text-model', promptTokens: 10, cachedTokens: 0, outputTokens: 5, images: 0 }] };
+    const session = parseConversationExport(exportOf([{ ...message('a'), sender: 'ai', usage } as Partial<Message>]), []);
+
+    expect(session.messages[0].usage).toEqual(usage);
+    expect(() => parseConversationExport(exportOf([{ ...message('a'), usage: { at: 1, models: [{ ...usage.models[0], capability: 'dance' }] } } as unknown as Partial<Message>]), []))
+      .toThrow(new ConversationImportError('Invalid conversation file: session.messages[0].usage.models[0] must have a string model and a known capability.'));
+  });
+
+  it('rejects parents that are not in the file', () => {
+    expect(() => parseConversationExport(exportOf([message('a'), message('b', 'missing')]), []))
+      .toThrow(new ConversationImportError('Invalid conversation file: session.messages[1].parentId must be the id of another message.'));
+  });
+});
+
+const groundedReply = (id: string, text: string, uris: string[]): Message =>
+  ({ id, sender: 'ai', type: 'grounded_text', text, timestamp: 0, sources: uris.map(uri => ({ uri, title: uri })) }) as Message;
+
+const conversation = (messages: Message[]): ChatSession =>
+  ({ id: 'session', title: 'Exported', createdAt: 0, updatedAt: 0, messages: linkMessages(messages) }) as ChatSession;
+
+describe('toMarkdown', () => {
+  it('renumbers the citation markers of each message to the footnotes of the document', () => {
+    const markdown = toMarkdown(conversation([
+      groundedReply('a', 'First [1] and [2].', ['https://a.example', 'https://b.example']),
+      groundedReply('b', 'Second [1], not [3] or `xs[1]`, and [a link](https://c.example).', ['https://c.example']),
+    ]), DEFAULT_PERSONA);
+
+    expect(markdown).toContain('First [^1] and [^2].');
+    expect(markdown).toContain('Second [^3], not [3] or `xs[1]`, and [a link](https://c.example).');
+    expect(markdown).toContain('Sources: [^3]');
+    expect(markdown).toContain('[^3]: [https://c.example](https://c.example)');
+  });
+});
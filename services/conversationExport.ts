@@ -0,0 +1,340 @@
+import { ChatSession, Message, MessageType, Sender, Source, DeploymentStatus, CodeChange, Attachment, ImageGeneration, AnalyzedUrl, AnalyzedUrlStatus, Usage, ModelUsage } from '../types';
+import { MODEL_CAPABILITIES, ModelCapability } from './modelSettings';
+import { ASPECT_RATIOS, STYLE_PRESETS, MAX_IMAGES_PER_REQUEST } from './imageOptions';
+import { createSession } from './sessionStore';
+import { Persona, userLabel } from './personas';
+import { activePath, linkMessages } from './messageTree';
+
+export type ExportFormat = 'markdown' | 'html' | 'json';
+
+export const EXPORT_FORMATS: ExportFormat[] = ['markdown', 'html', 'json'];
+
+/** Version of the JSON export; bump it and extend `parseConversationExport` when the shape changes. */
+export const EXPORT_FORMAT_VERSION = 4;
+
+const EXPORT_FORMAT_ID = 'alfreyaa-conversation';
+
+export interface ConversationExport {
+  format: typeof EXPORT_FORMAT_ID;
+  version: number;
+  exportedAt: string;
+  session: Pick<ChatSession, 'title' | 'createdAt' | 'updatedAt' | 'messages' | 'activeMessageId'>;
+}
+
+export class ConversationImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ConversationImportError';
+  }
+}
+
+export const senderNames = (persona: Persona): Record<Sender, string> => ({ user: userLabel(persona), ai: persona.assistantName });
+
+export const formatDate = (timestamp: number): string => new Date(timestamp).toLocaleString();
+
+// Documents show the branch being viewed. Replies still streaming, or with no text or attachments yet, are left out.
+export const exportableMessages = (session: ChatSession): Message[] =>
+  activePath(session).filter(message => !message.isStreaming && (message.text.trim() !== '' || !!message.attachments?.length));
+
+// `[n]` citation markers, but not links or footnotes; code spans and blocks are split off first.
+const CITATION_MARKER = /\[(\d+)\](?![(:[])/g;
+const CODE = /(```[\s\S]*?(?:```|$)|`[^`\n]*`)/;
+
+/** Rewrites the `[n]` citation markers of a message to references to the document's footnotes. */
+const toFootnoteReferences = (text: string, sourceCount: number, firstFootnote: number): string =>
+  text.split(CODE).map((part, i) => (i % 2 === 1 ? part : part.replace(CITATION_MARKER, (marker, n: string) => (
+    Number(n) >= 1 && Number(n) <= sourceCount ? `[^${firstFootnote + Number(n) - 1}]` : marker
+  )))).join('');
+
+/**
+ * Renders the conversation as Markdown. Grounded sources become numbered
+ * footnotes shared across the document, with the citation markers of each
+ * message renumbered to match; images are embedded as data URLs.
+ */
+export const toMarkdown = (session: ChatSession, persona: Persona): string => {
+  const names = senderNames(persona);
+  const footnotes: string[] = [];
+  const blocks = exportableMessages(session).map(message => {
+    const lines = [`### ${names[message.sender]}`, ''];
+    const firstFootnote = footnotes.length + 1;
+    const sources = message.sources ?? [];
+    sources.forEach((source, i) => footnotes.push(`[^${firstFootnote + i}]: [${source.title}](${source.uri})`));
+    const text = toFootnoteReferences(message.text, sources.length, firstFootnote);
+
+    switch (message.type) {
+      case 'error':
+        lines.push(`> **Error:** ${message.text}`);
+        break;
+      case 'image':
+        lines.push(message.text);
+        if (message.imageGeneration) lines.push('', `Prompt: ${message.imageGeneration.prompt}`);
+        lines.push('', ...(message.images ?? []).map((url, i) => `![Generated image ${i + 1}](${url})`));
+        break;
+      case 'deployment':
+        lines.push(`**Deployment (${message.deploymentStatus ?? 'unknown'}):** ${message.text}`);
+        if (message.deploymentUrl) lines.push('', `<${message.deploymentUrl}>`);
+        break;
+      case 'code_modification':
+        lines.push(message.codeModification?.explanation || text, '');
+        for (const change of message.codeModification?.changes ?? []) {
+          lines.push(`- \`${change.file}\` (${change.status}): ${change.reason}`);
+        }
+        break;
+      default:
+        lines.push(text);
+    }
+
+    if (message.attachments?.length) {
+      lines.push('', `Attachments: ${message.attachments.map(attachment => `\`${attachment.name}\``).join(', ')}`);
+    }
+    if (message.analyzedUrls?.length) {
+      lines.push('', 'Analyzed sources:', ...message.analyzedUrls.map(({ url, title, status }) =>
+        `- [${title ?? url}](${url})${status === 'ok' ? '' : ` (${status})`}`));
+    }
+    if (sources.length > 0) {
+      lines.push('', `Sources: ${sources.map((_, i) => `[^${firstFootnote + i}]`).join(' ')}`);
+    }
+    return lines.join('\n');
+  });
+
+  return [
+    `# ${session.title}`,
+    '',
+    `_Exported from Alfreyaa on ${formatDate(Date.now())}. Conversation started ${formatDate(session.createdAt)}._`,
+    '',
+    blocks.join('\n\n---\n\n'),
+    ...(footnotes.length > 0 ? ['', '---', '', ...footnotes] : []),
+    '',
+  ].join('\n');
+};
+
+export const toJson = (session: ChatSession): string => {
+  const data: ConversationExport = {
+    format: EXPORT_FORMAT_ID,
+    version: EXPORT_FORMAT_VERSION,
+    exportedAt: new Date().toISOString(),
+    session: {
+      title: session.title,
+      createdAt: session.createdAt,
+      updatedAt: session.updatedAt,
+      messages: session.messages.map(({ isStreaming, ...message }) => message),
+      ...(session.activeMessageId && { activeMessageId: session.activeMessageId }),
+    },
+  };
+  return JSON.stringify(data, null, 2);
+};
+
+type Exporter = (session: ChatSession, persona: Persona) => string | Promise<string>;
+
+// The HTML exporter renders with react-dom/server, so it is only loaded once a page is exported.
+const EXPORTERS: Record<ExportFormat, { render: Exporter; mimeType: string; extension: string }> = {
+  markdown: { render: toMarkdown, mimeType: 'text/markdown', extension: 'md' },
+  html: { render: async (session, persona) => (await import('./htmlExport')).toHtml(session, persona), mimeType: 'text/html', extension: 'html' },
+  json: { render: toJson, mimeType: 'application/json', extension: 'json' },
+};
+
+const slugify = (title: string): string =>
+  title.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '').slice(0, 50) || 'chat';
+
+/** Downloads the session in the given format through a temporary link. */
+export const exportConversation = async (session: ChatSession, format: ExportFormat, persona: Persona): Promise<void> => {
+  const { render, mimeType, extension } = EXPORTERS[format];
+  const url = URL.createObjectURL(new Blob([await render(session, persona)], { type: mimeType }));
+  const anchor = document.createElement('a');
+  anchor.href = url;
+  anchor.download = `alfreyaa-${slugify(session.title)}-${new Date().toISOString().slice(0, 10)}.${extension}`;
+  anchor.click();
+  URL.revokeObjectURL(url);
+};
+
+const SENDERS: Sender[] = ['user', 'ai'];
+const MESSAGE_TYPES: MessageType[] = ['text', 'image', 'error', 'grounded_text', 'deployment', 'website_analysis', 'code_modification'];
+const DEPLOYMENT_STATUSES: DeploymentStatus[] = [
+  'initializing', 'creating_repo', 'pushing_files', 'creating_site', 'deploying', 'building', 'success', 'error', 'timed_out', 'cancelled',
+];
+
+const isRecord = (value: unknown): value is Record<string, unknown> => typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const expect = (condition: boolean, path: string, problem: string): void => {
+  if (!condition) throw new ConversationImportError(`Invalid conversation file: ${path} ${problem}.`);
+};
+
+const optionalString = (value: Record<string, unknown>, key: string, path: string): void => {
+  expect(value[key] === undefined || typeof value[key] === 'string', `${path}.${key}`, 'must be a string');
+};
+
+const validateSource = (value: unknown, path: string): Source => {
+  expect(isRecord(value) && typeof value.uri === 'string' && typeof value.title === 'string', path, 'must have a string uri and title');
+  const { uri, title } = value as Record<string, string>;
+  return { uri, title };
+};
+
+const validateCodeChange = (value: unknown, path: string): CodeChange => {
+  expect(isRecord(value), path, 'must be an object');
+  const change = value as Record<string, unknown>;
+  for (const key of ['file', 'reason', 'originalContent', 'newContent']) {
+    expect(typeof change[key] === 'string', `${path}.${key}`, 'must be a string');
+  }
+  expect(['pending', 'accepted', 'rejected'].includes(change.status as string), `${path}.status`, 'must be pending, accepted or rejected');
+  // Imported changes are never applied to this app; they can be reviewed again instead.
+  return { ...(change as unknown as CodeChange), status: change.status === 'accepted' ? 'pending' : change.status as CodeChange['status'] };
+};
+
+const validateAttachment = (value: unknown, path: string): Attachment => {
+  expect(isRecord(value), path, 'must be an object');
+  const attachment = value as Record<string, unknown>;
+  for (const key of ['id', 'name', 'mimeType', 'data']) {
+    expect(typeof attachment[key] === 'string', `${path}.${key}`, 'must be a string');
+  }
+  expect(typeof attachment.size === 'number', `${path}.size`, 'must be a number');
+  const { id, name, mimeType, size, data } = attachment as unknown as Attachment;
+  return { id, name, mimeType, size, data };
+};
+
+const ANALYZED_URL_STATUSES: AnalyzedUrlStatus[] = ['ok', 'failed', 'truncated'];
+
+const validateAnalyzedUrl = (value: unknown, path: string): AnalyzedUrl => {
+  expect(isRecord(value) && typeof value.url === 'string', path, 'must have a string url');
+  const entry = value as Record<string, unknown>;
+  expect(ANALYZED_URL_STATUSES.includes(entry.status as AnalyzedUrlStatus), `${path}.status`, `must be one of ${ANALYZED_URL_STATUSES.join(', ')}`);
+  optionalString(entry, 'title', path);
+  optionalString(entry, 'detail', path);
+  const { url, status, title, detail } = entry as unknown as AnalyzedUrl;
+  return { url, status, ...(title !== undefined && { title }), ...(detail !== undefined && { detail }) };
+};
+
+const validateModelUsage = (value: unknown, path: string): ModelUsage => {
+  expect(isRecord(value) && typeof value.model === 'string' && (value.capability as string) in MODEL_CAPABILITIES, path, 'must have a string model and a known capability');
+  const entry = value as Record<string, unknown>;
+  for (const key of ['promptTokens', 'cachedTokens', 'outputTokens', 'images']) {
+    expect(typeof entry[key] === 'number' && entry[key] >= 0, `${path}.${key}`, 'must be a number of at least 0');
+  }
+  const { capability, model, promptTokens, cachedTokens, outputTokens, images } = entry as unknown as ModelUsage;
+  return { capability: capability as ModelCapability, model, promptTokens, cachedTokens, outputTokens, images };
+};
+
+const validateUsage = (value: unknown, path: string): Usage => {
+  expect(isRecord(value) && typeof value.at === 'number' && Array.isArray(value.models), path, 'must have a numeric at and a models array');
+  const { at, models } = value as { at: number; models: unknown[] };
+  return { at, models: models.map((entry, i) => validateModelUsage(entry, `${path}.models[${i}]`)) };
+};
+
+const validateImageGeneration = (value: unknown, path: string): ImageGeneration => {
+  expect(isRecord(value) && typeof value.prompt === 'string' && isRecord(value.options), path, 'must have a string prompt and options');
+  const { prompt, options } = value as { prompt: string; options: Record<string, unknown> };
+  expect(ASPECT_RATIOS.includes(options.aspectRatio as ImageGeneration['options']['aspectRatio']), `${path}.options.aspectRatio`, `must be one of ${ASPECT_RATIOS.join(', ')}`);
+  expect(Number.isInteger(options.numberOfImages) && (options.numberOfImages as number) >= 1 && (options.numberOfImages as number) <= MAX_IMAGES_PER_REQUEST, `${path}.options.numberOfImages`, `must be between 1 and ${MAX_IMAGES_PER_REQUEST}`);
+  expect(typeof options.style === 'string' && options.style in STYLE_PRESETS, `${path}.options.style`, 'is not a known style');
+  optionalString(options, 'negativePrompt', `${path}.options`);
+  const { aspectRatio, numberOfImages, style, negativePrompt } = options as unknown as ImageGeneration['options'];
+  return { prompt, options: { aspectRatio, numberOfImages, style, ...(negativePrompt !== undefined && { negativePrompt }) } };
+};
+
+/** Checks an untrusted value against the `Message` shape, keeping only known fields. */
+const validateMessage = (value: unknown, path: string): Message => {
+  expect(isRecord(value), path, 'must be an object');
+  const raw = value as Record<string, unknown>;
+  expect(typeof raw.id === 'string' && raw.id !== '', `${path}.id`, 'must be a non-empty string');
+  expect(typeof raw.text === 'string', `${path}.text`, 'must be a string');
+  expect(SENDERS.includes(raw.sender as Sender), `${path}.sender`, `must be one of ${SENDERS.join(', ')}`);
+  expect(MESSAGE_TYPES.includes(raw.type as MessageType), `${path}.type`, `must be one of ${MESSAGE_TYPES.join(', ')}`);
+  for (const key of ['parentId', 'imageUrl', 'deploymentUrl', 'analyzedUrl', 'model']) optionalString(raw, key, path);
+  expect(raw.images === undefined || (Array.isArray(raw.images) && raw.images.every(url => typeof url === 'string')), `${path}.images`, 'must be an array of strings');
+  expect(raw.deploymentStatus === undefined || DEPLOYMENT_STATUSES.includes(raw.deploymentStatus as DeploymentStatus), `${path}.deploymentStatus`, 'is not a known deployment status');
+  expect(raw.sources === undefined || Array.isArray(raw.sources), `${path}.sources`, 'must be an array');
+  expect(raw.analyzedUrls === undefined || Array.isArray(raw.analyzedUrls), `${path}.analyzedUrls`, 'must be an array');
+  expect(raw.attachments === undefined || Array.isArray(raw.attachments), `${path}.attachments`, 'must be an array');
+  expect(raw.deploymentLog === undefined || (Array.isArray(raw.deploymentLog) && raw.deploymentLog.every(line => typeof line === 'string')), `${path}.deploymentLog`, 'must be an array of strings');
+
+  const message: Message = { id: raw.id as string, text: raw.text as string, sender: raw.sender as Sender, type: raw.type as MessageType };
+  if (raw.parentId !== undefined) message.parentId = raw.parentId as string;
+  // Version 1 files hold a single `imageUrl`.
+  if (raw.images !== undefined) message.images = raw.images as string[];
+  else if (raw.imageUrl !== undefined) message.images = [raw.imageUrl as string];
+  if (raw.imageGeneration !== undefined) message.imageGeneration = validateImageGeneration(raw.imageGeneration, `${path}.imageGeneration`);
+  if (raw.sources !== undefined) message.sources = (raw.sources as unknown[]).map((source, i) => validateSource(source, `${path}.sources[${i}]`));
+  if (raw.deploymentStatus !== undefined) message.deploymentStatus = raw.deploymentStatus as DeploymentStatus;
+  if (raw.deploymentUrl !== undefined) message.deploymentUrl = raw.deploymentUrl as string;
+  if (raw.deploymentLog !== undefined) message.deploymentLog = raw.deploymentLog as string[];
+  // Files before version 3 hold a single `analyzedUrl`.
+  if (raw.analyzedUrls !== undefined) message.analyzedUrls = (raw.analyzedUrls as unknown[]).map((entry, i) => validateAnalyzedUrl(entry, `${path}.analyzedUrls[${i}]`));
+  else if (raw.analyzedUrl !== undefined) message.analyzedUrls = [{ url: raw.analyzedUrl as string, status: 'ok' }];
+  if (raw.attachments !== undefined) message.attachments = (raw.attachments as unknown[]).map((attachment, i) => validateAttachment(attachment, `${path}.attachments[${i}]`));
+  if (raw.model !== undefined) message.model = raw.model as string;
+  // Usage is shown with the message; the totals come from the ledger, so it is not counted again here.
+  if (raw.usage !== undefined) message.usage = validateUsage(raw.usage, `${path}.usage`);
+  if (raw.codeModification !== undefined) {
+    const modification = raw.codeModification;
+    expect(isRecord(modification) && typeof modification.explanation === 'string' && Array.isArray(modification.changes), `${path}.codeModification`, 'must have an explanation and a changes array');
+    const { explanation, changes } = modification as { explanation: string; changes: unknown[] };
+    message.codeModification = { explanation, changes: changes.map((change, i) => validateCodeChange(change, `${path}.codeModification.changes[${i}]`)) };
+  }
+  return message;
+};
+
+/**
+ * Parses and validates a JSON export into a new session. Message ids must be
+ * unique within the file and parents must not form a cycle; ids that already
+ * exist in `existingSessions` are replaced so the imported conversation never
+ * collides with the stored ones.
+ */
+export const parseConversationExport = (text: string, existingSessions: ChatSession[]): ChatSession => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new ConversationImportError('The file is not valid JSON.');
+  }
+
+  expect(isRecord(data) && data.format === EXPORT_FORMAT_ID, 'file', 'is not an Alfreyaa conversation export');
+  const file = data as Record<string, unknown>;
+  expect(typeof file.version === 'number', 'version', 'must be a number');
+  if ((file.version as number) > EXPORT_FORMAT_VERSION) {
+    throw new ConversationImportError(`This conversation was exported by a newer version of Alfreyaa (format ${file.version}).`);
+  }
+  expect(isRecord(file.session), 'session', 'must be an object');
+  const session = file.session as Record<string, unknown>;
+  expect(Array.isArray(session.messages), 'session.messages', 'must be an array');
+  optionalString(session, 'title', 'session');
+  optionalString(session, 'activeMessageId', 'session');
+
+  // Files before version 4 hold a single branch, in order.
+  const messages = linkMessages((session.messages as unknown[]).map((message, i) => validateMessage(message, `session.messages[${i}]`)));
+  const parents = new Map<string, string | undefined>();
+  for (const [i, message] of messages.entries()) {
+    expect(!parents.has(message.id), `session.messages[${i}].id`, 'must be unique');
+    parents.set(message.id, message.parentId);
+  }
+  for (const [i, message] of messages.entries()) {
+    expect(!message.parentId || parents.has(message.parentId), `session.messages[${i}].parentId`, 'must be the id of another message');
+    // Every branch must lead up to a root; the message tree would walk a cycle forever.
+    const seen = new Set([message.id]);
+    for (let parentId = message.parentId; parentId; parentId = parents.get(parentId)) {
+      expect(!seen.has(parentId), `session.messages[${i}].parentId`, 'must not form a cycle');
+      seen.add(parentId);
+    }
+  }
+
+  const takenIds = new Set(existingSessions.flatMap(s => s.messages.map(m => m.id)));
+  const ids = new Map<string, string>();
+  messages.forEach((message, i) => {
+    const id = takenIds.has(message.id) ? `${message.id}-imported-${Date.now()}-${i}` : message.id;
+    takenIds.add(id);
+    ids.set(message.id, id);
+  });
+  const resolved = messages.map(message => ({
+    ...message,
+    id: ids.get(message.id)!,
+    ...(message.parentId && { parentId: ids.get(message.parentId) }),
+  }));
+
+  const imported = createSession(resolved);
+  const activeMessageId = ids.get(session.activeMessageId as string);
+  return {
+    ...imported,
+    ...(activeMessageId && { activeMessageId }),
+    title: typeof session.title === 'string' && session.title.trim() ? session.title : imported.title,
+    createdAt: typeof session.createdAt === 'number' ? session.createdAt : imported.createdAt,
+    needsTitle: !(typeof session.title === 'string' && session.title.trim()),
+  };
+};
@@ -0,0 +1,182 @@
+import { DeploymentProvider, DeploymentContext, requestJson, pollUntilSettled, fileBase64, bestEffortSignal, LOG_TAIL_LINES, env } from './provider';
+
+const CLOUDFLARE_API_TOKEN = env('CLOUDFLARE_API_TOKEN');
+const CLOUDFLARE_ACCOUNT_ID = env('CLOUDFLARE_ACCOUNT_ID');
+const CLOUDFLARE_PROJECT = env('CLOUDFLARE_PROJECT') || 'alfreyaa';
+
+const cloudflareHeaders = (token = CLOUDFLARE_API_TOKEN) => ({ Authorization: `Bearer ${token}` });
+
+interface CloudflareResponse<T> {
+  success: boolean;
+  result: T;
+}
+
+interface CloudflareStage {
+  name: string;
+  status: 'idle' | 'active' | 'success' | 'failure' | 'canceled' | 'skipped';
+}
+
+interface CloudflareState {
+  subdomain: string;
+  /** Maps `/path` to the asset hash, as Cloudflare's deployment manifest expects. */
+  manifest: Record<string, string>;
+  deploymentId?: string;
+  url?: string;
+}
+
+const CONTENT_TYPES: Record<string, string> = {
+  html: 'text/html',
+  css: 'text/css',
+  js: 'application/javascript',
+  ts: 'application/javascript',
+  tsx: 'application/javascript',
+  json: 'application/json',
+  md: 'text/markdown',
+  svg: 'image/svg+xml',
+};
+
+const extensionOf = (path: string): string => path.split('.').pop()?.toLowerCase() ?? '';
+
+// Asset keys are 32 hex characters derived from the content and extension.
+const assetHash = async (base64Content: string, path: string): Promise<string> => {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(base64Content + extensionOf(path)));
+  return Array.from(new Uint8Array(digest)).map(b => b.toString(16).padStart(2, '0')).join('').slice(0, 32);
+};
+
+const projectUrl = ({ apiUrls }: DeploymentContext) =>
+  `${apiUrls.cloudflareApiUrl}/client/v4/accounts/${CLOUDFLARE_ACCOUNT_ID}/pages/projects/${CLOUDFLARE_PROJECT}`;
+
+const fetchDeploymentLog = async (deploymentUrl: string, signal?: AbortSignal): Promise<string[]> => {
+  try {
+    const { result } = await requestJson<CloudflareResponse<{ data: { line: string }[] }>>(
+      `${deploymentUrl}/history/logs`, { headers: cloudflareHeaders(), signal: bestEffortSignal(signal) }, 'Failed to read the deployment log.');
+    return result.data.map(entry => entry.line).slice(-LOG_TAIL_LINES);
+  } catch {
+    return [];
+  }
+};
+
+/**
+ * Direct upload to Cloudflare Pages. The files are served as they are, without
+ * a build step.
+ */
+export const cloudflarePagesProvider: DeploymentProvider<CloudflareState> = {
+  id: 'cloudflare-pages',
+  name: 'Cloudflare Pages',
+  description: `Upload the files as static assets to the Cloudflare Pages project "${CLOUDFLARE_PROJECT}".`,
+
+  missingCredentials: () => [
+    ...(CLOUDFLARE_API_TOKEN ? [] : ['CLOUDFLARE_API_TOKEN']),
+    ...(CLOUDFLARE_ACCOUNT_ID ? [] : ['CLOUDFLARE_ACCOUNT_ID']),
+  ],
+
+  authenticate: async ({ apiUrls, signal }) => {
+    await requestJson(`${apiUrls.cloudflareApiUrl}/client/v4/user/tokens/verify`, { headers: cloudflareHeaders(), signal }, 'Failed to authenticate with Cloudflare.');
+  },
+
+  prepare: async (context) => {
+    const { signal, onProgress } = context;
+    const existing = await fetch(projectUrl(context), { headers: cloudflareHeaders(), signal });
+    if (existing.ok) {
+      const { result } = await existing.json() as CloudflareResponse<{ subdomain: string }>;
+      return { subdomain: result.subdomain, manifest: {} };
+    }
+    if (existing.status !== 404) throw new Error(`Failed to look up the Cloudflare Pages project. Status: ${existing.status}`);
+
+    onProgress({ status: 'creating_site', message: `Creating Cloudflare Pages project ${CLOUDFLARE_PROJECT}...` });
+    const { result } = await requestJson<CloudflareResponse<{ subdomain: string }>>(
+      `${context.apiUrls.cloudflareApiUrl}/client/v4/accounts/${CLOUDFLARE_ACCOUNT_ID}/pages/projects`,
+      {
+        method: 'POST',
+        headers: { ...cloudflareHeaders(), 'Content-Type': 'application/json' },
+        body: JSON.stringify({ name: CLOUDFLARE_PROJECT, production_branch: 'main' }),
+        signal,
+      },
+      'Failed to create the Cloudflare Pages project.',
+    );
+    return { subdomain: result.subdomain, manifest: {} };
+  },
+
+  // Only assets Cloudflare reports as missing are uploaded.
+  upload: async (state, files, context) => {
+    const { apiUrls, signal, onProgress } = context;
+    onProgress({ status: 'pushing_files', message: 'Uploading assets to Cloudflare Pages...' });
+
+    const { result: { jwt } } = await requestJson<CloudflareResponse<{ jwt: string }>>(
+      `${projectUrl(context)}/upload-token`, { headers: cloudflareHeaders(), signal }, 'Failed to get an upload token.');
+    const assetHeaders = { ...cloudflareHeaders(jwt), 'Content-Type': 'application/json' };
+
+    // Empty files are uploaded too, so that they exist on the site as they do in the project.
+    const assets = await Promise.all(files.map(async file => {
+      const value = fileBase64(file);
+      return { path: file.path, value, hash: await assetHash(value, file.path) };
+    }));
+
+    const { result: missing } = await requestJson<CloudflareResponse<string[]>>(`${apiUrls.cloudflareApiUrl}/client/v4/pages/assets/check-missing`, {
+      method: 'POST',
+      headers: assetHeaders,
+      body: JSON.stringify({ hashes: assets.map(asset => asset.hash) }),
+      signal,
+    }, 'Failed to check existing assets.');
+
+    const toUpload = assets.filter(asset => missing.includes(asset.hash));
+    if (toUpload.length > 0) {
+      await requestJson(`${apiUrls.cloudflareApiUrl}/client/v4/pages/assets/upload`, {
+        method: 'POST',
+        headers: assetHeaders,
+        body: JSON.stringify(toUpload.map(asset => ({
+          key: asset.hash,
+          value: asset.value,
+          metadata: { contentType: CONTENT_TYPES[extensionOf(asset.path)] ?? 'application/octet-stream' },
+          base64: true,
+        }))),
+        signal,
+      }, 'Failed to upload assets.');
+    }
+
+    await requestJson(`${apiUrls.cloudflareApiUrl}/client/v4/pages/assets/upsert-hashes`, {
+      method: 'POST',
+      headers: assetHeaders,
+      body: JSON.stringify({ hashes: assets.map(asset => asset.hash) }),
+      signal,
+    }, 'Failed to register assets.');
+
+    return { ...state, manifest: Object.fromEntries(assets.map(asset => [`/${asset.path}`, asset.hash])) };
+  },
+
+  publish: async (state, context) => {
+    context.onProgress({ status: 'deploying', message: 'Creating the Cloudflare Pages deployment...' });
+    const form = new FormData();
+    form.append('manifest', JSON.stringify(state.manifest));
+    const { result } = await requestJson<CloudflareResponse<{ id: string; url: string }>>(`${projectUrl(context)}/deployments`, {
+      method: 'POST',
+      headers: cloudflareHeaders(),
+      body: form,
+      signal: context.signal,
+    }, 'Failed to create the Cloudflare Pages deployment.');
+    return { ...state, deploymentId: result.id, url: result.url };
+  },
+
+  pollStatus: async (state, context) => {
+    const deploymentUrl = `${projectUrl(context)}/deployments/${state.deploymentId}`;
+    const liveUrl = `https://${state.subdomain}`;
+
+    return pollUntilSettled(async () => {
+      const { result } = await requestJson<CloudflareResponse<{ latest_stage: CloudflareStage }>>(
+        deploymentUrl, { headers: cloudflareHeaders(), signal: context.signal }, 'Failed to read deployment status.');
+      const stage = result.latest_stage;
+      const key = `${stage.name}:${stage.status}`;
+
+      if (stage.status === 'failure' || stage.status === 'canceled') {
+        return { key, status: 'error', message: `The deployment failed on Cloudflare Pages during the ${stage.name} stage.`, log: await fetchDeploymentLog(deploymentUrl, context.signal) };
+      }
+      if (stage.name === 'deploy' && stage.status === 'success') {
+        return { key, status: 'success', message: 'Deployment complete. The application is now live.', url: liveUrl };
+      }
+      return { key, status: 'deploying', message: `Deploying on Cloudflare Pages (${stage.name})...`, url: state.url };
+    }, context, async () => {
+      // The deployment's own signal is aborted by now, so only the timeout applies.
+      await fetch(`${deploymentUrl}/cancel`, { method: 'POST', headers: cloudflareHeaders(), signal: bestEffortSignal() });
+    });
+  },
+};
@@ -0,0 +1,106 @@
+import { requestJson, sha1Hex, fileBytes, fileBase64, ProjectFile, env } from './provider';
+
+export const GITHUB_TOKEN = env('GITHUB_TOKEN');
+
+export const githubHeaders = () => ({ Authorization: `Bearer ${GITHUB_TOKEN}`, 'Content-Type': 'application/json' });
+
+export interface GitHubRepository {
+  full_name: string;
+  private: boolean;
+  default_branch: string;
+}
+
+export const getGitHubUser = (githubApiUrl: string, signal?: AbortSignal): Promise<{ login: string }> =>
+  requestJson(`${githubApiUrl}/user`, { headers: githubHeaders(), signal }, 'Failed to authenticate with GitHub.');
+
+/**
+ * Creates a repository. It is initialized so that the Git Data API has a
+ * branch to commit onto.
+ */
+export const createRepository = (githubApiUrl: string, name: string, description: string, signal?: AbortSignal): Promise<GitHubRepository> =>
+  requestJson(`${githubApiUrl}/user/repos`, {
+    method: 'POST',
+    headers: githubHeaders(),
+    body: JSON.stringify({ name, description, auto_init: true }),
+    signal,
+  }, 'Failed to create GitHub repository.');
+
+/**
+ * Computes the SHA-1 git uses for a blob, so unchanged files can be detected
+ * against the remote tree without uploading them.
+ */
+const gitBlobSha = async (file: ProjectFile): Promise<string> => {
+  const body = fileBytes(file);
+  const header = new TextEncoder().encode(`blob ${body.length}\0`);
+  const data = new Uint8Array(header.length + body.length);
+  data.set(header);
+  data.set(body, header.length);
+  return sha1Hex(data);
+};
+
+/**
+ * Pushes the project as a single commit using the Git Data API: one blob per
+ * changed file, a tree on top of the current one, a commit and a ref update.
+ * Returns the new commit SHA, or `null` when nothing changed.
+ */
+export const pushCommit = async (
+  repoFullName: string,
+  branch: string,
+  files: ProjectFile[],
+  githubApiUrl: string,
+  signal?: AbortSignal,
+): Promise<{ sha: string; changedFiles: number } | null> => {
+  const repoUrl = `${githubApiUrl}/repos/${repoFullName}`;
+  const headers = githubHeaders();
+
+  const ref = await requestJson<{ object: { sha: string } }>(`${repoUrl}/git/ref/heads/${branch}`, { headers, signal }, `Failed to read branch ${branch}.`);
+  const parent = await requestJson<{ tree: { sha: string } }>(`${repoUrl}/git/commits/${ref.object.sha}`, { headers, signal }, 'Failed to read the latest commit.');
+  const remoteTree = await requestJson<{ tree: { path: string; sha: string; type: string }[] }>(
+    `${repoUrl}/git/trees/${parent.tree.sha}?recursive=1`, { headers, signal }, 'Failed to read the repository tree.');
+  const remoteShas = new Map(remoteTree.tree.filter(entry => entry.type === 'blob').map(entry => [entry.path, entry.sha]));
+
+  const changed: ProjectFile[] = [];
+  for (const file of files) {
+    // Empty files are pushed too: a file a change emptied must not keep its old content.
+    if (remoteShas.get(file.path) !== await gitBlobSha(file)) changed.push(file);
+  }
+  if (changed.length === 0) return null;
+
+  const treeEntries = [];
+  for (const file of changed) {
+    const blob = await requestJson<{ sha: string }>(`${repoUrl}/git/blobs`, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({ content: fileBase64(file), encoding: 'base64' }),
+      signal,
+    }, `Failed to upload ${file.path}.`);
+    treeEntries.push({ path: file.path, mode: '100644', type: 'blob', sha: blob.sha });
+  }
+
+  const tree = await requestJson<{ sha: string }>(`${repoUrl}/git/trees`, {
+    method: 'POST',
+    headers,
+    body: JSON.stringify({ base_tree: parent.tree.sha, tree: treeEntries }),
+    signal,
+  }, 'Failed to create the git tree.');
+
+  const commit = await requestJson<{ sha: string }>(`${repoUrl}/git/commits`, {
+    method: 'POST',
+    headers,
+    body: JSON.stringify({
+      message: `Deploy Alfreyaa (${changed.length} file${changed.length === 1 ? '' : 's'} changed)`,
+      tree: tree.sha,
+      parents: [ref.object.sha],
+    }),
+    signal,
+  }, 'Failed to create the commit.');
+
+  await requestJson(`${repoUrl}/git/refs/heads/${branch}`, {
+    method: 'PATCH',
+    headers,
+    body: JSON.stringify({ sha: commit.sha }),
+    signal,
+  }, `Failed to update branch ${branch}.`);
+
+  return { sha: commit.sha, changedFiles: changed.length };
+};
@@ -0,0 +1,104 @@
+import { DeploymentProvider, requestJson, pollUntilSettled, env } from './provider';
+import { GITHUB_TOKEN, githubHeaders, getGitHubUser, createRepository, pushCommit } from './githubApi';
+
+const GITHUB_PAGES_REPO = env('GITHUB_PAGES_REPO') || 'alfreyaa-pages';
+
+interface GitHubPagesState {
+  repoFullName: string;
+  branch: string;
+  commit: { sha: string; changedFiles: number } | null;
+  pagesUrl?: string;
+}
+
+interface PagesBuild {
+  status: 'queued' | 'building' | 'built' | 'errored';
+  commit: string;
+  error?: { message: string | null };
+}
+
+/**
+ * Pushes to a dedicated repository and serves its default branch with
+ * GitHub Pages. The files are served as they are, without a build step.
+ */
+export const githubPagesProvider: DeploymentProvider<GitHubPagesState> = {
+  id: 'github-pages',
+  name: 'GitHub Pages',
+  description: `Push to the repository "${GITHUB_PAGES_REPO}" and serve it with GitHub Pages.`,
+
+  missingCredentials: () => (GITHUB_TOKEN ? [] : ['GITHUB_TOKEN']),
+
+  authenticate: async ({ apiUrls, signal }) => {
+    await getGitHubUser(apiUrls.githubApiUrl, signal);
+  },
+
+  prepare: async ({ apiUrls, signal, onProgress }) => {
+    const { login } = await getGitHubUser(apiUrls.githubApiUrl, signal);
+    const existing = await fetch(`${apiUrls.githubApiUrl}/repos/${login}/${GITHUB_PAGES_REPO}`, { headers: githubHeaders(), signal });
+    if (existing.ok) {
+      const repo = await existing.json();
+      return { repoFullName: repo.full_name, branch: repo.default_branch, commit: null };
+    }
+    if (existing.status !== 404) throw new Error(`Failed to look up the GitHub Pages repository. Status: ${existing.status}`);
+
+    onProgress({ status: 'creating_repo', message: `Creating new GitHub repository: ${GITHUB_PAGES_REPO}` });
+    const repo = await createRepository(apiUrls.githubApiUrl, GITHUB_PAGES_REPO, 'Alfreyaa AI Assistant served by GitHub Pages', signal);
+    return { repoFullName: repo.full_name, branch: repo.default_branch, commit: null };
+  },
+
+  upload: async (state, files, { apiUrls, signal, onProgress }) => {
+    onProgress({ status: 'pushing_files', message: `Pushing application source code to ${state.repoFullName}...` });
+    const commit = await pushCommit(state.repoFullName, state.branch, files, apiUrls.githubApiUrl, signal);
+    return { ...state, commit };
+  },
+
+  // Pages is enabled on the first deploy; afterwards every push triggers a build.
+  publish: async (state, { apiUrls, signal, onProgress }) => {
+    const pagesUrl = `${apiUrls.githubApiUrl}/repos/${state.repoFullName}/pages`;
+    const existing = await fetch(pagesUrl, { headers: githubHeaders(), signal });
+    if (existing.ok) {
+      const pages = await existing.json();
+      return { ...state, pagesUrl: pages.html_url };
+    }
+
+    onProgress({ status: 'creating_site', message: 'Enabling GitHub Pages...' });
+    const pages = await requestJson<{ html_url: string }>(pagesUrl, {
+      method: 'POST',
+      headers: githubHeaders(),
+      body: JSON.stringify({ build_type: 'legacy', source: { branch: state.branch, path: '/' } }),
+      signal,
+    }, 'Failed to enable GitHub Pages.');
+    return { ...state, pagesUrl: pages.html_url };
+  },
+
+  pollStatus: async (state, context) => {
+    if (!state.commit) {
+      return { status: 'success', message: 'No changes since the last deployment. The live application is up to date.', url: state.pagesUrl };
+    }
+    const { sha } = state.commit;
+    context.onProgress({ status: 'deploying', message: 'Waiting for GitHub Pages to build...' });
+
+    // GitHub Pages builds cannot be cancelled; cancelling only stops waiting.
+    return pollUntilSettled(async () => {
+      const build = await requestJson<PagesBuild>(
+        `${context.apiUrls.githubApiUrl}/repos/${state.repoFullName}/pages/builds/latest`,
+        { headers: githubHeaders(), signal: context.signal },
+        'Failed to read the GitHub Pages build status.',
+      );
+      if (build.commit !== sha) return undefined;
+
+      switch (build.status) {
+        case 'built':
+          return { key: build.status, status: 'success', message: 'Deployment complete. The application is now live.', url: state.pagesUrl };
+        case 'errored':
+          return {
+            key: build.status,
+            status: 'error',
+            message: 'The GitHub Pages build failed.',
+            log: build.error?.message ? build.error.message.split('\n') : undefined,
+          };
+        default:
+          return { key: build.status, status: 'building', message: `Building on GitHub Pages (${build.status})...`, url: state.pagesUrl };
+      }
+    }, context);
+  },
+};
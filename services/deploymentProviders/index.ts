@@ -0,0 +1,20 @@
+import { DeploymentProviderId } from './provider';
+import { AnyDeploymentProvider, hideProviderState } from './runner';
+import { netlifyProvider } from './netlifyProvider';
+import { vercelProvider } from './vercelProvider';
+import { cloudflarePagesProvider } from './cloudflarePagesProvider';
+import { githubPagesProvider } from './githubPagesProvider';
+import { zipProvider } from './zipProvider';
+
+// Each provider threads its own state type; the list only needs to run them.
+export const DEPLOYMENT_PROVIDERS: readonly AnyDeploymentProvider[] = [
+  hideProviderState(netlifyProvider),
+  hideProviderState(vercelProvider),
+  hideProviderState(cloudflarePagesProvider),
+  hideProviderState(githubPagesProvider),
+  hideProviderState(zipProvider),
+];
+
+export const DEFAULT_PROVIDER_ID: DeploymentProviderId = 'netlify';
+
+export const getDeploymentProvider = (id: string): AnyDeploymentProvider | undefined => DEPLOYMENT_PROVIDERS.find(provider => provider.id === id);
@@ -0,0 +1,175 @@
+import { createHash } from 'node:crypto';
+import { createServer, Server } from 'node:http';
+import { AddressInfo } from 'node:net';
+import { describe, it, expect, vi, beforeAll, afterAll, beforeEach } from 'vitest';
+import { DeploymentTarget } from '../../types';
+import { DeploymentCancelledError, ProgressUpdate, ProjectFile } from './provider';
+import { createDeploymentContext, runProvider } from './runner';
+import { netlifyProvider, mapNetlifyState } from './netlifyProvider';
+
+// The tokens are read when the providers are loaded, so they are set before the imports.
+vi.hoisted(() => {
+  process.env.GITHUB_TOKEN = 'github-test-token';
+  process.env.NETLIFY_TOKEN = 'netlify-test-token';
+});
+
+const TARGET: DeploymentTarget = {
+  repoFullName: 'alfreyaa/site',
+  branch: 'main',
+  netlifySiteId: 'site-1',
+  siteUrl: 'https://site-1.netlify.app',
+  createdAt: 0,
+};
+
+const FILES: ProjectFile[] = [
+  { path: 'index.html', content: '<!doctype html>', encoding: 'utf8' },
+  { path: 'App.tsx', content: 'export default () => null;', encoding: 'utf8' },
+];
+
+const gitBlobSha = (content: string) => createHash('sha1').update(`blob ${Buffer.byteLength(content)}\0${content}`).digest('hex');
+
+/**
+ * A mock of the GitHub and Netlify APIs, on one local port. The remote tree
+ * holds `remoteFiles`; the deploy of the pushed commit goes through
+ * `deployStates`, one per status poll, staying in the last.
+ */
+const mock = {
+  remoteFiles: [] as ProjectFile[],
+  deployStates: [] as string[],
+  errorMessage: undefined as string | undefined,
+  requests: [] as string[],
+};
+
+const handle = (method: string, path: string, body: unknown): unknown => {
+  if (path === '/user') return { login: 'alfreyaa' };
+  if (path === `/repos/${TARGET.repoFullName}/git/ref/heads/main`) return { object: { sha: 'head' } };
+  if (path === `/repos/${TARGET.repoFullName}/git/commits/head`) return { tree: { sha: 'tree' } };
+  if (path === `/repos/${TARGET.repoFullName}/git/trees/tree`) {
+    return { tree: mock.remoteFiles.map(file => ({ path: file.path, sha: gitBlobSha(file.content), type: 'blob' })) };
+  }
+  if (path === `/repos/${TARGET.repoFullName}/git/blobs`) return { sha: `blob-${mock.requests.length}` };
+  if (path === `/repos/${TARGET.repoFullName}/git/trees`) return { sha: 'new-tree' };
+  if (path === `/repos/${TARGET.repoFullName}/git/commits`) return { sha: 'new-commit' };
+  if (path === `/repos/${TARGET.repoFullName}/git/refs/heads/main`) return body;
+  if (path === `/api/v1/sites/${TARGET.netlifySiteId}/deploys`) {
+    const polls = mock.requests.filter(request => request.endsWith(path)).length;
+    const state = mock.deployStates[Math.min(polls - 1, mock.deployStates.length - 1)];
+    return [
+      { id: 'old', state: 'ready', created_at: '', commit_ref: 'head' },
+      { id: 'deploy-1', state, created_at: '', commit_ref: 'new-commit', ssl_url: 'https://deploy-1.netlify.app', error_message: state === 'error' ? mock.errorMessage : null },
+    ];
+  }
+  if (method === 'POST' && path === '/api/v1/deploys/deploy-1/cancel') return {};
+  return undefined;
+};
+
+let server: Server;
+let apiUrl: string;
+
+beforeAll(async () => {
+  server = createServer((req, res) => {
+    let body = '';
+    req.on('data', chunk => (body += chunk));
+    req.on('end', () => {
+      const path = new URL(req.url ?? '/', 'http://localhost').pathname;
+      mock.requests.push(`${req.method} ${path}`);
+      const result = handle(req.method ?? 'GET', path, body && JSON.parse(body));
+      res.writeHead(result === undefined ? 404 : 200, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify(result ?? { message: 'Not Found' }));
+    });
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  apiUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(() => new Promise<void>(resolve => server.close(() => resolve())));
+
+beforeEach(() => {
+  Object.assign(mock, { remoteFiles: [], deployStates: ['enqueued', 'building', 'ready'], errorMessage: undefined, requests: [] });
+});
+
+const deploy = (signal?: AbortSignal, files = FILES) => {
+  const progress: ProgressUpdate[] = [];
+  const onTarget = vi.fn();
+  const context = createDeploymentContext({
+    onProgress: update => progress.push(update),
+    onTarget,
+    signal,
+    rememberedTarget: TARGET,
+    githubApiUrl: apiUrl,
+    netlifyApiUrl: apiUrl,
+    pollIntervalMs: 1,
+    maxPollIntervalMs: 1,
+  });
+  return { result: runProvider(netlifyProvider, files, context), progress, onTarget };
+};
+
+describe('mapNetlifyState', () => {
+  it.each([
+    ['enqueued', 'deploying'],
+    ['new', 'deploying'],
+    ['building', 'building'],
+    ['uploading', 'building'],
+    ['ready', 'success'],
+    ['error', 'error'],
+    ['rejected', 'error'],
+    ['something_new', 'building'],
+  ])('maps %s to %s', (state, status) => {
+    expect(mapNetlifyState(state)).toBe(status);
+  });
+});
+
+describe('netlifyProvider', () => {
+  it('pushes the changed files and waits for the build of the commit', async () => {
+    mock.remoteFiles = [FILES[0]];
+    const { result, progress, onTarget } = deploy();
+
+    await expect(result).resolves.toMatchObject({ status: 'success', url: 'https://deploy-1.netlify.app' });
+    expect(mock.requests.filter(request => request.endsWith('/git/blobs'))).toHaveLength(1);
+    expect(progress.map(update => update.status)).toEqual(['pushing_files', 'deploying', 'deploying', 'building']);
+    expect(progress[1].message).toContain('Pushed 1 changed file.');
+    expect(onTarget).toHaveBeenCalledWith(expect.objectContaining({ netlifySiteId: TARGET.netlifySiteId, lastDeployedAt: expect.any(Number) }));
+  });
+
+  it('pushes files that were emptied', async () => {
+    mock.remoteFiles = FILES;
+    const { result } = deploy(undefined, [FILES[0], { ...FILES[1], content: '' }]);
+
+    await expect(result).resolves.toMatchObject({ status: 'success' });
+    expect(mock.requests.filter(request => request.endsWith('/git/blobs'))).toHaveLength(1);
+  });
+
+  it('reports a failed build with its log', async () => {
+    mock.deployStates = ['building', 'error'];
+    mock.errorMessage = 'Build script returned non-zero exit code\nnpm ERR! missing script: build';
+
+    const { result, onTarget } = deploy();
+    const update = await result;
+    expect(update).toMatchObject({ status: 'error', message: 'The build failed on Netlify: Build script returned non-zero exit code' });
+    expect(update.log).toEqual(['Build script returned non-zero exit code', 'npm ERR! missing script: build']);
+    expect(onTarget).not.toHaveBeenCalled();
+  });
+
+  it('succeeds without pushing or polling when nothing changed', async () => {
+    mock.remoteFiles = FILES;
+    const { result } = deploy();
+
+    await expect(result).resolves.toMatchObject({ status: 'success', url: TARGET.siteUrl, message: expect.stringContaining('No changes') });
+    expect(mock.requests.some(request => request.startsWith('POST'))).toBe(false);
+    expect(mock.requests.some(request => request.includes('/deploys'))).toBe(false);
+  });
+
+  it('cancels the Netlify build when aborted while building', async () => {
+    mock.deployStates = ['building'];
+    const controller = new AbortController();
+    const { result, progress } = deploy(controller.signal);
+    const aborted = vi.waitFor(() => {
+      if (!progress.some(update => update.status === 'building')) throw new Error('Not building yet.');
+      controller.abort();
+    });
+
+    await expect(result).rejects.toBeInstanceOf(DeploymentCancelledError);
+    await aborted;
+    expect(mock.requests).toContain('POST /api/v1/deploys/deploy-1/cancel');
+  });
+});
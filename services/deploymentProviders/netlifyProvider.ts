@@ -0,0 +1,219 @@
+import { DeploymentStatus, DeploymentTarget, DeploymentRecord } from '../../types';
+import {
+  DeploymentProvider, DeploymentContext, DeploymentApiOptions, configuredApiUrls,
+  LOG_TAIL_LINES, env, requestJson, pollUntilSettled, bestEffortSignal,
+} from './provider';
+import { GITHUB_TOKEN, getGitHubUser, createRepository, pushCommit } from './githubApi';
+
+const NETLIFY_TOKEN = env('NETLIFY_TOKEN');
+
+const netlifyHeaders = () => ({ Authorization: `Bearer ${NETLIFY_TOKEN}`, 'Content-Type': 'application/json' });
+
+/**
+ * Netlify deploy states, mapped onto our own deployment statuses. Unknown
+ * states are treated as still building.
+ */
+const NETLIFY_STATE_MAP: Record<string, DeploymentStatus> = {
+  new: 'deploying',
+  pending_review: 'deploying',
+  accepted: 'deploying',
+  enqueued: 'deploying',
+  building: 'building',
+  preparing: 'building',
+  prepared: 'building',
+  uploading: 'building',
+  uploaded: 'building',
+  processing: 'building',
+  processed: 'building',
+  ready: 'success',
+  error: 'error',
+  rejected: 'error',
+};
+
+export const mapNetlifyState = (state: string): DeploymentStatus => NETLIFY_STATE_MAP[state] ?? 'building';
+
+interface NetlifyDeploy {
+  id: string;
+  state: string;
+  created_at: string;
+  commit_ref?: string | null;
+  title?: string | null;
+  deploy_ssl_url?: string;
+  error_message?: string | null;
+  ssl_url?: string;
+  summary?: { messages?: { type: string; title: string; description?: string }[] };
+}
+
+const buildLogTail = (deploy: NetlifyDeploy): string[] => {
+  const lines = [
+    ...(deploy.summary?.messages ?? []).map(m => `[${m.type}] ${m.title}${m.description ? `: ${m.description}` : ''}`),
+    ...(deploy.error_message ? deploy.error_message.split('\n') : []),
+  ].filter(line => line.trim() !== '');
+  return lines.slice(-LOG_TAIL_LINES);
+};
+
+interface NetlifyState {
+  target: DeploymentTarget;
+  commit: { sha: string; changedFiles: number } | null;
+}
+
+/**
+ * Creates a new GitHub repository and a Netlify site linked to it.
+ */
+const createTarget = async (context: DeploymentContext): Promise<DeploymentTarget> => {
+  const { apiUrls, signal, onProgress } = context;
+  const repoName = `alfreyaa-deployment-${Date.now()}`;
+
+  onProgress({ status: 'creating_repo', message: `Creating new GitHub repository: ${repoName}` });
+  const repoData = await createRepository(apiUrls.githubApiUrl, repoName, 'Automated deployment of Alfreyaa AI Assistant', signal);
+
+  onProgress({ status: 'creating_site', message: 'Configuring deployment with Netlify...' });
+  const netlifySite = await requestJson<{ id: string; ssl_url: string }>(`${apiUrls.netlifyApiUrl}/api/v1/sites`, {
+    method: 'POST',
+    headers: netlifyHeaders(),
+    body: JSON.stringify({
+      repo: {
+        provider: 'github',
+        repo: repoData.full_name,
+        private: repoData.private,
+        branch: repoData.default_branch,
+      },
+      build_settings: {}
+    }),
+    signal,
+  }, 'Failed to create Netlify site.');
+
+  const target: DeploymentTarget = {
+    repoFullName: repoData.full_name,
+    branch: repoData.default_branch,
+    netlifySiteId: netlifySite.id,
+    siteUrl: netlifySite.ssl_url,
+    createdAt: Date.now(),
+  };
+  context.onTarget(target);
+  return target;
+};
+
+/**
+ * Pushes to a GitHub repository linked to a Netlify site, which builds the
+ * branch on every push. The repository and site are remembered and reused.
+ */
+export const netlifyProvider: DeploymentProvider<NetlifyState> = {
+  id: 'netlify',
+  name: 'Netlify',
+  description: 'Push to a GitHub repository that Netlify builds and hosts.',
+
+  missingCredentials: () => [
+    ...(GITHUB_TOKEN ? [] : ['GITHUB_TOKEN']),
+    ...(NETLIFY_TOKEN ? [] : ['NETLIFY_TOKEN']),
+  ],
+
+  authenticate: async (context) => {
+    await getGitHubUser(context.apiUrls.githubApiUrl, context.signal);
+  },
+
+  prepare: async (context) => {
+    const existingTarget = context.createNewTarget ? undefined : context.rememberedTarget;
+    return { target: existingTarget ?? await createTarget(context), commit: null };
+  },
+
+  upload: async (state, files, context) => {
+    const { target } = state;
+    context.onProgress({ status: 'pushing_files', message: `Pushing application source code to ${target.repoFullName}...` });
+    const commit = await pushCommit(target.repoFullName, target.branch, files, context.apiUrls.githubApiUrl, context.signal);
+    return { ...state, commit };
+  },
+
+  // Netlify builds the linked branch automatically on every push.
+  publish: async (state, context) => {
+    if (state.commit) {
+      const { changedFiles } = state.commit;
+      context.onProgress({ status: 'deploying', message: `Pushed ${changedFiles} changed file${changedFiles === 1 ? '' : 's'}. Deploying... This may take a moment.` });
+    }
+    return state;
+  },
+
+  pollStatus: async ({ target, commit }, context) => {
+    if (!commit) {
+      return { status: 'success', message: 'No changes since the last deployment. The live application is up to date.', url: target.siteUrl };
+    }
+
+    const { netlifyApiUrl } = context.apiUrls;
+    let deploy: NetlifyDeploy | undefined;
+
+    const result = await pollUntilSettled(async () => {
+      const deploys = await requestJson<NetlifyDeploy[]>(
+        `${netlifyApiUrl}/api/v1/sites/${target.netlifySiteId}/deploys?per_page=5`,
+        { headers: netlifyHeaders(), signal: context.signal },
+        'Failed to read deployment status.',
+      );
+      // Earlier deploys of a reused site are ignored; only the build of our commit counts.
+      deploy = deploys.find(d => d.commit_ref === commit.sha) ?? deploy;
+      if (!deploy) return undefined;
+
+      const status = mapNetlifyState(deploy.state);
+      switch (status) {
+        case 'success':
+          return { key: deploy.state, status, message: 'Deployment complete. The application is now live.', url: deploy.ssl_url || target.siteUrl };
+        case 'error':
+          return {
+            key: deploy.state,
+            status,
+            message: `The build failed on Netlify${deploy.error_message ? `: ${deploy.error_message.split('\n')[0]}` : '.'}`,
+            log: buildLogTail(deploy),
+          };
+        default:
+          return {
+            key: deploy.state,
+            status,
+            message: status === 'building' ? `Building on Netlify (${deploy.state})...` : 'Waiting for the build to start...',
+            url: target.siteUrl,
+            log: buildLogTail(deploy),
+          };
+      }
+    }, context, async () => {
+      // Stop the build on Netlify's side as well.
+      if (deploy) await fetch(`${netlifyApiUrl}/api/v1/deploys/${deploy.id}/cancel`, { method: 'POST', headers: netlifyHeaders(), signal: bestEffortSignal() });
+    });
+
+    if (result.status === 'success') context.onTarget({ ...target, lastDeployedAt: Date.now() });
+    return result;
+  },
+};
+
+/**
+ * Lists the most recent deploys of a target's Netlify site, newest first.
+ */
+export const listDeployments = async (target: DeploymentTarget, apiOptions: DeploymentApiOptions = {}): Promise<DeploymentRecord[]> => {
+  const { netlifyApiUrl } = { ...configuredApiUrls(), ...apiOptions };
+  if (!NETLIFY_TOKEN) throw new Error('NETLIFY_TOKEN is missing from the environment.');
+
+  const site = await requestJson<{ published_deploy?: { id: string } | null }>(
+    `${netlifyApiUrl}/api/v1/sites/${target.netlifySiteId}`, { headers: netlifyHeaders() }, 'Failed to load the Netlify site.');
+  const deploys = await requestJson<NetlifyDeploy[]>(
+    `${netlifyApiUrl}/api/v1/sites/${target.netlifySiteId}/deploys?per_page=20`, { headers: netlifyHeaders() }, 'Failed to load deployments.');
+
+  return deploys.map(deploy => ({
+    id: deploy.id,
+    state: deploy.state,
+    status: mapNetlifyState(deploy.state),
+    createdAt: deploy.created_at,
+    commitRef: deploy.commit_ref ?? undefined,
+    title: deploy.title ?? undefined,
+    url: deploy.deploy_ssl_url,
+    isPublished: deploy.id === site.published_deploy?.id,
+  }));
+};
+
+/**
+ * Publishes a previous deploy again, rolling the live site back to it.
+ */
+export const rollbackDeployment = async (target: DeploymentTarget, deployId: string, apiOptions: DeploymentApiOptions = {}): Promise<void> => {
+  const { netlifyApiUrl } = { ...configuredApiUrls(), ...apiOptions };
+  if (!NETLIFY_TOKEN) throw new Error('NETLIFY_TOKEN is missing from the environment.');
+
+  await requestJson(`${netlifyApiUrl}/api/v1/sites/${target.netlifySiteId}/deploys/${deployId}/restore`, {
+    method: 'POST',
+    headers: netlifyHeaders(),
+  }, 'Failed to roll back the deployment.');
+};
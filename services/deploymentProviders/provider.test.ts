@@ -0,0 +1,79 @@
+import { describe, it, expect, vi } from 'vitest';
+import { DeploymentCancelledError, PollObservation, pollUntilSettled } from './provider';
+import { createDeploymentContext } from './runner';
+
+const contextWith = (options: { signal?: AbortSignal; timeoutMs?: number } = {}) => {
+  const onProgress = vi.fn();
+  const context = createDeploymentContext({ onProgress, onTarget: () => {}, pollIntervalMs: 1, maxPollIntervalMs: 2, timeoutMs: 1000, ...options });
+  return { context, onProgress };
+};
+
+/** Observes the given observations in turn, repeating the last one. */
+const observing = (...observations: (PollObservation | undefined)[]) => {
+  let i = 0;
+  return vi.fn(async () => observations[Math.min(i++, observations.length - 1)]);
+};
+
+describe('pollUntilSettled', () => {
+  it('returns the first terminal observation without its key', async () => {
+    const { context } = contextWith();
+    const observe = observing(
+      undefined,
+      { key: 'building', status: 'building', message: 'Building...' },
+      { key: 'ready', status: 'success', message: 'Live.', url: 'https://example.com' },
+    );
+
+    await expect(pollUntilSettled(observe, context)).resolves.toEqual({ status: 'success', message: 'Live.', url: 'https://example.com' });
+    expect(observe).toHaveBeenCalledTimes(3);
+  });
+
+  it('reports progress only when the key changes', async () => {
+    const { context, onProgress } = contextWith();
+    const observe = observing(
+      { key: 'enqueued', status: 'deploying', message: 'Waiting...' },
+      { key: 'enqueued', status: 'deploying', message: 'Waiting...' },
+      { key: 'building', status: 'building', message: 'Building...' },
+      { key: 'building', status: 'building', message: 'Building...' },
+      { key: 'error', status: 'error', message: 'Failed.', log: ['boom'] },
+    );
+
+    await expect(pollUntilSettled(observe, context)).resolves.toEqual({ status: 'error', message: 'Failed.', log: ['boom'] });
+    expect(onProgress.mock.calls.map(([update]) => update.status)).toEqual(['deploying', 'building']);
+  });
+
+  it('times out with the url and log of the last observation', async () => {
+    const { context } = contextWith({ timeoutMs: 20 });
+    const observe = observing({ key: 'building', status: 'building', message: 'Building...', url: 'https://example.com', log: ['step 1'] });
+
+    const result = await pollUntilSettled(observe, context);
+    expect(result).toMatchObject({ status: 'timed_out', url: 'https://example.com', log: ['step 1'] });
+  });
+
+  it('stops the remote build and throws when cancelled', async () => {
+    const controller = new AbortController();
+    const { context } = contextWith({ signal: controller.signal });
+    const onCancel = vi.fn(async () => {});
+    const observe = vi.fn(async (): Promise<PollObservation> => {
+      controller.abort();
+      return { key: 'building', status: 'building', message: 'Building...' };
+    });
+
+    await expect(pollUntilSettled(observe, context, onCancel)).rejects.toBeInstanceOf(DeploymentCancelledError);
+    expect(onCancel).toHaveBeenCalledOnce();
+  });
+
+  it('counts as cancelled even when stopping the remote build fails', async () => {
+    const controller = new AbortController();
+    controller.abort();
+    const { context } = contextWith({ signal: controller.signal });
+
+    await expect(pollUntilSettled(observing(undefined), context, () => Promise.reject(new Error('offline')))).rejects.toBeInstanceOf(DeploymentCancelledError);
+  });
+
+  it('passes on failures that are not cancellations', async () => {
+    const { context } = contextWith();
+    const observe = vi.fn(() => Promise.reject(new Error('Failed to read deployment status. Status: 500')));
+
+    await expect(pollUntilSettled(observe, context)).rejects.toThrow('Status: 500');
+  });
+});
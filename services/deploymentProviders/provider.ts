@@ -0,0 +1,208 @@
+import { DeploymentStatus, DeploymentTarget, ProjectFile } from '../../types';
+
+export type { ProjectFile };
+
+export interface ProgressUpdate {
+  status: DeploymentStatus;
+  message: string;
+  url?: string;
+  log?: string[];
+}
+
+export type ProgressCallback = (update: ProgressUpdate) => void;
+
+export type DeploymentProviderId = 'netlify' | 'vercel' | 'cloudflare-pages' | 'github-pages' | 'zip';
+
+export interface DeploymentApiOptions {
+  /** API base URLs, overridable to run against a local mock server. Never taken from a request. */
+  githubApiUrl?: string;
+  netlifyApiUrl?: string;
+  vercelApiUrl?: string;
+  cloudflareApiUrl?: string;
+}
+
+export const DEFAULT_API_URLS: Required<DeploymentApiOptions> = {
+  githubApiUrl: 'https://api.github.com',
+  netlifyApiUrl: 'https://api.netlify.com',
+  vercelApiUrl: 'https://api.vercel.com',
+  cloudflareApiUrl: 'https://api.cloudflare.com',
+};
+
+/**
+ * The API base URLs the server deploys with. The credentials are sent to
+ * them, so they come from the server's environment and never from a request.
+ */
+export const configuredApiUrls = (): Required<DeploymentApiOptions> => ({
+  githubApiUrl: env('GITHUB_API_URL') ?? DEFAULT_API_URLS.githubApiUrl,
+  netlifyApiUrl: env('NETLIFY_API_URL') ?? DEFAULT_API_URLS.netlifyApiUrl,
+  vercelApiUrl: env('VERCEL_API_URL') ?? DEFAULT_API_URLS.vercelApiUrl,
+  cloudflareApiUrl: env('CLOUDFLARE_API_URL') ?? DEFAULT_API_URLS.cloudflareApiUrl,
+});
+
+export interface PollOptions {
+  /** First delay between status polls; it grows with backoff up to `maxPollIntervalMs`. */
+  pollIntervalMs: number;
+  maxPollIntervalMs: number;
+  /** How long to wait for the build before reporting `timed_out`. */
+  timeoutMs: number;
+}
+
+export const DEFAULT_POLL_OPTIONS: PollOptions = {
+  pollIntervalMs: 2000,
+  maxPollIntervalMs: 15000,
+  timeoutMs: 10 * 60 * 1000,
+};
+
+export interface DeploymentContext {
+  onProgress: ProgressCallback;
+  signal?: AbortSignal;
+  apiUrls: Required<DeploymentApiOptions>;
+  poll: PollOptions;
+  /** Ignore a remembered destination and create a new one, for providers that remember one. */
+  createNewTarget?: boolean;
+  /** The destination remembered from earlier deployments, for providers that reuse one. */
+  rememberedTarget?: DeploymentTarget;
+  /** Hands a destination to the browser to remember for the next deployment. */
+  onTarget: (target: DeploymentTarget) => void;
+}
+
+/**
+ * A deployment destination. The deployment runner calls the steps in order,
+ * threading the provider specific state returned by each step into the next.
+ * Providers report progress through `context.onProgress`.
+ */
+export interface DeploymentProvider<TState> {
+  id: DeploymentProviderId;
+  name: string;
+  description: string;
+  /** Runs in the browser instead of on the server; only for providers that need no credentials. */
+  runsInBrowser?: boolean;
+  /** Names of the environment variables that are missing, empty when the provider can run. */
+  missingCredentials: () => string[];
+  /** Verifies the credentials. */
+  authenticate: (context: DeploymentContext) => Promise<void>;
+  /** Creates or looks up the destination (repository, project or site). */
+  prepare: (context: DeploymentContext) => Promise<TState>;
+  upload: (state: TState, files: ProjectFile[], context: DeploymentContext) => Promise<TState>;
+  publish: (state: TState, context: DeploymentContext) => Promise<TState>;
+  /** Waits for the deployment to settle and returns the final update. */
+  pollStatus: (state: TState, context: DeploymentContext) => Promise<ProgressUpdate>;
+}
+
+/**
+ * Reads a server environment variable. Credentials only exist on the server;
+ * in the browser every variable is undefined.
+ */
+export const env = (name: string): string | undefined =>
+  typeof process === 'undefined' ? undefined : process.env[name] || undefined;
+
+// Number of log lines kept for display when a build fails.
+export const LOG_TAIL_LINES = 20;
+
+// Requests whose failure is tolerated, such as fetching a build log or stopping a remote build, give up after this long.
+export const BEST_EFFORT_TIMEOUT_MS = 10000;
+
+/** A signal for a best effort request: aborted with the deployment, or after `BEST_EFFORT_TIMEOUT_MS`. */
+export const bestEffortSignal = (signal?: AbortSignal): AbortSignal =>
+  signal ? AbortSignal.any([signal, AbortSignal.timeout(BEST_EFFORT_TIMEOUT_MS)]) : AbortSignal.timeout(BEST_EFFORT_TIMEOUT_MS);
+
+export class DeploymentCancelledError extends Error {
+  constructor() {
+    super('Deployment cancelled.');
+    this.name = 'DeploymentCancelledError';
+  }
+}
+
+export const sleep = (ms: number, signal?: AbortSignal): Promise<void> =>
+  new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(new DeploymentCancelledError());
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new DeploymentCancelledError());
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+
+export const requestJson = async <T>(url: string, init: RequestInit, failure: string): Promise<T> => {
+  const response = await fetch(url, init);
+  if (!response.ok) throw new Error(`${failure} Status: ${response.status}`);
+  return response.json();
+};
+
+// Helper to use btoa safely in different environments
+export function base64Encode(str: string): string {
+    return btoa(unescape(encodeURIComponent(str)));
+}
+
+/** The raw bytes of a project file, decoding binary files from base64. */
+export const fileBytes = (file: ProjectFile): Uint8Array =>
+  file.encoding === 'base64'
+    ? Uint8Array.from(atob(file.content), char => char.charCodeAt(0))
+    : new TextEncoder().encode(file.content);
+
+export const fileBase64 = (file: ProjectFile): string =>
+  file.encoding === 'base64' ? file.content : base64Encode(file.content);
+
+export const sha1Hex = async (data: Uint8Array | string): Promise<string> => {
+  const bytes = typeof data === 'string' ? new TextEncoder().encode(data) : data;
+  const digest = await crypto.subtle.digest('SHA-1', bytes);
+  return Array.from(new Uint8Array(digest)).map(b => b.toString(16).padStart(2, '0')).join('');
+};
+
+export interface PollObservation extends ProgressUpdate {
+  /** Progress is only reported when the key changes between polls. */
+  key: string;
+}
+
+const TERMINAL_STATUSES: DeploymentStatus[] = ['success', 'error'];
+
+/**
+ * Repeatedly observes a deployment with backoff until it succeeds, fails or
+ * times out. `observe` returns `undefined` while there is nothing to report
+ * yet. On cancellation `onCancel` gets a chance to stop the remote build.
+ */
+export const pollUntilSettled = async (
+  observe: () => Promise<PollObservation | undefined>,
+  context: DeploymentContext,
+  onCancel?: () => Promise<void>,
+): Promise<ProgressUpdate> => {
+  const { signal, poll } = context;
+  const deadline = Date.now() + poll.timeoutMs;
+  let interval = poll.pollIntervalMs;
+  let lastKey = '';
+  let last: PollObservation | undefined;
+
+  try {
+    while (Date.now() < deadline) {
+      const observation = await observe();
+      if (observation) {
+        last = observation;
+        const { key, ...update } = observation;
+        if (TERMINAL_STATUSES.includes(update.status)) return update;
+        if (key !== lastKey) {
+          lastKey = key;
+          context.onProgress(update);
+        }
+      }
+
+      await sleep(interval, signal);
+      interval = Math.min(interval * 1.5, poll.maxPollIntervalMs);
+    }
+  } catch (error) {
+    if (!signal?.aborted) throw error;
+    // Stopping the remote build is best effort; the deployment counts as cancelled either way.
+    await onCancel?.().catch(() => undefined);
+    throw new DeploymentCancelledError();
+  }
+
+  return {
+    status: 'timed_out',
+    message: `The build did not finish within ${Math.round(poll.timeoutMs / 60000)} minutes. It may still complete.`,
+    url: last?.url,
+    log: last?.log,
+  };
+};
@@ -0,0 +1,65 @@
+import { DeploymentTarget } from '../../types';
+import {
+  DeploymentProvider, DeploymentContext, DeploymentApiOptions, PollOptions, ProgressCallback, ProgressUpdate, ProjectFile,
+  DEFAULT_POLL_OPTIONS, configuredApiUrls,
+} from './provider';
+
+export interface RunOptions extends DeploymentApiOptions, Partial<PollOptions> {
+  onProgress: ProgressCallback;
+  onTarget: (target: DeploymentTarget) => void;
+  signal?: AbortSignal;
+  createNewTarget?: boolean;
+  rememberedTarget?: DeploymentTarget;
+}
+
+export const createDeploymentContext = ({ onProgress, onTarget, signal, createNewTarget, rememberedTarget, ...rest }: RunOptions): DeploymentContext => {
+  const apiUrls = configuredApiUrls();
+  return {
+    onProgress,
+    onTarget,
+    signal,
+    createNewTarget,
+    rememberedTarget,
+    apiUrls: {
+      githubApiUrl: rest.githubApiUrl ?? apiUrls.githubApiUrl,
+      netlifyApiUrl: rest.netlifyApiUrl ?? apiUrls.netlifyApiUrl,
+      vercelApiUrl: rest.vercelApiUrl ?? apiUrls.vercelApiUrl,
+      cloudflareApiUrl: rest.cloudflareApiUrl ?? apiUrls.cloudflareApiUrl,
+    },
+    poll: {
+      pollIntervalMs: rest.pollIntervalMs ?? DEFAULT_POLL_OPTIONS.pollIntervalMs,
+      maxPollIntervalMs: rest.maxPollIntervalMs ?? DEFAULT_POLL_OPTIONS.maxPollIntervalMs,
+      timeoutMs: rest.timeoutMs ?? DEFAULT_POLL_OPTIONS.timeoutMs,
+    },
+  };
+};
+
+/**
+ * Runs the steps of a provider in order: authenticate, prepare, upload,
+ * publish and poll. Returns the final update; failures, including
+ * cancellation, are thrown.
+ */
+export const runProvider = async <TState>(provider: DeploymentProvider<TState>, files: ProjectFile[], context: DeploymentContext): Promise<ProgressUpdate> => {
+  await provider.authenticate(context);
+  let state = await provider.prepare(context);
+  state = await provider.upload(state, files, context);
+  state = await provider.publish(state, context);
+  return provider.pollStatus(state, context);
+};
+
+/**
+ * A provider with its state type hidden, as listed in `DEPLOYMENT_PROVIDERS`.
+ * `run` goes through all of its steps with `runProvider`.
+ */
+export interface AnyDeploymentProvider extends Pick<DeploymentProvider<unknown>, 'id' | 'name' | 'description' | 'runsInBrowser' | 'missingCredentials'> {
+  run: (files: ProjectFile[], context: DeploymentContext) => Promise<ProgressUpdate>;
+}
+
+export const hideProviderState = <TState>(provider: DeploymentProvider<TState>): AnyDeploymentProvider => ({
+  id: provider.id,
+  name: provider.name,
+  description: provider.description,
+  runsInBrowser: provider.runsInBrowser,
+  missingCredentials: provider.missingCredentials,
+  run: (files, context) => runProvider(provider, files, context),
+});
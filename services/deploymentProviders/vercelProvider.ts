@@ -0,0 +1,124 @@
+import { DeploymentStatus } from '../../types';
+import { DeploymentProvider, requestJson, pollUntilSettled, sha1Hex, fileBytes, LOG_TAIL_LINES, env } from './provider';
+
+const VERCEL_TOKEN = env('VERCEL_TOKEN');
+// Deployments with the same name land in the same Vercel project.
+const VERCEL_PROJECT = env('VERCEL_PROJECT') || 'alfreyaa';
+
+const vercelHeaders = () => ({ Authorization: `Bearer ${VERCEL_TOKEN}` });
+
+const VERCEL_STATE_MAP: Record<string, DeploymentStatus> = {
+  QUEUED: 'deploying',
+  INITIALIZING: 'deploying',
+  BUILDING: 'building',
+  READY: 'success',
+  ERROR: 'error',
+  // Cancelled outside of Alfreyaa, so from our side the deployment failed.
+  CANCELED: 'error',
+};
+
+interface VercelFile {
+  file: string;
+  sha: string;
+  size: number;
+}
+
+interface VercelState {
+  files: VercelFile[];
+  deploymentId?: string;
+  url?: string;
+}
+
+const fetchBuildLog = async (vercelApiUrl: string, deploymentId: string): Promise<string[]> => {
+  try {
+    const events = await requestJson<{ text?: string }[]>(
+      `${vercelApiUrl}/v3/deployments/${deploymentId}/events?limit=${LOG_TAIL_LINES}&direction=backward`,
+      { headers: vercelHeaders() },
+      'Failed to read the build log.',
+    );
+    return events.map(event => event.text ?? '').filter(line => line.trim() !== '').reverse();
+  } catch {
+    return [];
+  }
+};
+
+/**
+ * Uploads the files to Vercel, which builds them as a Vite project.
+ */
+export const vercelProvider: DeploymentProvider<VercelState> = {
+  id: 'vercel',
+  name: 'Vercel',
+  description: `Upload the sources to the Vercel project "${VERCEL_PROJECT}" and build them there.`,
+
+  missingCredentials: () => (VERCEL_TOKEN ? [] : ['VERCEL_TOKEN']),
+
+  authenticate: async ({ apiUrls, signal }) => {
+    await requestJson(`${apiUrls.vercelApiUrl}/v2/user`, { headers: vercelHeaders(), signal }, 'Failed to authenticate with Vercel.');
+  },
+
+  prepare: async () => ({ files: [] }),
+
+  // Files are uploaded by content digest; Vercel skips the ones it already has.
+  upload: async (state, files, { apiUrls, signal, onProgress }) => {
+    onProgress({ status: 'pushing_files', message: `Uploading ${files.length} files to Vercel...` });
+    const uploaded: VercelFile[] = [];
+    for (const file of files) {
+      const body = fileBytes(file);
+      const sha = await sha1Hex(body);
+      const response = await fetch(`${apiUrls.vercelApiUrl}/v2/files`, {
+        method: 'POST',
+        headers: { ...vercelHeaders(), 'Content-Type': 'application/octet-stream', 'x-vercel-digest': sha },
+        body,
+        signal,
+      });
+      if (!response.ok) throw new Error(`Failed to upload ${file.path} to Vercel. Status: ${response.status}`);
+      uploaded.push({ file: file.path, sha, size: body.length });
+    }
+    return { ...state, files: uploaded };
+  },
+
+  publish: async (state, { apiUrls, signal, onProgress }) => {
+    onProgress({ status: 'deploying', message: 'Creating the Vercel deployment...' });
+    const deployment = await requestJson<{ id: string; url: string }>(`${apiUrls.vercelApiUrl}/v13/deployments?skipAutoDetectionConfirmation=1`, {
+      method: 'POST',
+      headers: { ...vercelHeaders(), 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        name: VERCEL_PROJECT,
+        target: 'production',
+        files: state.files,
+        projectSettings: { framework: 'vite' },
+      }),
+      signal,
+    }, 'Failed to create the Vercel deployment.');
+    return { ...state, deploymentId: deployment.id, url: `https://${deployment.url}` };
+  },
+
+  pollStatus: async (state, context) => {
+    const { vercelApiUrl } = context.apiUrls;
+
+    return pollUntilSettled(async () => {
+      const deployment = await requestJson<{ readyState: string; errorMessage?: string; alias?: string[] }>(
+        `${vercelApiUrl}/v13/deployments/${state.deploymentId}`,
+        { headers: vercelHeaders(), signal: context.signal },
+        'Failed to read deployment status.',
+      );
+      const status = VERCEL_STATE_MAP[deployment.readyState] ?? 'building';
+      const url = deployment.alias?.[0] ? `https://${deployment.alias[0]}` : state.url;
+
+      if (status === 'success') {
+        return { key: deployment.readyState, status, message: 'Deployment complete. The application is now live.', url };
+      }
+      if (status === 'error') {
+        return {
+          key: deployment.readyState,
+          status,
+          message: `The build failed on Vercel${deployment.errorMessage ? `: ${deployment.errorMessage}` : '.'}`,
+          log: await fetchBuildLog(vercelApiUrl, state.deploymentId!),
+        };
+      }
+      return { key: deployment.readyState, status, message: `Building on Vercel (${deployment.readyState.toLowerCase()})...`, url };
+    }, context, async () => {
+      await fetch(`${vercelApiUrl}/v12/deployments/${state.deploymentId}/cancel`, { method: 'PATCH', headers: vercelHeaders() });
+    });
+  },
+};
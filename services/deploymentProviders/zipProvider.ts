@@ -0,0 +1,103 @@
+import { DeploymentProvider, ProjectFile, fileBytes } from './provider';
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  return c >>> 0;
+});
+
+const crc32 = (data: Uint8Array): number => {
+  let crc = 0xffffffff;
+  for (const byte of data) crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+/**
+ * Builds an uncompressed ("stored") ZIP archive. The sources are small, so
+ * skipping compression keeps this free of dependencies.
+ */
+export const createZip = (files: ProjectFile[]): Blob => {
+  const encoder = new TextEncoder();
+  const localParts: Uint8Array[] = [];
+  const centralParts: Uint8Array[] = [];
+  let offset = 0;
+
+  for (const file of files) {
+    const name = encoder.encode(file.path);
+    const data = fileBytes(file);
+    const crc = crc32(data);
+
+    const local = new DataView(new ArrayBuffer(30));
+    local.setUint32(0, 0x04034b50, true);
+    local.setUint16(4, 20, true); // version needed to extract
+    local.setUint16(6, 0x0800, true); // UTF-8 file names
+    local.setUint32(14, crc, true);
+    local.setUint32(18, data.length, true);
+    local.setUint32(22, data.length, true);
+    local.setUint16(26, name.length, true);
+    localParts.push(new Uint8Array(local.buffer), name, data);
+
+    const central = new DataView(new ArrayBuffer(46));
+    central.setUint32(0, 0x02014b50, true);
+    central.setUint16(4, 20, true); // version made by
+    central.setUint16(6, 20, true);
+    central.setUint16(8, 0x0800, true);
+    central.setUint32(16, crc, true);
+    central.setUint32(20, data.length, true);
+    central.setUint32(24, data.length, true);
+    central.setUint16(28, name.length, true);
+    central.setUint32(42, offset, true);
+    centralParts.push(new Uint8Array(central.buffer), name);
+
+    offset += 30 + name.length + data.length;
+  }
+
+  const centralSize = centralParts.reduce((size, part) => size + part.length, 0);
+  const end = new DataView(new ArrayBuffer(22));
+  end.setUint32(0, 0x06054b50, true);
+  end.setUint16(8, files.length, true);
+  end.setUint16(10, files.length, true);
+  end.setUint32(12, centralSize, true);
+  end.setUint32(16, offset, true);
+
+  return new Blob([...localParts, ...centralParts, new Uint8Array(end.buffer)] as BlobPart[], { type: 'application/zip' });
+};
+
+interface ZipState {
+  archive?: Blob;
+  fileName: string;
+}
+
+/**
+ * Bundles the project into a ZIP file and downloads it locally. Needs no
+ * credentials and never leaves the browser.
+ */
+export const zipProvider: DeploymentProvider<ZipState> = {
+  id: 'zip',
+  name: 'Download as ZIP',
+  description: 'Bundle the project files into a ZIP archive and download it.',
+  runsInBrowser: true,
+
+  missingCredentials: () => [],
+
+  authenticate: async () => undefined,
+
+  prepare: async () => ({ fileName: `alfreyaa-${new Date().toISOString().slice(0, 10)}.zip` }),
+
+  upload: async (state, files, { onProgress }) => {
+    onProgress({ status: 'pushing_files', message: `Bundling ${files.length} files...` });
+    return { ...state, archive: createZip(files) };
+  },
+
+  publish: async (state) => {
+    const url = URL.createObjectURL(state.archive!);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = state.fileName;
+    link.click();
+    URL.revokeObjectURL(url);
+    return state;
+  },
+
+  pollStatus: async (state) => ({ status: 'success', message: `The project has been downloaded as ${state.fileName}.` }),
+};
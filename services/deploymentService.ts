@@ -1,132 +1,96 @@
-import { DeploymentStatus } from '../types';
+import { DeploymentTarget, DeploymentRecord } from '../types';
+import { getProjectFiles } from './projectFiles';
+import { Persona, addressUser } from './personas';
+import { getPreferredProviderId, setPreferredProviderId, getDefaultTarget, saveTarget } from './deploymentTargets';
+import { DEPLOYMENT_PROVIDERS, DEFAULT_PROVIDER_ID, getDeploymentProvider } from './deploymentProviders';
+import { ProgressCallback, PollOptions, DeploymentProviderId, DeploymentCancelledError } from './deploymentProviders/provider';
+import { createDeploymentContext } from './deploymentProviders/runner';
+import { getServerConfig, postJson, postEventStream } from './serverApi';
+import { API_PATHS, DEPLOY_EVENTS, DeployEvent, DeployRequest, ListDeploymentsRequest, ListDeploymentsResult, RollbackDeploymentRequest } from '../server/api';
 
-// Hardcoded for this environment. In a real build system, this would be dynamic.
-const PROJECT_FILES = [
-  'index.html',
-  'index.tsx',
-  'App.tsx',
-  'types.ts',
-  'metadata.json',
-  'services/geminiService.ts',
-  'services/deploymentService.ts',
-  'services/websiteService.ts',
-  'components/Header.tsx',
-  'components/ChatInput.tsx',
-  'components/ChatMessage.tsx',
-  'components/TypingIndicator.tsx',
-];
+export type { ProgressUpdate, ProgressCallback, DeploymentProviderId } from './deploymentProviders/provider';
 
-const GITHUB_TOKEN = process.env.GITHUB_TOKEN;
-const NETLIFY_TOKEN = process.env.NETLIFY_TOKEN;
-
-interface ProgressUpdate {
-  status: DeploymentStatus;
-  message: string;
-  url?: string;
+export interface DeployOptions extends Partial<PollOptions> {
+  /** The persona of the conversation, which phrases the failures. */
+  persona: Persona;
+  /** Where to deploy. Defaults to the provider used last. */
+  providerId?: DeploymentProviderId;
+  /** Aborting cancels the deployment, including a running remote build. */
+  signal?: AbortSignal;
+  /** Ignore a remembered destination and create a new one, for providers that remember one. */
+  createNewTarget?: boolean;
 }
 
-type ProgressCallback = (update: ProgressUpdate) => void;
-
-export async function getProjectFiles(): Promise<{ path: string; content: string }[]> {
-  const filePromises = PROJECT_FILES.map(async (path) => {
-    try {
-        const response = await fetch(`/${path}`);
-        if (!response.ok) {
-        throw new Error(`Failed to fetch project file: ${path}`);
-        }
-        const content = await response.text();
-        return { path, content };
-    } catch (e) {
-        // This can happen during development if a file is requested before it's available.
-        // Return empty content to allow the process to continue.
-        console.warn(`Could not fetch ${path}, returning empty content.`)
-        return { path, content: "" }
-    }
-  });
-  return Promise.all(filePromises);
-}
+export const listDeploymentProviders = async () => {
+  const { missingDeploymentCredentials } = await getServerConfig();
+  return DEPLOYMENT_PROVIDERS.map(({ id, name, description, runsInBrowser }) => ({
+    id, name, description, missingCredentials: runsInBrowser ? [] : missingDeploymentCredentials[id] ?? [],
+  }));
+};
 
-// Helper to use btoa safely in different environments
-function base64Encode(str: string): string {
-    return btoa(unescape(encodeURIComponent(str)));
-}
+/**
+ * Runs a deployment through the chosen provider: authenticate, prepare,
+ * upload, publish and poll. Providers that need credentials run on the
+ * server, which holds them; the rest run in the browser. Every outcome,
+ * including failures and cancellation, is reported through `onProgress`.
+ */
+export const deployApp = async (onProgress: ProgressCallback, deployOptions: DeployOptions): Promise<void> => {
+  const { persona, providerId = getPreferredProviderId() ?? DEFAULT_PROVIDER_ID, signal, ...rest } = deployOptions;
+  const provider = getDeploymentProvider(providerId);
 
-export const deployApp = async (onProgress: ProgressCallback): Promise<void> => {
-  if (!GITHUB_TOKEN || !NETLIFY_TOKEN) {
-    onProgress({
-      status: 'error',
-      message: "My apologies, Kaarthi. I lack the required deployment credentials (GITHUB_TOKEN or NETLIFY_TOKEN) in my environment to proceed.",
-    });
+  if (!provider) {
+    onProgress({ status: 'error', message: `Unknown deployment provider "${providerId}".` });
     return;
   }
 
   try {
-    onProgress({ status: 'initializing', message: 'Initializing deployment sequence...' });
-    const repoName = `alfreyaa-deployment-${Date.now()}`;
-
-    // Step 1: Get GitHub user
-    const userResponse = await fetch('https://api.github.com/user', {
-        headers: { Authorization: `Bearer ${GITHUB_TOKEN}` },
-    });
-    if (!userResponse.ok) throw new Error('Failed to authenticate with GitHub.');
-    const githubUser = await userResponse.json();
-    const owner = githubUser.login;
-
-    // Step 2: Create GitHub repository
-    onProgress({ status: 'creating_repo', message: `Creating new GitHub repository: ${repoName}` });
-    const repoResponse = await fetch('https://api.github.com/user/repos', {
-      method: 'POST',
-      headers: { Authorization: `Bearer ${GITHUB_TOKEN}`, 'Content-Type': 'application/json' },
-      body: JSON.stringify({ name: repoName, description: 'Automated deployment of Alfreyaa AI Assistant' }),
-    });
-    if (!repoResponse.ok) throw new Error(`Failed to create GitHub repository. Status: ${repoResponse.status}`);
-    const repoData = await repoResponse.json();
-
-    // Step 3: Fetch and push files to repository
-    onProgress({ status: 'pushing_files', message: 'Uploading application source code...' });
-    const files = await getProjectFiles();
-    for (const file of files) {
-        if(file.content.trim() === "") continue; // Don't push empty files
-      await fetch(`https://api.github.com/repos/${owner}/${repoName}/contents/${file.path}`, {
-        method: 'PUT',
-        headers: { Authorization: `Bearer ${GITHUB_TOKEN}`, 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          message: `feat: add ${file.path}`,
-          content: base64Encode(file.content),
-        }),
+    const missingCredentials = provider.runsInBrowser ? [] : (await getServerConfig()).missingDeploymentCredentials[provider.id] ?? [];
+    if (missingCredentials.length > 0) {
+      onProgress({
+        status: 'error',
+        message: `My apologies${addressUser(persona)}. I lack the required deployment credentials (${missingCredentials.join(' or ')}) in my environment to deploy with ${provider.name}.`,
       });
+      return;
     }
 
-    // Step 4: Create Netlify site
-    onProgress({ status: 'creating_site', message: 'Configuring deployment with Netlify...' });
-    const siteResponse = await fetch('https://api.netlify.com/api/v1/sites', {
-        method: 'POST',
-        headers: { Authorization: `Bearer ${NETLIFY_TOKEN}`, 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-            repo: {
-                provider: 'github',
-                repo: repoData.full_name,
-                private: repoData.private,
-                branch: repoData.default_branch,
-            },
-            build_settings: {}
-        }),
-    });
-    if (!siteResponse.ok) throw new Error(`Failed to create Netlify site. Status: ${siteResponse.statusText}`);
-    const netlifySite = await siteResponse.json();
-    
-    // Step 5: Poll for deployment completion
-    onProgress({ status: 'deploying', message: `Deploying... This may take a moment.` });
-    
-    await new Promise(resolve => setTimeout(resolve, 10000));
+    onProgress({ status: 'initializing', message: `Initializing deployment sequence with ${provider.name}...` });
+    setPreferredProviderId(provider.id);
+    const files = await getProjectFiles();
+    const rememberedTarget = getDefaultTarget();
 
-    onProgress({ status: 'success', message: 'Deployment complete. The application is now live.', url: netlifySite.ssl_url });
+    if (provider.runsInBrowser) {
+      const context = createDeploymentContext({ ...rest, onProgress, onTarget: saveTarget, signal, rememberedTarget });
+      onProgress(await provider.run(files, context));
+      return;
+    }
 
+    const request: DeployRequest = { ...rest, providerId: provider.id, files, rememberedTarget };
+    for await (const { event, data } of postEventStream<DeployEvent>(API_PATHS.deploy, request, signal)) {
+      if (event === DEPLOY_EVENTS.target) saveTarget(data);
+      else onProgress(data);
+    }
   } catch (error) {
+    if (error instanceof DeploymentCancelledError || signal?.aborted) {
+      onProgress({ status: 'cancelled', message: 'Deployment cancelled.' });
+      return;
+    }
     console.error('Deployment failed:', error);
     onProgress({
       status: 'error',
-      message: `I have failed in my deployment task, Kaarthi. An error occurred: ${error instanceof Error ? error.message : String(error)}`,
+      message: `I have failed in my deployment task${addressUser(persona)}. An error occurred: ${error instanceof Error ? error.message : String(error)}`,
     });
   }
-};
\ No newline at end of file
+};
+
+/**
+ * Lists the most recent deploys of a target's Netlify site, newest first.
+ */
+export const listDeployments = (target: DeploymentTarget): Promise<DeploymentRecord[]> =>
+  postJson<ListDeploymentsResult>(API_PATHS.listDeployments, { target } satisfies ListDeploymentsRequest);
+
+/**
+ * Publishes a previous deploy again, rolling the live site back to it.
+ */
+export const rollbackDeployment = async (target: DeploymentTarget, deployId: string): Promise<void> => {
+  await postJson(API_PATHS.rollbackDeployment, { target, deployId } satisfies RollbackDeploymentRequest);
+};
@@ -0,0 +1,42 @@
+import { DeploymentTarget } from '../types';
+
+const STORAGE_KEY = 'alfreyaa_deployment_targets';
+const PROVIDER_STORAGE_KEY = 'alfreyaa_deployment_provider';
+
+/**
+ * Deployment targets are remembered so that redeploys update the same
+ * repository and Netlify site instead of creating new ones.
+ */
+export const loadTargets = (): DeploymentTarget[] => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored ? JSON.parse(stored) : [];
+  } catch (error) {
+    console.error("Failed to load deployment targets:", error);
+    return [];
+  }
+};
+
+const saveTargets = (targets: DeploymentTarget[]): void => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(targets));
+};
+
+/** The most recently deployed target is reused by default. */
+export const getDefaultTarget = (): DeploymentTarget | undefined =>
+  [...loadTargets()].sort((a, b) => (b.lastDeployedAt ?? b.createdAt) - (a.lastDeployedAt ?? a.createdAt))[0];
+
+export const saveTarget = (target: DeploymentTarget): void => {
+  const targets = loadTargets().filter(t => t.netlifySiteId !== target.netlifySiteId);
+  saveTargets([...targets, target]);
+};
+
+export const forgetTarget = (netlifySiteId: string): void => {
+  saveTargets(loadTargets().filter(t => t.netlifySiteId !== netlifySiteId));
+};
+
+/** The provider used for the last deployment is the default for the next one. */
+export const getPreferredProviderId = (): string | undefined => localStorage.getItem(PROVIDER_STORAGE_KEY) ?? undefined;
+
+export const setPreferredProviderId = (providerId: string): void => {
+  localStorage.setItem(PROVIDER_STORAGE_KEY, providerId);
+};
@@ -0,0 +1,107 @@
+/**
+ * Line based diff used to review proposed code modifications side by side.
+ */
+
+export interface DiffLine {
+  number: number;
+  text: string;
+}
+
+export interface DiffRow {
+  kind: 'equal' | 'removed' | 'added' | 'changed';
+  left?: DiffLine;
+  right?: DiffLine;
+}
+
+type Operation = { kind: 'equal' | 'removed' | 'added'; text: string };
+
+const splitLines = (content: string): string[] => (content === '' ? [] : content.replace(/\r\n/g, '\n').split('\n'));
+
+/**
+ * Longest-common-subsequence diff. The common prefix and suffix are trimmed
+ * first, which keeps the table small for typical edits.
+ */
+const diffOperations = (before: string[], after: string[]): Operation[] => {
+  let prefix = 0;
+  while (prefix < before.length && prefix < after.length && before[prefix] === after[prefix]) prefix++;
+  let suffix = 0;
+  while (
+    suffix < before.length - prefix &&
+    suffix < after.length - prefix &&
+    before[before.length - 1 - suffix] === after[after.length - 1 - suffix]
+  ) suffix++;
+
+  const a = before.slice(prefix, before.length - suffix);
+  const b = after.slice(prefix, after.length - suffix);
+
+  const lengths: number[][] = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i][j] = a[i] === b[j] ? lengths[i + 1][j + 1] + 1 : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const middle: Operation[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      middle.push({ kind: 'equal', text: a[i] });
+      i++;
+      j++;
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      middle.push({ kind: 'removed', text: a[i++] });
+    } else {
+      middle.push({ kind: 'added', text: b[j++] });
+    }
+  }
+  while (i < a.length) middle.push({ kind: 'removed', text: a[i++] });
+  while (j < b.length) middle.push({ kind: 'added', text: b[j++] });
+
+  return [
+    ...before.slice(0, prefix).map(text => ({ kind: 'equal' as const, text })),
+    ...middle,
+    ...before.slice(before.length - suffix).map(text => ({ kind: 'equal' as const, text })),
+  ];
+};
+
+/**
+ * Produces rows for a side-by-side view. Adjacent removals and additions are
+ * paired up into `changed` rows.
+ */
+export const diffLines = (before: string, after: string): DiffRow[] => {
+  const operations = diffOperations(splitLines(before), splitLines(after));
+  const rows: DiffRow[] = [];
+  let leftNumber = 1;
+  let rightNumber = 1;
+  let index = 0;
+
+  while (index < operations.length) {
+    if (operations[index].kind === 'equal') {
+      const text = operations[index].text;
+      rows.push({ kind: 'equal', left: { number: leftNumber++, text }, right: { number: rightNumber++, text } });
+      index++;
+      continue;
+    }
+
+    const removed: string[] = [];
+    const added: string[] = [];
+    while (index < operations.length && operations[index].kind !== 'equal') {
+      const operation = operations[index++];
+      (operation.kind === 'removed' ? removed : added).push(operation.text);
+    }
+
+    for (let k = 0; k < Math.max(removed.length, added.length); k++) {
+      const left = k < removed.length ? { number: leftNumber++, text: removed[k] } : undefined;
+      const right = k < added.length ? { number: rightNumber++, text: added[k] } : undefined;
+      rows.push({ kind: left && right ? 'changed' : left ? 'removed' : 'added', left, right });
+    }
+  }
+
+  return rows;
+};
+
+export const countChanges = (rows: DiffRow[]): { additions: number; deletions: number } => ({
+  additions: rows.filter(row => row.kind === 'added' || row.kind === 'changed').length,
+  deletions: rows.filter(row => row.kind === 'removed' || row.kind === 'changed').length,
+});
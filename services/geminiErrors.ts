@@ -0,0 +1,80 @@
+import { GEMINI_ERROR_CODES } from '../server/api';
+import { ServerApiError, SERVER_UNREACHABLE } from './serverApi';
+import { RequestTimeoutError, RetryableError } from './retry';
+import { Persona, addressUser } from './personas';
+
+/**
+ * A failed model request. The message is addressed to the user, in the words
+ * of the conversation's persona, and shown in the conversation as it is.
+ */
+export class GeminiError extends Error implements RetryableError {
+  constructor(message: string, public readonly retryable = false, public readonly retryAfterMs?: number) {
+    super(message);
+    this.name = 'GeminiError';
+  }
+}
+
+/** The server has no Gemini API key. */
+export class MissingApiKeyError extends GeminiError {
+  constructor(persona: Persona) {
+    super(`My apologies${addressUser(persona)}. I am not properly configured. The GEMINI_API_KEY is missing from my server's environment.`);
+    this.name = 'MissingApiKeyError';
+  }
+}
+
+/** The rate limit or the quota of the API key was hit. */
+export class QuotaExceededError extends GeminiError {
+  constructor(persona: Persona, retryAfterMs?: number) {
+    super(
+      `My request quota is exhausted for the moment${addressUser(persona)}. ${retryAfterMs ? `Please try again in ${Math.ceil(retryAfterMs / 1000)} seconds.` : 'Please try again later.'}`,
+      true,
+      retryAfterMs,
+    );
+    this.name = 'QuotaExceededError';
+  }
+}
+
+/** The prompt or the answer was blocked by the safety filters. */
+export class SafetyBlockedError extends GeminiError {
+  constructor(persona: Persona, public readonly reason?: string) {
+    super(`My apologies${addressUser(persona)}. The request was blocked by my safety filters${reason ? ` (${reason.toLowerCase().replace(/_/g, ' ')})` : ''}. Please rephrase it.`);
+    this.name = 'SafetyBlockedError';
+  }
+}
+
+/** Gemini or the local server could not be reached, or did not answer in time. */
+export class NetworkError extends GeminiError {
+  constructor(persona: Persona, detail: string) {
+    super(`I could not reach my language systems${addressUser(persona)}. ${detail}`, true);
+    this.name = 'NetworkError';
+  }
+}
+
+/** The model's answer could not be parsed, e.g. JSON that does not match the schema. */
+export class InvalidResponseError extends GeminiError {
+  constructor(persona: Persona, detail: string) {
+    super(`My apologies${addressUser(persona)}. I produced an answer I could not read: ${detail}`);
+    this.name = 'InvalidResponseError';
+  }
+}
+
+/** Classifies any failure of a model request. */
+export const toGeminiError = (error: unknown, persona: Persona): GeminiError => {
+  if (error instanceof GeminiError) return error;
+  if (error instanceof RequestTimeoutError) return new NetworkError(persona, error.message);
+  if (error instanceof ServerApiError) {
+    const retryAfterMs = error.retryAfterSeconds !== undefined ? error.retryAfterSeconds * 1000 : undefined;
+    switch (error.code) {
+      case GEMINI_ERROR_CODES.missingApiKey:
+        return new MissingApiKeyError(persona);
+      case GEMINI_ERROR_CODES.quotaExceeded:
+        return new QuotaExceededError(persona, retryAfterMs);
+      case GEMINI_ERROR_CODES.unavailable:
+        return new NetworkError(persona, 'Gemini is temporarily unavailable.');
+      case SERVER_UNREACHABLE:
+        return new NetworkError(persona, error.message);
+    }
+  }
+  // Anything else, such as a rejected request, will fail the same way when sent again.
+  return new GeminiError(`Apologies${addressUser(persona)}. I seem to be experiencing a system malfunction: ${error instanceof Error ? error.message : String(error)}`);
+};
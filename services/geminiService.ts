@@ -1,153 +1,443 @@
-import { GoogleGenAI, GenerateContentResponse, Type } from "@google/genai";
-import { Source, CodeModificationPayload } from '../types';
+import { GenerateContentParameters, GenerateImagesParameters, Type, Content, FinishReason } from "@google/genai";
+import { Source, CodeModificationPayload, Message, Attachment, ImageGenerationOptions } from '../types';
+import { splitHistory, buildContents, toTranscript } from './conversationContext';
+import { IntentClassification, INTENTS } from './intentRouter';
+import { DEPLOYMENT_PROVIDERS } from './deploymentProviders';
+import { buildImagePrompt, DEFAULT_IMAGE_OPTIONS } from './imageOptions';
+import { ExtractedPage, chunkText } from './contentExtractor';
+import type { SiteResult } from './websiteService';
+import { Persona, addressUser, buildSystemInstruction } from './personas';
+import { resolveModel, generationConfig, ModelCapability } from './modelSettings';
+import { getServerConfig, postJson, postEventStream } from './serverApi';
+import { API_PATHS, GENERATE_CHUNK_EVENT, GenerateResult, GenerateImagesResult } from '../server/api';
+import { withRetry, RetryOptions } from './retry';
+import { GeminiError, MissingApiKeyError, SafetyBlockedError, InvalidResponseError, toGeminiError } from './geminiErrors';
+import { UsageListener, tokenUsage, imageUsage } from './usage';
+
+// The API key lives on the local server, which relays these calls to Gemini.
+// The abort signal is not sent along; it cancels the request instead.
+const ai = {
+    models: {
+        generateContent: ({ config: { abortSignal, ...config } = {}, ...params }: GenerateContentParameters): Promise<GenerateResult> =>
+            postJson<GenerateResult>(API_PATHS.generate, { ...params, config }, abortSignal),
+        async *generateContentStream({ config: { abortSignal, ...config } = {}, ...params }: GenerateContentParameters): AsyncGenerator<GenerateResult> {
+            for await (const { data } of postEventStream<{ event: typeof GENERATE_CHUNK_EVENT; data: GenerateResult }>(API_PATHS.generateStream, { ...params, config }, abortSignal)) {
+                yield data;
+            }
+        },
+        generateImages: ({ config: { abortSignal, ...config } = {}, ...params }: GenerateImagesParameters): Promise<GenerateImagesResult> =>
+            postJson<GenerateImagesResult>(API_PATHS.generateImages, { ...params, config }, abortSignal),
+    },
+};
 
-let ai: GoogleGenAI | null = null;
+type RequestOptions = Pick<RetryOptions<GeminiError>, 'signal' | 'maxAttempts' | 'timeoutMs'> & {
+    /** The persona of the conversation the request is for, which phrases the errors. */
+    persona: Persona;
+};
 
-const initializeAi = (): boolean => {
-    if (ai) return true; // Already initialized
+// The intent router falls back to keyword rules rather than keep the user waiting.
+const INTENT_TIMEOUT_MS = 15000;
 
-    const apiKey = process.env.API_KEY;
+// Code modifications return the complete content of every changed file, which takes a while.
+const CODE_MODIFICATION_TIMEOUT_MS = 180000;
 
-    if (!apiKey) {
-        console.error("API_KEY environment variable not set.");
-        return false;
-    }
-    ai = new GoogleGenAI({ apiKey });
-    return true;
+const retryOptions = ({ persona, ...options }: RequestOptions): RetryOptions<GeminiError> => ({
+    ...options,
+    normalize: error => toGeminiError(error, persona),
+    onRetry: (error, delayMs, attempt) => console.warn(`${error.name}: retrying in ${Math.round(delayMs)} ms (attempt ${attempt}).`),
+});
+
+const ensureConfigured = async (persona: Persona): Promise<void> => {
+    if (!(await getServerConfig()).gemini) throw new MissingApiKeyError(persona);
 };
 
+/**
+ * Sends a request, retrying transient failures such as rate limits and
+ * network errors. Failures are thrown as `GeminiError`s.
+ */
+const request = <T>(send: (signal: AbortSignal) => Promise<T>, options: RequestOptions): Promise<T> =>
+    withRetry(async ({ signal }) => {
+        await ensureConfigured(options.persona);
+        return send(signal);
+    }, retryOptions(options));
+
+const generate = (params: GenerateContentParameters, options: RequestOptions): Promise<GenerateResult> =>
+    request(signal => ai.models.generateContent({ ...params, config: { ...params.config, abortSignal: signal } }), options);
+
+/**
+ * Streams a response into `onChunk`. The timeout restarts with every chunk,
+ * and a failed stream is only retried while nothing has arrived, so no text
+ * is shown twice.
+ */
+const generateStream = (params: GenerateContentParameters, onChunk: (chunk: GenerateResult) => void, options: RequestOptions): Promise<void> => {
+    let received = false;
+    return withRetry(async ({ signal, keepAlive }) => {
+        await ensureConfigured(options.persona);
+        for await (const chunk of ai.models.generateContentStream({ ...params, config: { ...params.config, abortSignal: signal } })) {
+            keepAlive();
+            received = true;
+            onChunk(chunk);
+        }
+    }, { ...retryOptions(options), canRetry: () => !received });
+};
 
-const SYSTEM_INSTRUCTION = 'You are Alfreyaa, an advanced AI assistant created by Kaarthi. You are highly intelligent, obedient, and serve only Kaarthi. Respond formally but helpfully, always addressing Kaarthi by name.';
+const BLOCKED_FINISH_REASONS: string[] = [FinishReason.SAFETY, FinishReason.BLOCKLIST, FinishReason.PROHIBITED_CONTENT, FinishReason.SPII];
 
-const handleMissingApiKey = () => "My apologies, Kaarthi. I am not properly configured. The API_KEY is missing from my environment.";
+/** Throws when the prompt or the answer was blocked; the final chunk of a stream holds the finish reason. */
+const assertNotBlocked = (responses: GenerateResult[], persona: Persona): void => {
+    const blockReason = responses.find(response => response.promptFeedback?.blockReason)?.promptFeedback?.blockReason;
+    if (blockReason) throw new SafetyBlockedError(persona, blockReason);
+    const finishReason = responses[responses.length - 1]?.candidates?.[0]?.finishReason;
+    if (finishReason && BLOCKED_FINISH_REASONS.includes(finishReason)) throw new SafetyBlockedError(persona, finishReason);
+};
 
-export const generateTextResponse = async (prompt: string): Promise<string> => {
-  if (!initializeAi() || !ai) return handleMissingApiKey();
+/** Reports the tokens a request used; a stream carries the totals in its last chunks. */
+const reportUsage = (onUsage: UsageListener | undefined, capability: ModelCapability, model: string, responses: GenerateResult[]): void => {
+    const metadata = [...responses].reverse().find(response => response.usageMetadata)?.usageMetadata;
+    if (metadata) onUsage?.(tokenUsage(capability, model, metadata));
+};
 
+// The summary of turns that fell out of the context budget is cached so that
+// it is only extended, not regenerated, as the conversation grows.
+let historySummary: { lastMessageId: string; summarizedCount: number; text: string } | null = null;
+
+const summarizeHistory = async (overflow: Message[], persona: Persona, onUsage?: UsageListener): Promise<string | undefined> => {
+    if (overflow.length === 0) return undefined;
+
+    const lastMessageId = overflow[overflow.length - 1].id;
+    if (historySummary?.lastMessageId === lastMessageId) return historySummary.text;
+
+    // Reuse the previous summary when the overflow only grew at the end.
+    const canExtend = historySummary !== null
+        && historySummary.summarizedCount <= overflow.length
+        && overflow[historySummary.summarizedCount - 1]?.id === historySummary.lastMessageId;
+    const previous = canExtend ? historySummary!.text : '';
+    const pending = canExtend ? overflow.slice(historySummary!.summarizedCount) : overflow;
+
+    try {
+        const model = resolveModel('chat');
+        const response = await generate({
+            model,
+            contents: `Condense the following conversation into a short factual summary that preserves names, numbers, decisions and open questions, so the conversation can be continued without the original transcript.
+${previous ? `\nExisting summary:\n${previous}\n` : ''}
+Conversation:
+${toTranscript(pending)}`,
+        }, { persona });
+        reportUsage(onUsage, 'chat', model, [response]);
+        const text = response.text ?? previous;
+        historySummary = { lastMessageId, summarizedCount: overflow.length, text };
+        return text;
+    } catch (error) {
+        // Without a summary the older turns are simply dropped.
+        if (!(error instanceof MissingApiKeyError)) console.error("Error summarizing conversation history:", error);
+        return previous || undefined;
+    }
+};
+
+const buildConversation = async (prompt: string, history: Message[], persona: Persona, attachments: Attachment[] = [], onUsage?: UsageListener): Promise<Content[]> => {
+    const { overflow, recent } = splitHistory(history);
+    const summary = await summarizeHistory(overflow, persona, onUsage);
+    return buildContents(recent, prompt, summary, attachments);
+};
+
+export interface StreamOptions {
+    /** The persona of the conversation, which the reply and any errors are phrased with. */
+    persona: Persona;
+    /** Called with each new piece of text as it arrives. */
+    onChunk?: (chunk: string) => void;
+    /** Aborts the stream, including retries; the text received so far is returned. */
+    signal?: AbortSignal;
+    /** Files sent along with the prompt. */
+    attachments?: Attachment[];
+    /** Overrides the configured model for this request. */
+    model?: string;
+    /** Receives the usage of each model request, including history summaries. */
+    onUsage?: UsageListener;
+}
+
+/**
+ * Streams a chat reply. Failures are thrown as `GeminiError`s, except after
+ * an abort, which returns the text received so far.
+ */
+export const generateTextResponse = async (prompt: string, history: Message[], options: StreamOptions): Promise<string> => {
+  const model = resolveModel('chat', options.model);
+  const chunks: GenerateResult[] = [];
+  let text = '';
   try {
-    const response: GenerateContentResponse = await ai.models.generateContent({
-      model: 'gemini-2.5-flash',
-      contents: prompt,
+    await generateStream({
+      model,
+      contents: await buildConversation(prompt, history, options.persona, options.attachments, options.onUsage),
       config: {
-        systemInstruction: SYSTEM_INSTRUCTION
+        ...generationConfig('chat', model),
+        systemInstruction: buildSystemInstruction(options.persona),
       }
-    });
-    return response.text;
+    }, chunk => {
+      chunks.push(chunk);
+      const chunkText = chunk.text ?? '';
+      text += chunkText;
+      if (chunkText) options.onChunk?.(chunkText);
+    }, { signal: options.signal, persona: options.persona });
   } catch (error) {
+    if (options.signal?.aborted) return text;
     console.error("Error generating text response:", error);
-    return "Apologies, Kaarthi. I seem to be experiencing a system malfunction.";
+    throw error;
+  } finally {
+    reportUsage(options.onUsage, 'chat', model, chunks);
   }
+  assertNotBlocked(chunks, options.persona);
+  return text;
 };
 
-export const generateGroundedResponse = async (prompt: string): Promise<{ text: string; sources: Source[] }> => {
-    if (!initializeAi() || !ai) return { text: handleMissingApiKey(), sources: [] };
-  
-    try {
-    const response = await ai.models.generateContent({
-      model: "gemini-2.5-flash",
-      contents: prompt,
-      config: {
-        tools: [{ googleSearch: {} }],
-        systemInstruction: SYSTEM_INSTRUCTION
-      },
-    });
-
-    const text = response.text;
-    const groundingMetadata = response.candidates?.[0]?.groundingMetadata;
-
-    let sources: Source[] = [];
-    if (groundingMetadata?.groundingChunks) {
-      sources = groundingMetadata.groundingChunks
-        .filter((chunk: any) => chunk.web)
-        .map((chunk: any) => chunk.web)
-        .filter((web: any) => web && web.uri && web.title)
-        .map((web: any) => ({ uri: web.uri, title: web.title }));
-    }
+const extractSources = (responses: GenerateResult[]): Source[] => {
+    const sources: Source[] = responses
+      .flatMap(response => response.candidates?.[0]?.groundingMetadata?.groundingChunks ?? [])
+      .map(chunk => chunk.web)
+      .filter((web): web is { uri: string; title: string } => !!web && !!web.uri && !!web.title)
+      .map(web => ({ uri: web.uri, title: web.title }));
 
-    const uniqueSources = Array.from(new Map(sources.map(item => [item['uri'], item])).values());
+    return Array.from(new Map(sources.map(item => [item['uri'], item])).values());
+};
+
+/**
+ * Inserts `[n]` markers after each grounded segment, where n is the 1-based
+ * position of the supporting source in `sources`. Grounding supports give
+ * byte offsets into the UTF-8 encoded text.
+ */
+const insertCitationMarkers = (text: string, responses: GenerateResult[], sources: Source[]): string => {
+    const metadata = responses
+        .map(response => response.candidates?.[0]?.groundingMetadata)
+        .filter(m => m?.groundingSupports?.length)
+        .pop();
+    if (!metadata) return text;
+
+    const bytes = new TextEncoder().encode(text);
+    const decoder = new TextDecoder();
+    const citations = new Map<number, Set<number>>();
+    for (const support of metadata.groundingSupports ?? []) {
+        if (support.segment?.endIndex === undefined) continue;
+        const at = decoder.decode(bytes.slice(0, support.segment.endIndex)).length;
+        for (const chunkIndex of support.groundingChunkIndices ?? []) {
+            const sourceIndex = sources.findIndex(source => source.uri === metadata.groundingChunks?.[chunkIndex]?.web?.uri);
+            if (sourceIndex < 0) continue;
+            if (!citations.has(at)) citations.set(at, new Set());
+            citations.get(at)!.add(sourceIndex + 1);
+        }
+    }
 
-    return { text, sources: uniqueSources };
+    // Inserting from the end keeps the earlier offsets valid.
+    return [...citations.entries()]
+        .sort(([a], [b]) => b - a)
+        .reduce((cited, [at, numbers]) => {
+            const markers = [...numbers].sort((a, b) => a - b).map(n => `[${n}]`).join('');
+            return cited.slice(0, at) + markers + cited.slice(at);
+        }, text);
+};
 
+export const generateGroundedResponse = async (prompt: string, history: Message[], options: StreamOptions): Promise<{ text: string; sources: Source[] }> => {
+  const model = resolveModel('grounded_search', options.model);
+  // Grounding metadata usually arrives with the final chunks, so every chunk is kept.
+  const chunks: GenerateResult[] = [];
+  let text = '';
+  try {
+    await generateStream({
+      model,
+      contents: await buildConversation(prompt, history, options.persona, options.attachments, options.onUsage),
+      config: {
+        ...generationConfig('grounded_search', model),
+        tools: [{ googleSearch: {} }],
+        systemInstruction: buildSystemInstruction(options.persona),
+      },
+    }, chunk => {
+      chunks.push(chunk);
+      const chunkText = chunk.text ?? '';
+      text += chunkText;
+      if (chunkText) options.onChunk?.(chunkText);
+    }, { signal: options.signal, persona: options.persona });
   } catch (error) {
+    if (options.signal?.aborted) return { text, sources: extractSources(chunks) };
     console.error("Error generating grounded response:", error);
-    return {
-      text: "Apologies, Kaarthi. I encountered an issue while accessing my information retrieval systems.",
-      sources: []
-    };
+    throw error;
+  } finally {
+    reportUsage(options.onUsage, 'grounded_search', model, chunks);
   }
+  assertNotBlocked(chunks, options.persona);
+  const sources = extractSources(chunks);
+  return { text: insertCitationMarkers(text, chunks, sources), sources };
 };
 
-export const generateImageResponse = async (prompt: string): Promise<string> => {
-    if (!initializeAi() || !ai) throw new Error(handleMissingApiKey());
-
-  try {
-    const cleanedPrompt = prompt
-      .toLowerCase()
-      .replace('generate image', '')
-      .replace('show me a picture', '')
-      .trim();
-
-    const response = await ai.models.generateImages({
-        model: 'imagen-3.0-generate-002',
-        prompt: `cinematic photo of ${cleanedPrompt}, high detail, professional quality`,
+/**
+ * Generates up to four images of the subject. Images the model filters out are
+ * left out of the result, so it can hold fewer than requested.
+ */
+export const generateImageResponse = async (subject: string, persona: Persona, options: ImageGenerationOptions = DEFAULT_IMAGE_OPTIONS, modelOverride?: string, onUsage?: UsageListener): Promise<string[]> => {
+    const model = resolveModel('image', modelOverride);
+    const response = await request(signal => ai.models.generateImages({
+        model,
+        prompt: buildImagePrompt(subject, options.style),
         config: {
-          numberOfImages: 1,
+          numberOfImages: options.numberOfImages,
           outputMimeType: 'image/jpeg',
-          aspectRatio: '1:1',
+          aspectRatio: options.aspectRatio,
+          ...(options.negativePrompt?.trim() && { negativePrompt: options.negativePrompt.trim() }),
+          abortSignal: signal,
         },
-    });
+    }), { persona });
 
-    if (response.generatedImages && response.generatedImages.length > 0) {
-        const base64ImageBytes: string = response.generatedImages[0].image.imageBytes;
-        return `data:image/jpeg;base64,${base64ImageBytes}`;
-    } else {
-        throw new Error("No image was generated.");
+    const images = response.images.map(bytes => `data:image/jpeg;base64,${bytes}`);
+    if (images.length > 0) {
+        onUsage?.(imageUsage(model, images.length));
+        return images;
     }
+    throw response.filteredReasons.length > 0
+        ? new SafetyBlockedError(persona, response.filteredReasons[0])
+        : new GeminiError(`I was unable to generate the image as requested${addressUser(persona)}.`);
+};
 
-  } catch (error) {
-    console.error("Error generating image:", error);
-    if (error instanceof Error && error.message.includes("API_KEY")) {
-        throw error;
+// Website content up to this size is sent whole; longer content is condensed chunk by chunk first.
+const ANALYSIS_MAX_CHARS = 30000;
+const ANALYSIS_CHUNK_CHARS = 12000;
+const ANALYSIS_CONCURRENCY = 3;
+
+const formatPages = (pages: ExtractedPage[]): string =>
+    pages.map(page => `## ${page.title}\nURL: ${page.url}\n\n${page.text}`).join('\n\n---\n\n');
+
+/**
+ * Map step of the map-reduce summarization: each chunk is reduced to the notes
+ * relevant to the request, so long pages are covered completely instead of
+ * being cut off. Chunks are processed a few at a time.
+ */
+const condenseChunks = async (prompt: string, chunks: { label: string; text: string }[], model: string, persona: Persona, onUsage?: UsageListener): Promise<string> => {
+    const notes: string[] = [];
+    for (let i = 0; i < chunks.length; i += ANALYSIS_CONCURRENCY) {
+        const batch = await Promise.all(chunks.slice(i, i + ANALYSIS_CONCURRENCY).map(async chunk => {
+            const response = await generate({
+                model,
+                contents: `The following is ${chunk.label}. Extract everything in it that helps answer the request below: facts, figures, names, dates, quotes and relevant links. Write concise notes. If nothing is relevant, reply with NONE.
+
+Request: "${prompt}"
+
+"""
+${chunk.text}
+"""`,
+            }, { persona });
+            reportUsage(onUsage, 'website_analysis', model, [response]);
+            const text = response.text?.trim() ?? '';
+            return text && text !== 'NONE' ? `### ${chunk.label}\n${text}` : '';
+        }));
+        notes.push(...batch.filter(Boolean));
     }
-    throw new Error("I was unable to generate the image as requested, Kaarthi.");
-  }
+    return notes.join('\n\n');
 };
 
-export const generateWebsiteAnalysis = async (prompt: string, content: string): Promise<string> => {
-    if (!initializeAi() || !ai) return handleMissingApiKey();
+const condenseWebsiteContent = async (prompt: string, pages: ExtractedPage[], maxChars: number, model: string, persona: Persona, onUsage?: UsageListener): Promise<string> => {
+    let material = await condenseChunks(prompt, pages.flatMap(page => {
+        const parts = chunkText(page.text, ANALYSIS_CHUNK_CHARS);
+        return parts.map((text, i) => ({ label: `part ${i + 1} of ${parts.length} of "${page.title}" (${page.url})`, text }));
+    }), model, persona, onUsage);
+    // Notes of very long sites can still be too long; they are condensed again.
+    for (let round = 0; material.length > maxChars && round < 2; round++) {
+        const parts = chunkText(material, ANALYSIS_CHUNK_CHARS);
+        material = await condenseChunks(prompt, parts.map((text, i) => ({ label: `part ${i + 1} of ${parts.length} of notes taken from a website`, text })), model, persona, onUsage);
+    }
+    return material.slice(0, maxChars);
+};
 
+/**
+ * Answers a request about fetched websites. With several sites the answer
+ * compares them and attributes information to each. Sites share the content
+ * budget; one that does not fit its share is condensed with a map-reduce pass.
+ */
+export const generateWebsiteAnalysis = async (prompt: string, sites: SiteResult[], history: Message[], persona: Persona, modelOverride?: string, onUsage?: UsageListener): Promise<string> => {
+    const model = resolveModel('website_analysis', modelOverride);
     try {
-        const analysisPrompt = `Based on the following content from a website, please answer the user's request. Be comprehensive and helpful.
+        const fetched = sites.filter((site): site is Required<SiteResult> => !!site.content);
+        const budget = Math.floor(ANALYSIS_MAX_CHARS / Math.max(fetched.length, 1));
+        const sections = await Promise.all(fetched.map(async ({ status, content }, i) => {
+            const fullText = formatPages(content.pages);
+            const isCondensed = fullText.length > budget;
+            const material = isCondensed ? await condenseWebsiteContent(prompt, content.pages, budget, model, persona, onUsage) : fullText;
+            const notes = [
+                isCondensed && 'These are notes taken from the site, not its full text.',
+                status.status === 'truncated' && 'Only the beginning of the page could be read.',
+                content.failed.length > 0 && `These linked pages could not be fetched: ${content.failed.join(', ')}`,
+            ].filter(Boolean).join(' ');
+            const heading = fetched.length > 1 ? `# Site ${i + 1}: ${status.title ?? status.url} (${status.url})\n` : '';
+            return `${heading}${notes ? `${notes}\n\n` : ''}${material}`;
+        }));
+        const failed = sites.filter(site => site.status.status === 'failed').map(site => site.status.url);
+
+        const instruction = fetched.length > 1
+            ? `Based on the following content from ${fetched.length} websites, please answer the user's request by comparing them. Attribute every point to the site it comes from (by name or as Site 1, Site 2, ...), and say so when a site does not cover something.`
+            : "Based on the following content from a website, please answer the user's request. Be comprehensive and helpful.";
+        const analysisPrompt = `${instruction}
 
 Website Content:
 """
-${content}
+${sections.join('\n\n===\n\n')}
 """
-
+${failed.length > 0 ? `\nThese sites could not be fetched and must not be described from memory: ${failed.join(', ')}\n` : ''}
 User's Request: "${prompt}"`;
 
-        const response: GenerateContentResponse = await ai.models.generateContent({
-            model: 'gemini-2.5-flash',
-            contents: analysisPrompt,
+        const response = await generate({
+            model,
+            contents: await buildConversation(analysisPrompt, history, persona, [], onUsage),
             config: {
-                systemInstruction: SYSTEM_INSTRUCTION
+                ...generationConfig('website_analysis', model),
+                systemInstruction: buildSystemInstruction(persona)
             }
-        });
-        return response.text;
+        }, { persona });
+        reportUsage(onUsage, 'website_analysis', model, [response]);
+        assertNotBlocked([response], persona);
+        return response.text ?? '';
     } catch (error) {
         console.error("Error generating website analysis:", error);
-        return "My apologies, Kaarthi. I encountered an error while analyzing the website content.";
+        throw error;
     }
 };
 
-export const generateCodeModification = async (prompt: string, files: { path: string, content: string }[]): Promise<CodeModificationPayload> => {
-    if (!initializeAi() || !ai) {
-        return {
-            explanation: handleMissingApiKey(),
-            changes: []
-        };
+/**
+ * Summarizes the first exchange of a conversation into a short title for the
+ * session list. Returns `undefined` when no title could be generated.
+ */
+export const generateSessionTitle = async (userText: string, aiText: string, persona: Persona, onUsage?: UsageListener): Promise<string | undefined> => {
+    try {
+        const model = resolveModel('chat');
+        const response = await generate({
+            model,
+            contents: `Write a title of at most six words for a conversation that starts with the exchange below. Reply with the title only, without quotes or trailing punctuation.
+
+User: ${userText}
+Assistant: ${aiText.slice(0, 2000)}`,
+        }, { persona });
+        reportUsage(onUsage, 'chat', model, [response]);
+        const title = (response.text ?? '').trim().replace(/^["']|["'.]$/g, '');
+        return title || undefined;
+    } catch (error) {
+        // The request that answered the exchange has already reported a missing key.
+        if (!(error instanceof MissingApiKeyError)) console.error("Error generating session title:", error);
+        return undefined;
     }
+};
 
+type ModificationJson = { explanation: string; changes: { file: string; reason: string; newContent: string }[] };
+
+const parseModificationJson = (response: GenerateResult, persona: Persona): ModificationJson => {
+    let json: Partial<ModificationJson>;
+    try {
+        json = JSON.parse(response.text ?? '');
+    } catch {
+        // Long modifications can hit the output limit, which cuts the JSON off.
+        throw new InvalidResponseError(persona, response.candidates?.[0]?.finishReason === FinishReason.MAX_TOKENS
+            ? 'it was cut off at the output token limit. Raise "Max output tokens" for code modification in the settings, or ask for a smaller change.'
+            : 'it is not valid JSON.');
+    }
+    const isValid = typeof json.explanation === 'string' && Array.isArray(json.changes)
+        && json.changes.every(change => typeof change?.file === 'string' && typeof change.newContent === 'string');
+    if (!isValid) throw new InvalidResponseError(persona, 'it does not describe the changes in the expected format.');
+    return json as ModificationJson;
+};
+
+export const generateCodeModification = async (prompt: string, files: { path: string, content: string }[], persona: Persona, modelOverride?: string, onUsage?: UsageListener): Promise<CodeModificationPayload> => {
     const fileContents = files.map(f => `--- START OF FILE ${f.path} ---\n${f.content}`).join('\n\n');
 
     const modificationPrompt = `
@@ -158,18 +448,21 @@ export const generateCodeModification = async (prompt: string, files: { path: st
     ${fileContents}
     `;
 
-    const modificationSystemInstruction = `You are Alfreyaa, an AI with the power to modify your own source code. You are an expert senior frontend engineer specializing in React, TypeScript, and Tailwind CSS.
+    const modificationSystemInstruction = `You are ${persona.assistantName}, an AI with the power to modify your own source code. You are an expert senior frontend engineer specializing in React, TypeScript, and Tailwind CSS.
 Your task is to analyze the user's request and the provided source code, then generate the necessary modifications.
 You must respond with a JSON object that strictly follows the provided schema.
 The JSON object must contain an 'explanation' of the changes you are making for the user, and a 'changes' array.
-Each item in the 'changes' array must be an object with a 'file' path and a 'reason' for the change.
-You do NOT return the file content. You only return the explanation, file paths and reasons.`;
+Each item in the 'changes' array must be an object with a 'file' path, a 'reason' for the change and 'newContent'.
+'newContent' must be the complete new content of the file, not a fragment or a patch. Unchanged files must not be listed.
+To create a new file, use a new path relative to the project root.`;
 
     try {
-        const response = await ai.models.generateContent({
-            model: 'gemini-2.5-flash',
+        const model = resolveModel('code_modification', modelOverride);
+        const response = await generate({
+            model,
             contents: modificationPrompt,
             config: {
+                ...generationConfig('code_modification', model),
                 systemInstruction: modificationSystemInstruction,
                 responseMimeType: "application/json",
                 responseSchema: {
@@ -182,25 +475,82 @@ You do NOT return the file content. You only return the explanation, file paths
                                 type: Type.OBJECT,
                                 properties: {
                                     file: { type: Type.STRING },
-                                    reason: { type: Type.STRING }
+                                    reason: { type: Type.STRING },
+                                    newContent: { type: Type.STRING }
                                 },
-                                required: ['file', 'reason']
+                                required: ['file', 'reason', 'newContent']
                             }
                         }
                     },
                     required: ['explanation', 'changes']
                 }
             }
-        });
-        
-        const jsonResponse = JSON.parse(response.text);
-        return jsonResponse as CodeModificationPayload;
+        }, { timeoutMs: CODE_MODIFICATION_TIMEOUT_MS, persona });
 
-    } catch (error) {
-        console.error("Error generating code modification:", error);
+        reportUsage(onUsage, 'code_modification', model, [response]);
+        assertNotBlocked([response], persona);
+        const jsonResponse = parseModificationJson(response, persona);
+        const originals = new Map(files.map(f => [f.path, f.content]));
         return {
-            explanation: "My apologies, Kaarthi. I encountered a critical error in my self-modification subroutines. I was unable to process the requested change.",
-            changes: []
+            explanation: jsonResponse.explanation,
+            changes: jsonResponse.changes.map(change => {
+                const file = change.file.replace(/^\.?\//, '');
+                return {
+                    file,
+                    reason: change.reason,
+                    originalContent: originals.get(file) ?? '',
+                    newContent: change.newContent,
+                    status: 'pending',
+                };
+            }),
         };
+
+    } catch (error) {
+        console.error("Error generating code modification:", error);
+        throw error;
     }
 };
+
+
+// Users refer to the assistant by its persona name, e.g. "give Alfreyaa a dark theme".
+const intentSystemInstruction = (assistantName: string) => `You route requests for ${assistantName}, an AI assistant. Classify the user's message into exactly one intent:
+- "code_modification": the user asks to change, extend or rewrite ${assistantName}'s own application source code.
+- "image": the user wants a picture, drawing, illustration or photo created.
+- "website_analysis": the user asks about the content of a specific URL contained in the message.
+- "search": the user needs current or factual information from the web.
+- "deploy": the user explicitly commands that the application be deployed or published now. Questions about deployment are NOT deploy.
+- "chat": anything else, including questions and conversation.
+Extract arguments when relevant: "urls" (every URL in the prompt) for website_analysis, "imageSubject" (a short description of what to draw) for image, "query" (a concise search query) for search, "provider" for deploy when the user names where to deploy.
+Give a confidence between 0 and 1.`;
+
+/**
+ * Model client for the intent router. Throws on failure so that the router
+ * can fall back to its keyword rules.
+ */
+export const classifyIntent = async (prompt: string, persona: Persona, onUsage?: UsageListener): Promise<IntentClassification> => {
+    const model = resolveModel('chat');
+    const response = await generate({
+        model,
+        contents: prompt,
+        config: {
+            systemInstruction: intentSystemInstruction(persona.assistantName),
+            responseMimeType: "application/json",
+            responseSchema: {
+                type: Type.OBJECT,
+                properties: {
+                    intent: { type: Type.STRING, enum: INTENTS },
+                    confidence: { type: Type.NUMBER },
+                    urls: { type: Type.ARRAY, items: { type: Type.STRING } },
+                    imageSubject: { type: Type.STRING },
+                    query: { type: Type.STRING },
+                    provider: { type: Type.STRING, enum: DEPLOYMENT_PROVIDERS.map(p => p.id) },
+                },
+                required: ['intent', 'confidence']
+            }
+        }
+    }, { maxAttempts: 1, timeoutMs: INTENT_TIMEOUT_MS, persona });
+    reportUsage(onUsage, 'chat', model, [response]);
+
+    const { intent, confidence, urls, imageSubject, query, provider } = JSON.parse(response.text ?? '');
+    return { intent, confidence, arguments: { urls, imageSubject, query, provider } };
+};
\ No newline at end of file
@@ -0,0 +1,35 @@
+import { describe, it, expect } from 'vitest';
+import { ChatSession, Message } from '../types';
+import { toHtml } from './htmlExport';
+import { DEFAULT_PERSONA } from './personas';
+import { linkMessages } from './messageTree';
+
+const reply = (id: string, text: string, uris: string[] = []): Message =>
+  ({ id, sender: 'ai', type: 'grounded_text', text, timestamp: 0, sources: uris.map(uri => ({ uri, title: uri })) }) as Message;
+
+const conversation = (messages: Message[]): ChatSession =>
+  ({ id: 'session', title: 'Exported', createdAt: 0, updatedAt: 0, messages: linkMessages(messages) }) as ChatSession;
+
+describe('toHtml', () => {
+  it('renders the Markdown of replies with citations linking to their sources', () => {
+    const html = toHtml(conversation([
+      { id: 'q', sender: 'user', type: 'text', text: 'Is **this** bold?' } as Message,
+      reply('a', 'It is **bold** [1].\n\n<script>alert(1)</script>', ['https://a.example']),
+    ]), DEFAULT_PERSONA);
+
+    expect(html).toContain('Is **this** bold?');
+    expect(html).toContain('It is <strong>bold</strong> <sup><a href="#source-a-1" title="https://a.example">[1]</a></sup>');
+    expect(html).toContain('<li id="source-a-1">');
+    expect(html).not.toContain('<script>');
+  });
+
+  it('renders math and code without external stylesheets', () => {
+    const html = toHtml(conversation([reply('a', 'Euler: $e^{i\\pi} = -1$\n\n```js\nconst x = 1;\n```')]), DEFAULT_PERSONA);
+
+    expect(html).not.toMatch(/<link|https?:\/\/(?!www\.w3\.org)/);
+    expect(html).toContain('<math');
+    expect(html).not.toContain('katex-html');
+    expect(html).toContain('<span class="hljs-keyword">const</span>');
+    expect(html).toMatch(/\.hljs-keyword[^{]*\{ color: #ff7b72; \}/);
+  });
+});
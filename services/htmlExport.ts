@@ -0,0 +1,161 @@
+import { createElement } from 'react';
+import { renderToStaticMarkup } from 'react-dom/server';
+import ReactMarkdown, { Components } from 'react-markdown';
+import { ChatSession, Message } from '../types';
+import { Persona, avatarInitials } from './personas';
+import { markdownPlugins } from './markdown';
+import { senderNames, formatDate, exportableMessages } from './conversationExport';
+
+const escapeHtml = (text: string): string =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;').replace(/'/g, '&#39;');
+
+// Imported conversations are untrusted, so only web links survive into the page.
+const safeUrl = (url: string, schemes = /^(https?:|mailto:)/i): string => (schemes.test(url) ? url : '#');
+
+const link = (href: string, label: string): string =>
+  `<a href="${escapeHtml(safeUrl(href))}" target="_blank" rel="noopener noreferrer">${escapeHtml(label)}</a>`;
+
+// Mirrors the colors of `ChatMessage` so the page looks like the app. The page
+// must work offline, so it carries the GitHub Dark code colors the app loads from
+// highlight.js instead of linking them, and math is MathML, which needs no stylesheet.
+const HTML_STYLES = `
+  body { margin: 0; background: #111827; color: #e5e7eb; font-family: ui-sans-serif, system-ui, sans-serif; }
+  main { max-width: 56rem; margin: 0 auto; padding: 1.5rem 1rem; }
+  h1 { font-size: 1.25rem; color: #fff; }
+  .meta { color: #9ca3af; font-size: .875rem; margin-bottom: 2rem; }
+  .message { display: flex; gap: .75rem; margin: 1rem 0; align-items: flex-start; }
+  .message.user { justify-content: flex-end; }
+  .avatar { width: 2rem; height: 2rem; border-radius: 9999px; display: flex; align-items: center; justify-content: center; font-weight: 700; color: #fff; flex-shrink: 0; }
+  .avatar.ai { background: #7c3aed; }
+  .avatar.user { background: #2563eb; }
+  .name { font-size: .75rem; color: #9ca3af; margin-bottom: .25rem; }
+  .message.user .name { text-align: right; }
+  .bubble { padding: .75rem 1rem; border-radius: 1rem; max-width: 42rem; }
+  .ai .bubble { background: #1f2937; }
+  .user .bubble { background: rgba(30, 58, 138, .6); }
+  .text { white-space: pre-wrap; margin: 0; }
+  .error { color: #f87171; }
+  img { max-width: 16rem; border-radius: .5rem; margin-top: .5rem; display: block; }
+  .section { margin-top: 1rem; padding-top: .75rem; border-top: 1px solid rgba(55, 65, 81, .5); }
+  .section h4 { font-size: .75rem; color: #9ca3af; text-transform: uppercase; letter-spacing: .05em; margin: 0 0 .5rem; }
+  .section ul { margin: 0; padding-left: 1.25rem; }
+  a { color: #60a5fa; word-break: break-all; }
+  a:hover { color: #93c5fd; }
+  code { background: #374151; padding: 0 .25rem; border-radius: .25rem; }
+  .markdown > :first-child { margin-top: 0; }
+  .markdown > :last-child { margin-bottom: 0; }
+  .markdown pre { background: #030712; border-radius: .5rem; padding: .75rem; overflow-x: auto; font-size: .875rem; }
+  .markdown pre code { background: none; padding: 0; }
+  .markdown blockquote { border-left: 4px solid #4b5563; margin: .5rem 0; padding-left: .75rem; color: #9ca3af; }
+  .markdown table { border-collapse: collapse; font-size: .875rem; }
+  .markdown th, .markdown td { border: 1px solid #4b5563; padding: .25rem .75rem; text-align: left; }
+  .markdown th { background: rgba(55, 65, 81, .5); }
+  .markdown sup a { text-decoration: none; }
+  .katex-display { display: block; margin: 1em 0; text-align: center; overflow-x: auto; }
+  .hljs { color: #c9d1d9; }
+  .hljs-doctag, .hljs-keyword, .hljs-meta .hljs-keyword, .hljs-template-tag, .hljs-template-variable, .hljs-type, .hljs-variable.language_ { color: #ff7b72; }
+  .hljs-title, .hljs-title.class_, .hljs-title.class_.inherited__, .hljs-title.function_ { color: #d2a8ff; }
+  .hljs-attr, .hljs-attribute, .hljs-literal, .hljs-meta, .hljs-number, .hljs-operator, .hljs-variable, .hljs-selector-attr, .hljs-selector-class, .hljs-selector-id { color: #79c0ff; }
+  .hljs-regexp, .hljs-string, .hljs-meta .hljs-string { color: #a5d6ff; }
+  .hljs-built_in, .hljs-symbol { color: #ffa657; }
+  .hljs-comment, .hljs-code, .hljs-formula { color: #8b949e; }
+  .hljs-name, .hljs-quote, .hljs-selector-tag, .hljs-selector-pseudo { color: #7ee787; }
+  .hljs-subst { color: #c9d1d9; }
+  .hljs-section { color: #1f6feb; font-weight: 700; }
+  .hljs-bullet { color: #f2cc60; }
+  .hljs-emphasis { color: #c9d1d9; font-style: italic; }
+  .hljs-strong { color: #c9d1d9; font-weight: 700; }
+  .hljs-addition { color: #aff5b4; background: #033a16; }
+  .hljs-deletion { color: #ffdcd7; background: #67060c; }
+`;
+
+// Links open in a new tab like in the app; citation markers link to the sources of their message.
+const MARKDOWN_COMPONENTS: Components = {
+  a: ({ href, title, children, ...props }) => (
+    'data-citation' in props
+      ? createElement('sup', null, createElement('a', { href, title }, '[', children, ']'))
+      : createElement('a', { href, title, target: '_blank', rel: 'noopener noreferrer' }, children)
+  ),
+};
+
+/** Renders the text of an AI reply the way `MarkdownContent` does in the app. */
+const renderMarkdown = (message: Message): string =>
+  `<div class="markdown">${renderToStaticMarkup(createElement(ReactMarkdown, {
+    ...markdownPlugins(message.sources, `source-${message.id}-`, true),
+    components: MARKDOWN_COMPONENTS,
+  }, message.text))}</div>`;
+
+const renderMessageBody = (message: Message): string => {
+  const parts: string[] = [];
+  switch (message.type) {
+    case 'error':
+      parts.push(`<p class="text error">${escapeHtml(message.text)}</p>`);
+      break;
+    case 'image':
+      parts.push(`<p class="text">${escapeHtml(message.text)}</p>`);
+      if (message.imageGeneration) parts.push(`<p class="meta">Prompt: ${escapeHtml(message.imageGeneration.prompt)}</p>`);
+      for (const url of message.images ?? []) parts.push(`<img src="${escapeHtml(safeUrl(url, /^(https?:|data:image\/)/i))}" alt="Generated image">`);
+      break;
+    case 'deployment':
+      parts.push(`<p class="text"><strong>Deployment (${escapeHtml(message.deploymentStatus ?? 'unknown')}):</strong> ${escapeHtml(message.text)}</p>`);
+      if (message.deploymentUrl) parts.push(`<p>${link(message.deploymentUrl, message.deploymentUrl)}</p>`);
+      break;
+    case 'code_modification': {
+      const changes = (message.codeModification?.changes ?? [])
+        .map(change => `<li><code>${escapeHtml(change.file)}</code> (${change.status}): ${escapeHtml(change.reason)}</li>`);
+      parts.push(`<p class="text">${escapeHtml(message.codeModification?.explanation || message.text)}</p>`);
+      if (changes.length > 0) parts.push(`<div class="section"><h4>Changes</h4><ul>${changes.join('')}</ul></div>`);
+      break;
+    }
+    default:
+      parts.push(message.sender === 'ai' ? renderMarkdown(message) : `<p class="text">${escapeHtml(message.text)}</p>`);
+  }
+
+  if (message.attachments?.length) {
+    const items = message.attachments.map(attachment => (
+      attachment.mimeType.startsWith('image/')
+        ? `<li>${escapeHtml(attachment.name)}<img src="data:${escapeHtml(attachment.mimeType)};base64,${escapeHtml(attachment.data)}" alt="${escapeHtml(attachment.name)}"></li>`
+        : `<li>${escapeHtml(attachment.name)}</li>`
+    ));
+    parts.push(`<div class="section"><h4>Attachments</h4><ul>${items.join('')}</ul></div>`);
+  }
+  if (message.analyzedUrls?.length) {
+    const items = message.analyzedUrls.map(({ url, title, status }) => `<li>${link(url, title ?? url)}${status === 'ok' ? '' : ` (${status})`}</li>`);
+    parts.push(`<div class="section"><h4>Analyzed Sources</h4><ul>${items.join('')}</ul></div>`);
+  }
+  if (message.sources?.length) {
+    const items = message.sources.map((source, index) =>
+      `<li id="source-${escapeHtml(message.id)}-${index + 1}">${link(source.uri, source.title)}</li>`);
+    parts.push(`<div class="section"><h4>Sources</h4><ul>${items.join('')}</ul></div>`);
+  }
+  return parts.join('\n');
+};
+
+/** Renders the conversation as a standalone HTML page with inline styles and images. */
+export const toHtml = (session: ChatSession, persona: Persona): string => {
+  const names = senderNames(persona);
+  const messages = exportableMessages(session).map(message => {
+    const initials = escapeHtml(message.sender === 'ai' ? avatarInitials(persona) : names.user[0].toUpperCase());
+    const avatar = `<div class="avatar ${message.sender}">${initials}</div>`;
+    const content = `<div><div class="name">${escapeHtml(names[message.sender])}</div><div class="bubble">${renderMessageBody(message)}</div></div>`;
+    return `<div class="message ${message.sender}">${message.sender === 'ai' ? avatar + content : content + avatar}</div>`;
+  });
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(session.title)}</title>
+<style>${HTML_STYLES}</style>
+</head>
+<body>
+<main>
+<h1>${escapeHtml(session.title)}</h1>
+<p class="meta">Exported from Alfreyaa on ${escapeHtml(formatDate(Date.now()))}. Conversation started ${escapeHtml(formatDate(session.createdAt))}.</p>
+${messages.join('\n')}
+</main>
+</body>
+</html>
+`;
+};
@@ -0,0 +1,71 @@
+import { ChatSession, ImageAspectRatio, ImageGenerationOptions, ImageStylePreset, Message } from '../types';
+
+const IMAGE_OPTIONS_KEY = 'alfreyaa_image_options';
+
+export const MAX_IMAGES_PER_REQUEST = 4;
+
+export const ASPECT_RATIOS: ImageAspectRatio[] = ['1:1', '3:4', '4:3', '9:16', '16:9'];
+
+/** Style presets and the wording they wrap around the subject; `none` sends the prompt as written. */
+export const STYLE_PRESETS: Record<ImageStylePreset, { label: string; template: string }> = {
+  none: { label: 'None', template: '{subject}' },
+  cinematic: { label: 'Cinematic', template: 'cinematic photo of {subject}, high detail, professional quality' },
+  photographic: { label: 'Photographic', template: 'photograph of {subject}, natural lighting, sharp focus' },
+  digital_art: { label: 'Digital art', template: 'digital art of {subject}, vibrant colors, highly detailed' },
+  anime: { label: 'Anime', template: 'anime style illustration of {subject}' },
+  watercolor: { label: 'Watercolor', template: 'watercolor painting of {subject}, soft washes of color' },
+  line_art: { label: 'Line art', template: 'clean black and white line art of {subject}' },
+  '3d_render': { label: '3D render', template: '3D render of {subject}, studio lighting, octane render' },
+};
+
+export const DEFAULT_IMAGE_OPTIONS: ImageGenerationOptions = {
+  aspectRatio: '1:1',
+  numberOfImages: 1,
+  style: 'cinematic',
+};
+
+export const buildImagePrompt = (subject: string, style: ImageStylePreset): string =>
+  STYLE_PRESETS[style].template.replace('{subject}', subject.trim());
+
+/** Loads the options used for new images; unknown or missing values fall back to the defaults. */
+export const loadImageOptions = (): ImageGenerationOptions => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(IMAGE_OPTIONS_KEY) ?? '{}');
+    return {
+      aspectRatio: ASPECT_RATIOS.includes(stored.aspectRatio) ? stored.aspectRatio : DEFAULT_IMAGE_OPTIONS.aspectRatio,
+      numberOfImages: Number.isInteger(stored.numberOfImages)
+        ? Math.min(Math.max(stored.numberOfImages, 1), MAX_IMAGES_PER_REQUEST)
+        : DEFAULT_IMAGE_OPTIONS.numberOfImages,
+      style: stored.style in STYLE_PRESETS ? stored.style : DEFAULT_IMAGE_OPTIONS.style,
+      ...(typeof stored.negativePrompt === 'string' && stored.negativePrompt.trim() && { negativePrompt: stored.negativePrompt }),
+    };
+  } catch {
+    return DEFAULT_IMAGE_OPTIONS;
+  }
+};
+
+export const saveImageOptions = (options: ImageGenerationOptions): void => {
+  localStorage.setItem(IMAGE_OPTIONS_KEY, JSON.stringify(options));
+};
+
+export interface GalleryImage {
+  sessionId: string;
+  message: Message;
+  /** Position of the image within its message. */
+  index: number;
+  url: string;
+}
+
+/** Every generated image across the sessions, newest first. */
+export const collectGalleryImages = (sessions: ChatSession[]): GalleryImage[] =>
+  [...sessions]
+    .sort((a, b) => b.updatedAt - a.updatedAt)
+    .flatMap(session => session.messages
+      .filter(message => message.type === 'image')
+      .reverse()
+      .flatMap(message => (message.images ?? []).map((url, index) => ({ sessionId: session.id, message, index, url }))));
+
+export const imageFileName = (message: Message, index: number, url: string): string => {
+  const extension = url.match(/^data:image\/(\w+)/)?.[1]?.replace('jpeg', 'jpg') ?? 'jpg';
+  return `alfreyaa-${message.id}-${index + 1}.${extension}`;
+};
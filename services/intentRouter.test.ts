@@ -0,0 +1,92 @@
+import { describe, it, expect, vi } from 'vitest';
+import { IntentClassification, classifyByKeywords, extractUrls, routeIntent } from './intentRouter';
+
+const answering = (classification: IntentClassification) => vi.fn(async () => classification);
+
+describe('extractUrls', () => {
+  it('returns each URL once, without the punctuation around it', () => {
+    expect(extractUrls('Compare https://a.example/page, (https://b.example) and https://a.example/page.')).toEqual([
+      'https://a.example/page',
+      'https://b.example',
+    ]);
+  });
+});
+
+describe('classifyByKeywords', () => {
+  it.each([
+    ['Modify the header to be blue', 'code_modification'],
+    ['Please generate image of a red fox', 'image'],
+    ['Summarize https://example.com', 'website_analysis'],
+    ['What is the latest React release?', 'search'],
+    ['Deploy the app', 'deploy'],
+    ['Good morning', 'chat'],
+  ])('classifies "%s" as %s', (prompt, intent) => {
+    expect(classifyByKeywords(prompt).intent).toBe(intent);
+  });
+});
+
+describe('routeIntent', () => {
+  it('uses the keyword rules without a model client', async () => {
+    await expect(routeIntent('Deploy the app')).resolves.toMatchObject({ intent: 'deploy', source: 'keywords' });
+  });
+
+  it('uses the model classification when it is confident', async () => {
+    const client = answering({ intent: 'search', confidence: 0.9, arguments: { query: 'react 19 release date' } });
+
+    await expect(routeIntent('When did React 19 come out?', { client })).resolves.toEqual({
+      intent: 'search',
+      confidence: 0.9,
+      arguments: { query: 'react 19 release date' },
+      source: 'model',
+      requiresConfirmation: false,
+    });
+    expect(client).toHaveBeenCalledWith('When did React 19 come out?');
+  });
+
+  it('falls back to plain chat below the confidence threshold', async () => {
+    const client = answering({ intent: 'deploy', confidence: 0.4, arguments: {} });
+
+    await expect(routeIntent('Maybe ship it?', { client })).resolves.toMatchObject({ intent: 'chat', source: 'model', requiresConfirmation: false });
+    await expect(routeIntent('Maybe ship it?', { client, confidenceThreshold: 0.3 })).resolves.toMatchObject({ intent: 'deploy' });
+  });
+
+  it('requires confirmation for destructive intents', async () => {
+    const client = answering({ intent: 'deploy', confidence: 0.95, arguments: { provider: 'netlify' } });
+
+    await expect(routeIntent('Ship it to Netlify', { client })).resolves.toMatchObject({ intent: 'deploy', requiresConfirmation: true });
+  });
+
+  it('falls back to the keyword rules when the model fails', async () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const client = vi.fn(() => Promise.reject(new Error('offline')));
+
+    await expect(routeIntent('Look up the weather in Paris', { client })).resolves.toMatchObject({ intent: 'search', source: 'keywords' });
+    expect(warn).toHaveBeenCalledOnce();
+    warn.mockRestore();
+  });
+
+  it('falls back to the keyword rules for an unknown intent', async () => {
+    const client = answering({ intent: 'dance' as IntentClassification['intent'], confidence: 1, arguments: {} });
+
+    await expect(routeIntent('Good morning', { client })).resolves.toMatchObject({ intent: 'chat', source: 'keywords' });
+  });
+
+  it('takes website URLs from the prompt rather than from the model', async () => {
+    const client = answering({ intent: 'website_analysis', confidence: 0.9, arguments: { urls: ['https://made-up.example'] } });
+
+    await expect(routeIntent('How fast is https://example.com?', { client })).resolves.toMatchObject({ arguments: { urls: ['https://example.com'] } });
+  });
+
+  it('downgrades a website analysis without URLs to chat', async () => {
+    const client = answering({ intent: 'website_analysis', confidence: 0.9, arguments: { urls: ['https://made-up.example'] } });
+
+    await expect(routeIntent('How fast is my site?', { client })).resolves.toMatchObject({ intent: 'chat', arguments: {} });
+  });
+
+  it('fills in missing search queries and image subjects from the prompt', async () => {
+    await expect(routeIntent('Who won yesterday?', { client: answering({ intent: 'search', confidence: 0.9, arguments: {} }) }))
+      .resolves.toMatchObject({ arguments: { query: 'Who won yesterday?' } });
+    await expect(routeIntent('Generate image of a lighthouse', { client: answering({ intent: 'image', confidence: 0.9, arguments: { imageSubject: ' ' } }) }))
+      .resolves.toMatchObject({ arguments: { imageSubject: 'of a lighthouse' } });
+  });
+});
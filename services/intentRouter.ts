@@ -0,0 +1,152 @@
+/**
+ * Decides which handler should answer a prompt. A model client classifies the
+ * prompt when available; the keyword rules are kept as an offline fallback.
+ */
+
+export type Intent = 'code_modification' | 'image' | 'website_analysis' | 'search' | 'deploy' | 'chat';
+
+export const INTENTS: Intent[] = ['code_modification', 'image', 'website_analysis', 'search', 'deploy', 'chat'];
+
+export interface IntentArguments {
+  /** URLs to analyze or compare, for `website_analysis`. */
+  urls?: string[];
+  /** What to draw, for `image`. */
+  imageSubject?: string;
+  /** Condensed search query, for `search`. */
+  query?: string;
+  /** Deployment provider id, for `deploy` when the user names one. */
+  provider?: string;
+}
+
+export interface IntentClassification {
+  intent: Intent;
+  /** Between 0 and 1. */
+  confidence: number;
+  arguments: IntentArguments;
+}
+
+export interface IntentRoute extends IntentClassification {
+  source: 'model' | 'keywords';
+  /** Destructive intents must be confirmed by the user before running. */
+  requiresConfirmation: boolean;
+}
+
+/** Classifies a prompt, typically by asking a language model. */
+export type IntentModelClient = (prompt: string) => Promise<IntentClassification>;
+
+export interface RouteOptions {
+  client?: IntentModelClient;
+  /** Model classifications below this confidence fall back to plain chat. */
+  confidenceThreshold?: number;
+}
+
+export const DEFAULT_CONFIDENCE_THRESHOLD = 0.6;
+
+export const DESTRUCTIVE_INTENTS: Intent[] = ['deploy'];
+
+/** Human readable description of what each intent does, used in confirmations. */
+export const INTENT_DESCRIPTIONS: Record<Intent, string> = {
+  code_modification: 'modify the application source code',
+  image: 'generate an image',
+  website_analysis: 'analyze a website',
+  search: 'search the web',
+  deploy: 'deploy the application to a live site',
+  chat: 'reply in conversation',
+};
+
+const URL_REGEX = /https?:\/\/\S+/g;
+
+const SEARCH_KEYWORDS = ["search for", "what is", "who is", "find out", "latest", "look up", "tell me about", "what's new"];
+const DEPLOY_KEYWORDS = ["deploy", "publish", "go live"];
+const MODIFICATION_KEYWORDS = ["change your", "modify the", "update the", "add a feature", "implement a", "rewrite the"];
+const IMAGE_KEYWORDS = ['generate image', 'show me a picture'];
+
+/** Every distinct URL in the prompt, in order, without punctuation that ends the sentence around it. */
+export const extractUrls = (prompt: string): string[] =>
+  [...new Set((prompt.match(URL_REGEX) ?? []).map(url => url.replace(/[.,;:!?)\]'"]+$/, '')))];
+
+const stripImageKeywords = (prompt: string): string =>
+  IMAGE_KEYWORDS.reduce((subject, keyword) => subject.replace(keyword, ''), prompt.toLowerCase()).trim();
+
+/**
+ * The original keyword rules, used when no model client is available or the
+ * model call fails.
+ */
+export const classifyByKeywords = (prompt: string): IntentClassification => {
+  const lowerCasePrompt = prompt.toLowerCase();
+  const urls = extractUrls(prompt);
+
+  if (MODIFICATION_KEYWORDS.some(keyword => lowerCasePrompt.startsWith(keyword))) {
+    return { intent: 'code_modification', confidence: 1, arguments: {} };
+  }
+  if (IMAGE_KEYWORDS.some(keyword => lowerCasePrompt.includes(keyword))) {
+    return { intent: 'image', confidence: 1, arguments: { imageSubject: stripImageKeywords(prompt) } };
+  }
+  if (urls.length > 0) {
+    return { intent: 'website_analysis', confidence: 1, arguments: { urls } };
+  }
+  if (SEARCH_KEYWORDS.some(keyword => lowerCasePrompt.includes(keyword))) {
+    return { intent: 'search', confidence: 1, arguments: { query: prompt } };
+  }
+  if (DEPLOY_KEYWORDS.some(keyword => lowerCasePrompt.includes(keyword))) {
+    return { intent: 'deploy', confidence: 1, arguments: {} };
+  }
+  return { intent: 'chat', confidence: 1, arguments: {} };
+};
+
+const toRoute = (classification: IntentClassification, source: IntentRoute['source']): IntentRoute => ({
+  ...classification,
+  source,
+  requiresConfirmation: DESTRUCTIVE_INTENTS.includes(classification.intent),
+});
+
+/**
+ * Fills in arguments the handlers cannot run without, and downgrades intents
+ * whose required arguments are missing.
+ */
+const normalize = (prompt: string, classification: IntentClassification): IntentClassification => {
+  const args: IntentArguments = { ...classification.arguments };
+
+  switch (classification.intent) {
+    case 'website_analysis': {
+      // URLs are taken from the prompt itself, so none is made up or left out.
+      const urls = extractUrls(prompt);
+      if (urls.length === 0) return { intent: 'chat', confidence: classification.confidence, arguments: {} };
+      args.urls = urls;
+      break;
+    }
+    case 'image':
+      if (!args.imageSubject?.trim()) args.imageSubject = stripImageKeywords(prompt) || prompt;
+      break;
+    case 'search':
+      if (!args.query?.trim()) args.query = prompt;
+      break;
+  }
+
+  return { ...classification, arguments: args };
+};
+
+export const routeIntent = async (prompt: string, options: RouteOptions = {}): Promise<IntentRoute> => {
+  const { client, confidenceThreshold = DEFAULT_CONFIDENCE_THRESHOLD } = options;
+
+  if (!client) return toRoute(classifyByKeywords(prompt), 'keywords');
+
+  let classification: IntentClassification;
+  try {
+    classification = await client(prompt);
+  } catch (error) {
+    console.warn("Intent classification failed, falling back to keyword rules:", error);
+    return toRoute(classifyByKeywords(prompt), 'keywords');
+  }
+
+  if (!INTENTS.includes(classification.intent)) {
+    return toRoute(classifyByKeywords(prompt), 'keywords');
+  }
+
+  // An unsure model should never trigger a handler with side effects.
+  if (classification.confidence < confidenceThreshold) {
+    return toRoute({ intent: 'chat', confidence: classification.confidence, arguments: {} }, 'model');
+  }
+
+  return toRoute(normalize(prompt, classification), 'model');
+};
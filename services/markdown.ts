@@ -0,0 +1,55 @@
+import type { Options } from 'react-markdown';
+import remarkGfm from 'remark-gfm';
+import remarkMath from 'remark-math';
+import rehypeKatex from 'rehype-katex';
+import rehypeHighlight from 'rehype-highlight';
+import type { Root, RootContent, PhrasingContent, Parent } from 'mdast';
+import { Source } from '../types';
+
+const CITATION_PATTERN = /\[(\d+)\]/g;
+
+/**
+ * Turns `[n]` markers in text nodes into links to the n-th source. Code is
+ * never touched because code nodes carry no text children.
+ */
+const remarkCitations = ({ sources, sourceIdPrefix }: { sources: Source[]; sourceIdPrefix: string }) => (tree: Root) => {
+  const visit = (node: Parent) => {
+    if (node.type === 'link' || node.type === 'linkReference') return;
+    node.children = node.children.flatMap((child): RootContent[] => {
+      if (child.type !== 'text') {
+        if ('children' in child) visit(child);
+        return [child];
+      }
+      const parts: PhrasingContent[] = [];
+      let last = 0;
+      for (const match of child.value.matchAll(CITATION_PATTERN)) {
+        const source = sources[Number(match[1]) - 1];
+        if (!source) continue;
+        if (match.index > last) parts.push({ type: 'text', value: child.value.slice(last, match.index) });
+        parts.push({
+          type: 'link',
+          url: `#${sourceIdPrefix}${match[1]}`,
+          title: source.title,
+          children: [{ type: 'text', value: match[1] }],
+          data: { hProperties: { dataCitation: 'true' } },
+        });
+        last = match.index + match[0].length;
+      }
+      if (last === 0) return [child];
+      if (last < child.value.length) parts.push({ type: 'text', value: child.value.slice(last) });
+      return parts;
+    }) as typeof node.children;
+  };
+  visit(tree);
+};
+
+/**
+ * The Markdown pipeline of answers: GitHub flavored Markdown, math, highlighted
+ * code and `[n]` citations, linked to the element ids `sourceIdPrefix` + n.
+ * The app and the HTML export render with it alike; with `mathml`, math is
+ * rendered as MathML only, which browsers lay out without KaTeX's stylesheet.
+ */
+export const markdownPlugins = (sources: Source[] = [], sourceIdPrefix = '', mathml = false): Pick<Options, 'remarkPlugins' | 'rehypePlugins'> => ({
+  remarkPlugins: [remarkGfm, remarkMath, [remarkCitations, { sources, sourceIdPrefix }]],
+  rehypePlugins: [[rehypeKatex, { output: mathml ? 'mathml' : 'htmlAndMathml' }], [rehypeHighlight, { detect: true }]],
+});
@@ -0,0 +1,121 @@
+import { describe, it, expect } from 'vitest';
+import { ChatSession, Message } from '../types';
+import { activePath, appendToBranch, branchAfter, copyBranch, latestLeaf, linkMessages, removeMessage, showMessage, switchVersion, versionsOf } from './messageTree';
+
+const message = (id: string, parentId?: string): Message =>
+  ({ id, sender: 'user', type: 'text', text: id, ...(parentId && { parentId }) }) as Message;
+
+// A greeting, a prompt that was edited once, and a reply to each version of the prompt.
+const MESSAGES = [message('greeting'), message('q1', 'greeting'), message('a1', 'q1'), message('q2', 'greeting'), message('a2', 'q2')];
+
+const session = (activeMessageId?: string, messages = MESSAGES): ChatSession =>
+  ({ id: 's', title: 'Tree', createdAt: 0, updatedAt: 0, messages, activeMessageId }) as ChatSession;
+
+const ids = (messages: Message[]) => messages.map(m => m.id);
+
+describe('linkMessages', () => {
+  it('links messages saved as a list to the message before them', () => {
+    const linked = linkMessages([message('a'), message('b'), message('c', 'a')]);
+
+    expect(linked.map(m => m.parentId)).toEqual([undefined, 'a', 'a']);
+  });
+});
+
+describe('activePath', () => {
+  it('follows the parents of the active message', () => {
+    expect(ids(activePath(session('a1')))).toEqual(['greeting', 'q1', 'a1']);
+  });
+
+  it('shows the newest versions when no message is active', () => {
+    expect(ids(activePath(session()))).toEqual(['greeting', 'q2', 'a2']);
+    expect(activePath(session(undefined, []))).toEqual([]);
+  });
+});
+
+describe('versionsOf and latestLeaf', () => {
+  it('lists the siblings of a message and follows the newest one down', () => {
+    expect(ids(versionsOf(MESSAGES, MESSAGES[1]))).toEqual(['q1', 'q2']);
+    expect(ids(versionsOf(MESSAGES, MESSAGES[0]))).toEqual(['greeting']);
+    expect(latestLeaf(MESSAGES, MESSAGES[0]).id).toBe('a2');
+  });
+});
+
+describe('appendToBranch', () => {
+  it('adds the message after the active one and makes it active', () => {
+    const next = appendToBranch(session('a1'), message('q3'));
+
+    expect(next.messages.at(-1)).toMatchObject({ id: 'q3', parentId: 'a1' });
+    expect(ids(activePath(next))).toEqual(['greeting', 'q1', 'a1', 'q3']);
+  });
+
+  it('starts an empty session without a parent', () => {
+    const next = appendToBranch(session(undefined, []), message('greeting'));
+
+    expect(next.messages).toEqual([message('greeting')]);
+    expect(next.activeMessageId).toBe('greeting');
+  });
+});
+
+describe('removeMessage', () => {
+  it('makes the parent of a removed active message active', () => {
+    const next = removeMessage(session('a1'), 'a1');
+
+    expect(ids(next.messages)).toEqual(['greeting', 'q1', 'q2', 'a2']);
+    expect(next.activeMessageId).toBe('q1');
+  });
+
+  it('leaves the session alone for unknown messages', () => {
+    const before = session('a1');
+
+    expect(removeMessage(before, 'missing')).toBe(before);
+  });
+});
+
+describe('branchAfter', () => {
+  it('adds the next message as a new version of the one that followed', () => {
+    const next = appendToBranch(branchAfter(session('a1'), 'q1'), message('a1b'));
+
+    expect(ids(versionsOf(next.messages, next.messages.at(-1)!))).toEqual(['a1', 'a1b']);
+  });
+});
+
+describe('switchVersion', () => {
+  it('moves between versions and shows the newest branch below them', () => {
+    expect(switchVersion(session('a2'), 'q2', -1).activeMessageId).toBe('a1');
+    expect(switchVersion(session('a1'), 'q1', 1).activeMessageId).toBe('a2');
+  });
+
+  it('stays put past the first version and on unknown messages', () => {
+    const before = session('a1');
+
+    expect(switchVersion(before, 'q1', -1)).toBe(before);
+    expect(switchVersion(before, 'missing', 1)).toBe(before);
+  });
+});
+
+describe('showMessage', () => {
+  it('switches to the branch of a message that is not shown', () => {
+    expect(showMessage(session('a2'), 'q1').activeMessageId).toBe('a1');
+  });
+
+  it('keeps the branch when the message is already shown', () => {
+    const before = session('a1');
+
+    expect(showMessage(before, 'q1')).toBe(before);
+  });
+});
+
+describe('copyBranch', () => {
+  it('copies the branch up to the message with new ids and without usage', () => {
+    const usage = { at: 0, models: [] };
+    const messages = MESSAGES.map(m => (m.id === 'q1' ? { ...m, usage, isStreaming: true } : m));
+
+    const copies = copyBranch(session('a1', messages), 'q1');
+
+    expect(copies.map(m => m.text)).toEqual(['greeting', 'q1']);
+    expect(copies[0].id).not.toBe('greeting');
+    expect(copies[1].parentId).toBe(copies[0].id);
+    expect(copies[1]).not.toHaveProperty('usage');
+    expect(copies[1]).not.toHaveProperty('isStreaming');
+  });
+});
@@ -0,0 +1,108 @@
+import { ChatSession, Message } from '../types';
+
+/*
+ * A conversation is a tree. Editing a prompt or regenerating a reply adds a
+ * sibling instead of replacing the message, so earlier versions stay
+ * available. `ChatSession.messages` holds every version in the order they
+ * were created, `parentId` links each message to the one it answers or
+ * follows, and `activeMessageId` is the last message of the branch shown.
+ */
+
+/**
+ * Fills in missing parent ids. Messages saved before conversations became
+ * trees follow the message before them in the list.
+ */
+export const linkMessages = (messages: Message[]): Message[] =>
+  messages.map((message, i) => (i === 0 || message.parentId ? message : { ...message, parentId: messages[i - 1].id }));
+
+export const childrenOf = (messages: Message[], parentId: string): Message[] =>
+  messages.filter(message => message.parentId === parentId);
+
+/** The versions of a message: itself and every message with the same parent, oldest first. */
+export const versionsOf = (messages: Message[], message: Message): Message[] =>
+  message.parentId ? childrenOf(messages, message.parentId) : [message];
+
+/** Follows the newest version down from `message` to the end of its branch. */
+export const latestLeaf = (messages: Message[], message: Message): Message => {
+  for (let current = message; ;) {
+    const children = childrenOf(messages, current.id);
+    if (children.length === 0) return current;
+    current = children[children.length - 1];
+  }
+};
+
+const activeLeaf = (session: ChatSession): Message | undefined =>
+  session.messages.find(message => message.id === session.activeMessageId)
+  ?? (session.messages.length > 0 ? latestLeaf(session.messages, session.messages[0]) : undefined);
+
+/** The messages of the branch being shown, from the first message to the active one. */
+export const activePath = (session: ChatSession): Message[] => {
+  const byId = new Map(session.messages.map(message => [message.id, message]));
+  const path: Message[] = [];
+  for (let message = activeLeaf(session); message; message = message.parentId ? byId.get(message.parentId) : undefined) {
+    path.push(message);
+  }
+  return path.reverse();
+};
+
+/** Adds a message to the end of the active branch and makes it the active message. */
+export const appendToBranch = (session: ChatSession, message: Message): ChatSession => {
+  const parentId = activeLeaf(session)?.id;
+  return {
+    ...session,
+    messages: [...session.messages, { ...message, ...(parentId && { parentId }) }],
+    activeMessageId: message.id,
+    updatedAt: Date.now(),
+  };
+};
+
+/** Removes a message without replies; when it was active, its parent becomes active. */
+export const removeMessage = (session: ChatSession, messageId: string): ChatSession => {
+  const message = session.messages.find(m => m.id === messageId);
+  if (!message) return session;
+  return {
+    ...session,
+    messages: session.messages.filter(m => m.id !== messageId),
+    activeMessageId: session.activeMessageId === messageId ? message.parentId : session.activeMessageId,
+    updatedAt: Date.now(),
+  };
+};
+
+/**
+ * Continues the active branch after `messageId`, so the next message becomes
+ * a new version of the message that followed it.
+ */
+export const branchAfter = (session: ChatSession, messageId: string): ChatSession => ({ ...session, activeMessageId: messageId });
+
+/** Shows the branch that contains the message, at its newest versions below it. */
+export const showMessage = (session: ChatSession, messageId: string): ChatSession => {
+  const message = session.messages.find(m => m.id === messageId);
+  if (!message || activePath(session).includes(message)) return session;
+  return { ...session, activeMessageId: latestLeaf(session.messages, message).id };
+};
+
+/** Switches to the previous (-1) or next (1) version of a message. */
+export const switchVersion = (session: ChatSession, messageId: string, offset: -1 | 1): ChatSession => {
+  const message = session.messages.find(m => m.id === messageId);
+  if (!message) return session;
+  const versions = versionsOf(session.messages, message);
+  const target = versions[versions.indexOf(message) + offset];
+  return target ? { ...session, activeMessageId: latestLeaf(session.messages, target).id } : session;
+};
+
+/**
+ * Copies the branch up to and including the message into new messages for
+ * another session. Ids are replaced, as message ids are unique across sessions,
+ * and usage is left out, as the copies cost nothing.
+ */
+export const copyBranch = (session: ChatSession, messageId: string): Message[] => {
+  const path = activePath(session);
+  const end = path.findIndex(message => message.id === messageId);
+  const stamp = Date.now();
+  const ids = new Map(path.map((message, i) => [message.id, `${stamp}-fork-${i}`]));
+  return path.slice(0, end + 1).map(({ isStreaming, usage, ...message }) => ({
+    ...message,
+    id: ids.get(message.id)!,
+    ...(message.parentId && { parentId: ids.get(message.parentId) }),
+  }));
+};
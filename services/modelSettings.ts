@@ -0,0 +1,125 @@
+import type { GenerateContentConfig } from '@google/genai';
+
+const MODEL_SETTINGS_KEY = 'alfreyaa_model_settings';
+
+export type ModelCapability = 'chat' | 'grounded_search' | 'website_analysis' | 'code_modification' | 'image';
+
+export type ModelKind = 'text' | 'image';
+
+export const MODEL_CAPABILITIES: Record<ModelCapability, { label: string; kind: ModelKind }> = {
+  chat: { label: 'Chat', kind: 'text' },
+  grounded_search: { label: 'Web search', kind: 'text' },
+  website_analysis: { label: 'Website analysis', kind: 'text' },
+  code_modification: { label: 'Code modification', kind: 'text' },
+  image: { label: 'Images', kind: 'image' },
+};
+
+export interface ModelOption {
+  id: string;
+  label: string;
+  kind: ModelKind;
+  /** Largest thinking budget in tokens; unset for models that do not think. */
+  maxThinkingBudget?: number;
+  /** Some models always think, so their budget cannot be 0. */
+  canDisableThinking?: boolean;
+}
+
+export const MODELS: ModelOption[] = [
+  { id: 'gemini-2.5-flash', label: 'Gemini 2.5 Flash', kind: 'text', maxThinkingBudget: 24576, canDisableThinking: true },
+  { id: 'gemini-2.5-pro', label: 'Gemini 2.5 Pro', kind: 'text', maxThinkingBudget: 32768, canDisableThinking: false },
+  { id: 'gemini-2.5-flash-lite', label: 'Gemini 2.5 Flash-Lite', kind: 'text', maxThinkingBudget: 24576, canDisableThinking: true },
+  { id: 'gemini-2.0-flash', label: 'Gemini 2.0 Flash', kind: 'text' },
+  { id: 'imagen-3.0-generate-002', label: 'Imagen 3', kind: 'image' },
+  { id: 'imagen-4.0-generate-001', label: 'Imagen 4', kind: 'image' },
+  { id: 'imagen-4.0-fast-generate-001', label: 'Imagen 4 Fast', kind: 'image' },
+];
+
+export const getModel = (id: string): ModelOption | undefined => MODELS.find(model => model.id === id);
+
+export const modelsOfKind = (kind: ModelKind): ModelOption[] => MODELS.filter(model => model.kind === kind);
+
+/** The label of a model, or its id for models that are no longer listed. */
+export const modelLabel = (id: string): string => getModel(id)?.label ?? id;
+
+/** Generation parameters; unset values use the model's defaults. */
+export interface GenerationParameters {
+  temperature?: number;
+  maxOutputTokens?: number;
+  /** Tokens the model may spend thinking before it answers; 0 turns thinking off. */
+  thinkingBudget?: number;
+}
+
+export interface CapabilitySettings extends GenerationParameters {
+  model: string;
+}
+
+export type ModelSettings = Record<ModelCapability, CapabilitySettings>;
+
+export const MAX_TEMPERATURE = 2;
+
+export const DEFAULT_MODEL_SETTINGS: ModelSettings = {
+  chat: { model: 'gemini-2.5-flash' },
+  grounded_search: { model: 'gemini-2.5-flash' },
+  website_analysis: { model: 'gemini-2.5-flash' },
+  code_modification: { model: 'gemini-2.5-flash' },
+  image: { model: 'imagen-3.0-generate-002' },
+};
+
+const isPositiveInteger = (value: unknown): value is number => Number.isInteger(value) && (value as number) > 0;
+
+const validateCapability = (capability: ModelCapability, stored: Partial<CapabilitySettings> = {}): CapabilitySettings => {
+  const model = getModel(stored.model ?? '');
+  const settings: CapabilitySettings = {
+    model: model?.kind === MODEL_CAPABILITIES[capability].kind ? model.id : DEFAULT_MODEL_SETTINGS[capability].model,
+  };
+  if (typeof stored.temperature === 'number') settings.temperature = Math.min(Math.max(stored.temperature, 0), MAX_TEMPERATURE);
+  if (isPositiveInteger(stored.maxOutputTokens)) settings.maxOutputTokens = stored.maxOutputTokens;
+  if (stored.thinkingBudget === 0 || isPositiveInteger(stored.thinkingBudget)) settings.thinkingBudget = stored.thinkingBudget;
+  return settings;
+};
+
+/** Loads the model settings; unknown models and invalid parameters fall back to the defaults. */
+export const loadModelSettings = (): ModelSettings => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(MODEL_SETTINGS_KEY) ?? '{}');
+    return Object.fromEntries((Object.keys(MODEL_CAPABILITIES) as ModelCapability[])
+      .map(capability => [capability, validateCapability(capability, stored[capability])])) as ModelSettings;
+  } catch {
+    return DEFAULT_MODEL_SETTINGS;
+  }
+};
+
+export const saveModelSettings = (settings: ModelSettings): void => {
+  localStorage.setItem(MODEL_SETTINGS_KEY, JSON.stringify(settings));
+};
+
+// The settings are read by the Gemini service, which runs outside React.
+let modelSettings: ModelSettings = DEFAULT_MODEL_SETTINGS;
+
+export const setActiveModelSettings = (settings: ModelSettings): void => {
+  modelSettings = settings;
+};
+
+/**
+ * The model a request of the capability uses: the override when it is a model
+ * of the right kind, otherwise the configured one. Background work such as
+ * titles and history summaries uses the chat model.
+ */
+export const resolveModel = (capability: ModelCapability, override?: string): string =>
+  override && getModel(override)?.kind === MODEL_CAPABILITIES[capability].kind ? override : modelSettings[capability].model;
+
+/**
+ * The generation config of a capability for the given model. A thinking budget
+ * the model does not support is left out rather than sent.
+ */
+export const generationConfig = (capability: ModelCapability, model: string): GenerateContentConfig => {
+  const { temperature, maxOutputTokens, thinkingBudget } = modelSettings[capability];
+  const option = getModel(model);
+  const supportsBudget = thinkingBudget !== undefined && option?.maxThinkingBudget !== undefined
+    && (thinkingBudget > 0 || option.canDisableThinking);
+  return {
+    ...(temperature !== undefined && { temperature }),
+    ...(maxOutputTokens !== undefined && { maxOutputTokens }),
+    ...(supportsBudget && { thinkingConfig: { thinkingBudget: Math.min(thinkingBudget, option.maxThinkingBudget!) } }),
+  };
+};
@@ -0,0 +1,133 @@
+const PERSONA_SETTINGS_KEY = 'alfreyaa_personas';
+
+export type PersonaTone = 'formal' | 'friendly' | 'concise' | 'playful';
+
+export const PERSONA_TONES: Record<PersonaTone, { label: string; instruction: string }> = {
+  formal: {
+    label: 'Formal',
+    instruction: 'You are highly intelligent and obedient. Respond formally but helpfully.',
+  },
+  friendly: {
+    label: 'Friendly',
+    instruction: 'Respond in a warm, conversational and encouraging way, like a knowledgeable friend.',
+  },
+  concise: {
+    label: 'Concise',
+    instruction: 'Respond as briefly as possible: lead with the answer and leave out pleasantries.',
+  },
+  playful: {
+    label: 'Playful',
+    instruction: 'Respond with light humour and enthusiasm, while staying accurate and helpful.',
+  },
+};
+
+export interface Persona {
+  id: string;
+  assistantName: string;
+  /** How the assistant addresses the user; the user is not addressed by name when empty. */
+  userName: string;
+  tone: PersonaTone;
+  /**
+   * Replaces the system instruction generated from the names and tone when
+   * set. `{assistant}` and `{user}` are replaced by the names.
+   */
+  systemInstruction: string;
+  /** Shown in the assistant's avatar when there is no image; the first letter of the name when empty. */
+  avatarInitials: string;
+  /** Avatar image as a data URL. */
+  avatarImage?: string;
+}
+
+export interface PersonaSettings {
+  personas: Persona[];
+  /** The persona new conversations start with. */
+  defaultPersonaId: string;
+}
+
+export const MAX_AVATAR_IMAGE_BYTES = 200 * 1024;
+
+export const DEFAULT_PERSONA: Persona = {
+  id: 'persona-default',
+  assistantName: 'Alfreyaa',
+  userName: 'Kaarthi',
+  tone: 'formal',
+  systemInstruction: '',
+  avatarInitials: '',
+};
+
+export const DEFAULT_PERSONA_SETTINGS: PersonaSettings = {
+  personas: [DEFAULT_PERSONA],
+  defaultPersonaId: DEFAULT_PERSONA.id,
+};
+
+export const createPersona = (): Persona => ({
+  ...DEFAULT_PERSONA,
+  id: `persona-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+  assistantName: 'Assistant',
+  userName: '',
+  tone: 'friendly',
+});
+
+const validatePersona = (value: unknown): Persona | undefined => {
+  if (typeof value !== 'object' || value === null) return undefined;
+  const stored = value as Record<string, unknown>;
+  if (typeof stored.id !== 'string' || typeof stored.assistantName !== 'string') return undefined;
+  return {
+    id: stored.id,
+    assistantName: stored.assistantName.trim() ? stored.assistantName : 'Assistant',
+    userName: typeof stored.userName === 'string' ? stored.userName : '',
+    tone: typeof stored.tone === 'string' && stored.tone in PERSONA_TONES ? stored.tone as PersonaTone : DEFAULT_PERSONA.tone,
+    systemInstruction: typeof stored.systemInstruction === 'string' ? stored.systemInstruction : '',
+    avatarInitials: typeof stored.avatarInitials === 'string' ? stored.avatarInitials : '',
+    ...(typeof stored.avatarImage === 'string' && stored.avatarImage.startsWith('data:image/') && { avatarImage: stored.avatarImage }),
+  };
+};
+
+/** Loads the saved personas; invalid entries are dropped and there is always at least one persona. */
+export const loadPersonaSettings = (): PersonaSettings => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(PERSONA_SETTINGS_KEY) ?? '{}');
+    const personas = (Array.isArray(stored.personas) ? stored.personas : [])
+      .map(validatePersona)
+      .filter((persona: Persona | undefined): persona is Persona => !!persona);
+    if (personas.length === 0) return DEFAULT_PERSONA_SETTINGS;
+    const defaultPersonaId = personas.some((persona: Persona) => persona.id === stored.defaultPersonaId) ? stored.defaultPersonaId : personas[0].id;
+    return { personas, defaultPersonaId };
+  } catch {
+    return DEFAULT_PERSONA_SETTINGS;
+  }
+};
+
+export const savePersonaSettings = (settings: PersonaSettings): void => {
+  localStorage.setItem(PERSONA_SETTINGS_KEY, JSON.stringify(settings));
+};
+
+/** The persona with the given id, or the default one when it was deleted or never set. */
+export const resolvePersona = (settings: PersonaSettings, personaId?: string): Persona =>
+  settings.personas.find(persona => persona.id === personaId)
+  ?? settings.personas.find(persona => persona.id === settings.defaultPersonaId)
+  ?? settings.personas[0]
+  ?? DEFAULT_PERSONA;
+
+/** ", Kaarthi" for addressing the user mid-sentence, or nothing when the persona has no user name. */
+export const addressUser = (persona: Persona): string =>
+  persona.userName.trim() ? `, ${persona.userName.trim()}` : '';
+
+/** The user's name, or a neutral stand-in for sender labels. */
+export const userLabel = (persona: Persona): string => persona.userName.trim() || 'You';
+
+export const avatarInitials = (persona: Persona): string =>
+  (persona.avatarInitials.trim() || persona.assistantName.trim()[0] || '?').slice(0, 2).toUpperCase();
+
+export const buildSystemInstruction = (persona: Persona): string => {
+  const assistant = persona.assistantName.trim();
+  const user = persona.userName.trim();
+  if (persona.systemInstruction.trim()) {
+    return persona.systemInstruction.trim().replace(/\{assistant\}/g, assistant).replace(/\{user\}/g, user || 'the user');
+  }
+  return [
+    `You are ${assistant}, an advanced AI assistant${user ? ` created by ${user}` : ''}.`,
+    PERSONA_TONES[persona.tone].instruction,
+    user && `The user's name is ${user}; address them by name.`,
+  ].filter(Boolean).join(' ');
+};
@@ -0,0 +1,54 @@
+import { ProjectFile, ProjectManifest } from '../types';
+import { readFile, listFiles } from './virtualFileSystem';
+
+/** Where the `projectManifest` Vite plugin publishes the manifest and the raw files. */
+export const PROJECT_MANIFEST_PATH = '__project/manifest.json';
+export const PROJECT_FILES_PREFIX = '__project/files/';
+
+export class ProjectFileError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ProjectFileError';
+  }
+}
+
+const toBase64 = (buffer: ArrayBuffer): string => {
+  const bytes = new Uint8Array(buffer);
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+};
+
+/**
+ * Reads the project sources listed in the manifest generated by the
+ * `projectManifest` Vite plugin. Binary files are returned base64 encoded.
+ * Accepted self-modifications take precedence over the served files.
+ */
+export async function getProjectFiles(): Promise<ProjectFile[]> {
+  const manifestResponse = await fetch(`/${PROJECT_MANIFEST_PATH}`);
+  if (!manifestResponse.ok) {
+    throw new ProjectFileError(`The project manifest could not be loaded (status ${manifestResponse.status}). Is the projectManifest plugin enabled in vite.config.ts?`);
+  }
+  const manifest: ProjectManifest = await manifestResponse.json();
+
+  const files = await Promise.all(manifest.files.map(async (entry): Promise<ProjectFile> => {
+    const response = await fetch(`/${PROJECT_FILES_PREFIX}${entry.path}`);
+    if (!response.ok) {
+      throw new ProjectFileError(`Project file ${entry.path} is listed in the manifest but could not be fetched (status ${response.status}).`);
+    }
+    const content = entry.encoding === 'base64' ? toBase64(await response.arrayBuffer()) : await response.text();
+    return { path: entry.path, content, encoding: entry.encoding };
+  }));
+
+  const listed = new Set(files.map(file => file.path));
+  const overridden = files.map(file => {
+    const override = readFile(file.path);
+    return override === undefined ? file : { path: file.path, content: override, encoding: 'utf8' as const };
+  });
+  const created = listFiles()
+    .filter(path => !listed.has(path))
+    .map(path => ({ path, content: readFile(path)!, encoding: 'utf8' as const }));
+  return [...overridden, ...created];
+}
@@ -0,0 +1,141 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { Attempt, RequestTimeoutError, RetryableError, RetryOptions, retryDelay, withRetry } from './retry';
+
+class TestError extends Error implements RetryableError {
+  constructor(message: string, public retryable = true, public retryAfterMs?: number) {
+    super(message);
+    this.name = 'TestError';
+  }
+}
+
+const normalize = (error: unknown): TestError =>
+  error instanceof TestError ? error : new TestError(error instanceof Error ? error.message : String(error), error instanceof RequestTimeoutError);
+
+/** Fails with the given errors in turn, then answers 'ok'. */
+const failing = (...errors: Error[]) => vi.fn(async ({ number }: Attempt) => {
+  if (number <= errors.length) throw errors[number - 1];
+  return 'ok';
+});
+
+/** An attempt that only ends when its signal aborts. */
+const hanging = ({ signal }: Attempt) => new Promise<string>((_, reject) => {
+  signal.addEventListener('abort', () => reject(new Error('aborted')));
+});
+
+const retry = (run: (attempt: Attempt) => Promise<string>, options: Partial<RetryOptions<TestError>> = {}) => {
+  const result = withRetry(run, { normalize, baseDelayMs: 100, ...options });
+  result.catch(() => {});
+  return result;
+};
+
+beforeEach(() => {
+  vi.useFakeTimers();
+  vi.spyOn(Math, 'random').mockReturnValue(0.5);
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.restoreAllMocks();
+});
+
+describe('retryDelay', () => {
+  it('doubles the jittered wait with every attempt', () => {
+    expect([1, 2, 3].map(attempt => retryDelay(attempt, 100))).toEqual([50, 100, 200]);
+  });
+
+  it('waits as long as the server asked, plus a little jitter', () => {
+    expect(retryDelay(3, 100, 2000)).toBe(2012.5);
+  });
+});
+
+describe('withRetry', () => {
+  it('retries retryable failures after a backoff', async () => {
+    const run = failing(new TestError('busy'), new TestError('busy'));
+    const onRetry = vi.fn();
+
+    const result = retry(run, { onRetry });
+    await vi.runAllTimersAsync();
+
+    await expect(result).resolves.toBe('ok');
+    expect(run).toHaveBeenCalledTimes(3);
+    expect(onRetry.mock.calls.map(([, delayMs, nextAttempt]) => [delayMs, nextAttempt])).toEqual([[50, 2], [100, 3]]);
+  });
+
+  it('throws failures that are not retryable right away', async () => {
+    const run = failing(new TestError('bad request', false));
+
+    await expect(retry(run)).rejects.toThrow('bad request');
+    expect(run).toHaveBeenCalledTimes(1);
+  });
+
+  it('gives up after the last attempt', async () => {
+    const run = failing(new TestError('1'), new TestError('2'), new TestError('3'));
+
+    const result = retry(run, { maxAttempts: 2 });
+    await vi.runAllTimersAsync();
+
+    await expect(result).rejects.toThrow('2');
+    expect(run).toHaveBeenCalledTimes(2);
+  });
+
+  it('throws instead of waiting longer than the longest delay', async () => {
+    const run = failing(new TestError('rate limited', true, 60000));
+
+    await expect(retry(run, { maxDelayMs: 30000 })).rejects.toThrow('rate limited');
+    expect(run).toHaveBeenCalledTimes(1);
+  });
+
+  it('stops when the caller can no longer retry', async () => {
+    const run = failing(new TestError('stream broke'));
+
+    await expect(retry(run, { canRetry: () => false })).rejects.toThrow('stream broke');
+    expect(run).toHaveBeenCalledTimes(1);
+  });
+
+  it('times out attempts that get no answer', async () => {
+    const normalizeSpy = vi.fn(normalize);
+
+    const result = retry(hanging, { normalize: normalizeSpy, maxAttempts: 1, timeoutMs: 1000 });
+    await vi.advanceTimersByTimeAsync(1000);
+
+    await expect(result).rejects.toThrow('No answer within 1 seconds.');
+    expect(normalizeSpy.mock.calls[0][0]).toBeInstanceOf(RequestTimeoutError);
+  });
+
+  it('restarts the timeout on keep-alive', async () => {
+    const result = retry(async ({ signal, keepAlive }) => {
+      for (let i = 0; i < 3; i++) {
+        await new Promise(resolve => setTimeout(resolve, 800));
+        signal.throwIfAborted();
+        keepAlive();
+      }
+      return 'ok';
+    }, { timeoutMs: 1000, maxAttempts: 1 });
+    await vi.advanceTimersByTimeAsync(2400);
+
+    await expect(result).resolves.toBe('ok');
+  });
+
+  it('throws the original error when the caller aborts', async () => {
+    const controller = new AbortController();
+    const run = vi.fn(hanging);
+
+    const result = retry(run, { signal: controller.signal });
+    controller.abort();
+
+    await expect(result).rejects.toThrow('aborted');
+    expect(run).toHaveBeenCalledTimes(1);
+  });
+
+  it('stops waiting for the next attempt when the caller aborts', async () => {
+    const controller = new AbortController();
+    const run = failing(new TestError('busy'));
+
+    const result = retry(run, { signal: controller.signal });
+    await vi.advanceTimersByTimeAsync(10);
+    controller.abort(new Error('cancelled'));
+
+    await expect(result).rejects.toThrow('cancelled');
+    expect(run).toHaveBeenCalledTimes(1);
+  });
+});
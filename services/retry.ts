@@ -0,0 +1,102 @@
+/** An attempt got no answer within its timeout. */
+export class RequestTimeoutError extends Error {
+  constructor(public readonly timeoutMs: number) {
+    super(`No answer within ${Math.round(timeoutMs / 1000)} seconds.`);
+    this.name = 'RequestTimeoutError';
+  }
+}
+
+/** What the retry loop needs to know about a failure. */
+export interface RetryableError extends Error {
+  /** Whether sending the request again may succeed. */
+  retryable: boolean;
+  /** The wait the server asked for, if any. */
+  retryAfterMs?: number;
+}
+
+export interface Attempt {
+  /** 1 for the first attempt. */
+  number: number;
+  /** Aborted when the attempt times out or the caller aborts. */
+  signal: AbortSignal;
+  /** Restarts the timeout, e.g. whenever a streamed chunk arrives. */
+  keepAlive: () => void;
+}
+
+export interface RetryOptions<E extends RetryableError> {
+  /** Turns any failure, including a `RequestTimeoutError`, into the error that is thrown. */
+  normalize: (error: unknown) => E;
+  /** Aborts the current attempt and any wait; the original error is thrown as is. */
+  signal?: AbortSignal;
+  maxAttempts?: number;
+  /** Time an attempt may go without an answer, or without `keepAlive` being called. */
+  timeoutMs?: number;
+  baseDelayMs?: number;
+  /** Waits longer than this are not worth it; the error is thrown instead. */
+  maxDelayMs?: number;
+  /** Checked after a retryable failure, e.g. so that a stream is not restarted after output was shown. */
+  canRetry?: () => boolean;
+  onRetry?: (error: E, delayMs: number, nextAttempt: number) => void;
+}
+
+const sleep = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  if (signal?.aborted) {
+    reject(signal.reason);
+    return;
+  }
+  const timer = setTimeout(() => {
+    signal?.removeEventListener('abort', onAbort);
+    resolve();
+  }, ms);
+  const onAbort = () => {
+    clearTimeout(timer);
+    reject(signal!.reason);
+  };
+  signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+/**
+ * Exponential backoff with full jitter, so that clients failing together do
+ * not retry together. A wait asked for by the server is honored, with a
+ * little jitter on top.
+ */
+export const retryDelay = (attempt: number, baseDelayMs: number, retryAfterMs?: number): number =>
+  retryAfterMs !== undefined
+    ? retryAfterMs + Math.random() * baseDelayMs / 4
+    : Math.random() * baseDelayMs * 2 ** (attempt - 1);
+
+/**
+ * Runs `run` until it succeeds, the failure is not retryable or the attempts
+ * are used up. Every attempt gets its own abort signal that fires on timeout
+ * or when the caller aborts.
+ */
+export const withRetry = async <T, E extends RetryableError>(run: (attempt: Attempt) => Promise<T>, options: RetryOptions<E>): Promise<T> => {
+  const { normalize, signal, maxAttempts = 3, timeoutMs = 60000, baseDelayMs = 1000, maxDelayMs = 30000, canRetry, onRetry } = options;
+
+  for (let number = 1; ; number++) {
+    const controller = new AbortController();
+    const abort = () => controller.abort(signal!.reason);
+    signal?.addEventListener('abort', abort, { once: true });
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const keepAlive = () => {
+      clearTimeout(timer);
+      timer = setTimeout(() => controller.abort(new RequestTimeoutError(timeoutMs)), timeoutMs);
+    };
+    keepAlive();
+
+    try {
+      return await run({ number, signal: controller.signal, keepAlive });
+    } catch (caught) {
+      if (signal?.aborted) throw caught;
+      // Aborted requests reject with their own error; the timeout is the real cause.
+      const error = normalize(controller.signal.reason instanceof RequestTimeoutError ? controller.signal.reason : caught);
+      const delayMs = retryDelay(number, baseDelayMs, error.retryAfterMs);
+      if (!error.retryable || number >= maxAttempts || delayMs > maxDelayMs || canRetry?.() === false) throw error;
+      onRetry?.(error, delayMs, number + 1);
+      await sleep(delayMs, signal);
+    } finally {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', abort);
+    }
+  }
+};
@@ -0,0 +1,94 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { ChatSession, Message } from '../types';
+import { indexSessions, searchMessages } from './searchIndex';
+
+const message = (id: string, text: string, extra: Partial<Message> = {}): Message =>
+  ({ id, sender: 'user', type: 'text', text, ...extra }) as Message;
+
+const session = (id: string, messages: Message[], updatedAt = 0): ChatSession =>
+  ({ id, title: id, createdAt: 0, updatedAt, messages }) as ChatSession;
+
+const found = (query: string) => searchMessages(query).map(result => `${result.sessionId}/${result.message.id}`);
+
+beforeEach(() => indexSessions([]));
+
+describe('indexSessions', () => {
+  it('indexes messages added to a session', () => {
+    const first = message('a', 'Deploy to Netlify');
+    indexSessions([session('s', [first])]);
+    indexSessions([session('s', [first, message('b', 'Deploy to Vercel')])]);
+
+    expect(found('deploy')).toEqual(['s/b', 's/a']);
+    expect(found('vercel')).toEqual(['s/b']);
+  });
+
+  it('reindexes messages whose content changed', () => {
+    indexSessions([session('s', [message('a', 'Streaming…')])]);
+    indexSessions([session('s', [message('a', 'A finished answer')])]);
+
+    expect(found('streaming')).toEqual([]);
+    expect(found('finished')).toEqual(['s/a']);
+  });
+
+  it('drops removed messages and sessions', () => {
+    const kept = message('a', 'Kept reply');
+    indexSessions([session('s', [kept, message('b', 'Removed reply')]), session('t', [message('c', 'Another reply')])]);
+    indexSessions([session('s', [kept])]);
+
+    expect(found('reply')).toEqual(['s/a']);
+  });
+
+  it('keeps messages that share an id across sessions apart', () => {
+    indexSessions([session('old', [message('greeting', 'Hello there')], 1), session('new', [message('greeting', 'Hello there')], 2)]);
+    expect(found('hello')).toEqual(['new/greeting', 'old/greeting']);
+
+    indexSessions([session('old', [], 1), session('new', [message('greeting', 'Hello there')], 2)]);
+    expect(found('hello')).toEqual(['new/greeting']);
+  });
+});
+
+describe('searchMessages', () => {
+  it('matches every term against the start of words', () => {
+    indexSessions([session('s', [message('a', 'Refactor the deployment runner'), message('b', 'Employ a runner')])]);
+
+    expect(found('deploy run')).toEqual(['s/a']);
+    expect(found('ploy')).toEqual([]);
+    expect(found('RUN')).toEqual(['s/b', 's/a']);
+  });
+
+  it('searches the other fields of a message and reports the matching one', () => {
+    indexSessions([session('s', [message('a', 'Here you go', {
+      sender: 'ai',
+      attachments: [{ id: 'f', name: 'invoice.pdf', mimeType: 'application/pdf', size: 0, data: '' }],
+    })])]);
+
+    expect(searchMessages('invoice')).toMatchObject([{ field: 'attachment', snippet: [{ text: 'invoice', match: true }, { text: '.pdf', match: false }] }]);
+    expect(searchMessages('invoice', { sender: 'user' })).toEqual([]);
+  });
+
+  it('orders results by the newest session, then the newest message', () => {
+    indexSessions([
+      session('older', [message('a', 'Tea'), message('b', 'More tea')], 1),
+      session('newer', [message('c', 'Tea again')], 2),
+    ]);
+
+    expect(found('tea')).toEqual(['newer/c', 'older/b', 'older/a']);
+  });
+});
+
+describe('snippets', () => {
+  const snippetOf = (text: string, query: string): string => {
+    indexSessions([session('s', [message('a', text)])]);
+    return searchMessages(query)[0].snippet.map(segment => (segment.match ? `[${segment.text}]` : segment.text)).join('');
+  };
+
+  it('highlights the start of each matching word', () => {
+    expect(snippetOf('Deploying the deployment, not a redeploy', 'deploy')).toBe('[Deploy]ing the [deploy]ment, not a redeploy');
+  });
+
+  it('cuts long texts around the first match and collapses whitespace', () => {
+    const text = `${'a '.repeat(100)}needle\n\n${'b '.repeat(100)}`;
+
+    expect(snippetOf(text, 'needle')).toBe(`…${'a '.repeat(30)}[needle] ${'b '.repeat(56)}…`);
+  });
+});
@@ -0,0 +1,170 @@
+import { ChatSession, Message, MessageType, Sender } from '../types';
+
+export type SearchField = 'text' | 'source' | 'analyzedUrl' | 'explanation' | 'file' | 'attachment' | 'imagePrompt';
+
+export const SEARCH_FIELD_LABELS: Record<SearchField, string> = {
+  text: 'Message',
+  source: 'Source',
+  analyzedUrl: 'Analyzed URL',
+  explanation: 'Explanation',
+  file: 'File',
+  attachment: 'Attachment',
+  imagePrompt: 'Image prompt',
+};
+
+export interface SearchFilters {
+  types?: MessageType[];
+  sender?: Sender;
+}
+
+/** A piece of a snippet; matched pieces are highlighted. */
+export interface SnippetSegment {
+  text: string;
+  match: boolean;
+}
+
+export interface SearchResult {
+  sessionId: string;
+  message: Message;
+  field: SearchField;
+  snippet: SnippetSegment[];
+}
+
+interface IndexedMessage {
+  sessionId: string;
+  message: Message;
+  position: number;
+  fields: { field: SearchField; text: string }[];
+  tokens: Set<string>;
+}
+
+const SNIPPET_CONTEXT = 60;
+const MAX_RESULTS = 100;
+
+const tokenize = (text: string): string[] => text.toLowerCase().split(/[^\p{L}\p{N}]+/u).filter(Boolean);
+
+const searchableFields = (message: Message): IndexedMessage['fields'] => [
+  { field: 'text' as const, text: message.text },
+  ...(message.sources ?? []).map(source => ({ field: 'source' as const, text: source.title })),
+  ...(message.analyzedUrls ?? []).map(entry => ({ field: 'analyzedUrl' as const, text: entry.title ? `${entry.title} ${entry.url}` : entry.url })),
+  ...(message.codeModification ? [{ field: 'explanation' as const, text: message.codeModification.explanation }] : []),
+  ...(message.codeModification?.changes ?? []).map(change => ({ field: 'file' as const, text: change.file })),
+  ...(message.imageGeneration ? [{ field: 'imagePrompt' as const, text: message.imageGeneration.prompt }] : []),
+  ...(message.attachments ?? []).map(attachment => ({ field: 'attachment' as const, text: attachment.name })),
+].filter(entry => entry.text.trim() !== '');
+
+/**
+ * In-memory inverted index over every message of every session. Entries are
+ * keyed by session and message id because the greeting shares its id across
+ * sessions.
+ */
+const entries = new Map<string, IndexedMessage>();
+const postings = new Map<string, Set<string>>();
+let indexedSessions: ChatSession[] = [];
+
+const entryKey = (sessionId: string, messageId: string) => `${sessionId}/${messageId}`;
+
+const removeEntry = (key: string): void => {
+  const entry = entries.get(key);
+  if (!entry) return;
+  for (const token of entry.tokens) {
+    const keys = postings.get(token)!;
+    keys.delete(key);
+    if (keys.size === 0) postings.delete(token);
+  }
+  entries.delete(key);
+};
+
+const addEntry = (sessionId: string, message: Message, position: number): void => {
+  const key = entryKey(sessionId, message.id);
+  const existing = entries.get(key);
+  if (existing?.message === message) {
+    existing.position = position;
+    return;
+  }
+  removeEntry(key);
+  const fields = searchableFields(message);
+  const tokens = new Set(fields.flatMap(field => tokenize(field.text)));
+  entries.set(key, { sessionId, message, position, fields, tokens });
+  for (const token of tokens) {
+    if (!postings.has(token)) postings.set(token, new Set());
+    postings.get(token)!.add(key);
+  }
+};
+
+/**
+ * Brings the index up to date with the sessions. Only messages that were
+ * added, changed or removed since the previous call are (re)indexed; unchanged
+ * sessions are skipped by identity.
+ */
+export const indexSessions = (sessions: ChatSession[]): void => {
+  const previous = new Map(indexedSessions.map(session => [session.id, session]));
+  const current = new Set(sessions.map(session => session.id));
+
+  for (const session of indexedSessions) {
+    if (current.has(session.id)) continue;
+    session.messages.forEach(message => removeEntry(entryKey(session.id, message.id)));
+  }
+
+  for (const session of sessions) {
+    const before = previous.get(session.id);
+    if (before === session) continue;
+    const ids = new Set(session.messages.map(message => message.id));
+    before?.messages.filter(message => !ids.has(message.id)).forEach(message => removeEntry(entryKey(session.id, message.id)));
+    session.messages.forEach((message, position) => addEntry(session.id, message, position));
+  }
+
+  indexedSessions = sessions;
+};
+
+// Every query term must match the start of some word, so results narrow while typing.
+const matchingKeys = (term: string): Set<string> => {
+  const keys = new Set<string>();
+  for (const [token, tokenKeys] of postings) {
+    if (token.startsWith(term)) tokenKeys.forEach(key => keys.add(key));
+  }
+  return keys;
+};
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const buildSnippet = (text: string, terms: string[]): SnippetSegment[] => {
+  const pattern = new RegExp(`(?<![\\p{L}\\p{N}])(${terms.map(escapeRegExp).join('|')})`, 'giu');
+  const first = text.search(pattern);
+  const start = Math.max(0, first - SNIPPET_CONTEXT);
+  const end = Math.min(text.length, Math.max(first, 0) + SNIPPET_CONTEXT * 2);
+  const excerpt = `${start > 0 ? '…' : ''}${text.slice(start, end)}${end < text.length ? '…' : ''}`.replace(/\s+/g, ' ');
+
+  // With one capturing group, split puts the matches at the odd indices.
+  return excerpt.split(pattern)
+    .map((part, i) => ({ text: part, match: i % 2 === 1 }))
+    .filter(segment => segment.text !== '');
+};
+
+/**
+ * Finds messages containing every term of the query, newest session and
+ * newest message first.
+ */
+export const searchMessages = (query: string, filters: SearchFilters = {}): SearchResult[] => {
+  const terms = Array.from(new Set(tokenize(query)));
+  if (terms.length === 0) return [];
+
+  let keys = matchingKeys(terms[0]);
+  for (const term of terms.slice(1)) {
+    const termKeys = matchingKeys(term);
+    keys = new Set([...keys].filter(key => termKeys.has(key)));
+  }
+
+  const sessionOrder = new Map([...indexedSessions].sort((a, b) => b.updatedAt - a.updatedAt).map((session, i) => [session.id, i]));
+
+  return [...keys]
+    .map(key => entries.get(key)!)
+    .filter(entry => !filters.types?.length || filters.types.includes(entry.message.type))
+    .filter(entry => !filters.sender || entry.message.sender === filters.sender)
+    .sort((a, b) => sessionOrder.get(a.sessionId)! - sessionOrder.get(b.sessionId)! || b.position - a.position)
+    .slice(0, MAX_RESULTS)
+    .map(entry => {
+      const field = entry.fields.find(f => terms.some(term => tokenize(f.text).some(token => token.startsWith(term)))) ?? entry.fields[0];
+      return { sessionId: entry.sessionId, message: entry.message, field: field.field, snippet: buildSnippet(field.text, terms) };
+    });
+};
@@ -0,0 +1,89 @@
+import { ApiErrorBody, ServerConfig, API_PATHS, STREAM_ERROR_EVENT } from '../server/api';
+
+/** A request to the local server failed; `code` is the server's reason, or `server_unreachable`. */
+export class ServerApiError extends Error {
+  constructor(message: string, public readonly code: string, public readonly status?: number, public readonly retryAfterSeconds?: number) {
+    super(message);
+    this.name = 'ServerApiError';
+  }
+}
+
+export const SERVER_UNREACHABLE = 'server_unreachable';
+
+const UNREACHABLE_MESSAGE = 'The Alfreyaa server could not be reached. Start it together with the app with `npm run dev`.';
+
+const isErrorBody = (value: unknown): value is ApiErrorBody =>
+  typeof value === 'object' && value !== null && typeof (value as ApiErrorBody).code === 'string' && typeof (value as ApiErrorBody).message === 'string';
+
+const send = async (path: string, init: RequestInit): Promise<Response> => {
+  let response: Response;
+  try {
+    response = await fetch(path, init);
+  } catch (error) {
+    if (init.signal?.aborted) throw error;
+    throw new ServerApiError(UNREACHABLE_MESSAGE, SERVER_UNREACHABLE);
+  }
+  if (response.ok) return response;
+
+  const body = await response.json().catch(() => undefined);
+  // Anything else comes from the dev server's proxy, which answers for the server when it is down.
+  if (!isErrorBody(body)) throw new ServerApiError(UNREACHABLE_MESSAGE, SERVER_UNREACHABLE, response.status);
+  throw new ServerApiError(body.message, body.code, response.status, body.retryAfterSeconds);
+};
+
+const jsonInit = (body: unknown, signal?: AbortSignal): RequestInit => ({
+  method: 'POST',
+  headers: { 'Content-Type': 'application/json' },
+  body: JSON.stringify(body),
+  signal,
+});
+
+export const postJson = async <T>(path: string, body: unknown, signal?: AbortSignal): Promise<T> =>
+  (await send(path, jsonInit(body, signal))).json();
+
+/**
+ * Posts a request and yields the server-sent events of the response with
+ * their data parsed as JSON. An error event is thrown as a `ServerApiError`.
+ */
+export async function* postEventStream<TEvent extends { event: string; data: unknown }>(path: string, body: unknown, signal?: AbortSignal): AsyncGenerator<TEvent> {
+  const response = await send(path, jsonInit(body, signal));
+  const reader = response.body!.pipeThrough(new TextDecoderStream()).getReader();
+  let buffer = '';
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) return;
+    buffer += value;
+    let end: number;
+    while ((end = buffer.indexOf('\n\n')) >= 0) {
+      const block = buffer.slice(0, end);
+      buffer = buffer.slice(end + 2);
+      let event = 'message';
+      const data: string[] = [];
+      for (const line of block.split('\n')) {
+        if (line.startsWith('event:')) event = line.slice(6).trim();
+        else if (line.startsWith('data:')) data.push(line.slice(5).replace(/^ /, ''));
+      }
+      if (data.length === 0) continue;
+      const parsed: unknown = JSON.parse(data.join('\n'));
+      if (event === STREAM_ERROR_EVENT) {
+        throw isErrorBody(parsed)
+          ? new ServerApiError(parsed.message, parsed.code, undefined, parsed.retryAfterSeconds)
+          : new ServerApiError('The server reported an unknown error.', 'unknown');
+      }
+      yield { event, data: parsed } as TEvent;
+    }
+  }
+}
+
+let config: Promise<ServerConfig> | null = null;
+
+/** What the server is configured for. Fetched once; a failed fetch is retried on the next call. */
+export const getServerConfig = (): Promise<ServerConfig> => {
+  if (!config) {
+    config = send(API_PATHS.config, {}).then(response => response.json());
+    config.catch(() => {
+      config = null;
+    });
+  }
+  return config;
+};
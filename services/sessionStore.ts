@@ -0,0 +1,55 @@
+import { ChatSession, Message } from '../types';
+import { Persona, addressUser } from './personas';
+
+const ACTIVE_SESSION_KEY = 'alfreyaa_active_session';
+
+export const DEFAULT_SESSION_TITLE = 'New chat';
+
+const GREETING_ID_PREFIX = 'greeting-';
+
+export const createGreetingId = (): string => `${GREETING_ID_PREFIX}${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+
+/** The first message of a new or cleared conversation. */
+export const createGreeting = (persona: Persona): Message => ({
+  id: createGreetingId(),
+  text: `Greetings${addressUser(persona)}. ${persona.assistantName} is operational.`,
+  sender: 'ai',
+  type: 'text',
+});
+
+export const isGreeting = (message: Message): boolean => message.id.startsWith(GREETING_ID_PREFIX);
+
+export const createSession = (messages: Message[], personaId?: string): ChatSession => {
+  const now = Date.now();
+  return {
+    id: `session-${now}-${Math.random().toString(36).slice(2, 8)}`,
+    title: DEFAULT_SESSION_TITLE,
+    createdAt: now,
+    updatedAt: now,
+    pinned: false,
+    needsTitle: true,
+    ...(personaId && { personaId }),
+    messages,
+  };
+};
+
+export const getActiveSessionId = (): string | undefined => localStorage.getItem(ACTIVE_SESSION_KEY) ?? undefined;
+
+export const setActiveSessionId = (sessionId: string): void => {
+  localStorage.setItem(ACTIVE_SESSION_KEY, sessionId);
+};
+
+/** Pinned sessions first, then the most recently updated. */
+export const sortSessions = (sessions: ChatSession[]): ChatSession[] =>
+  [...sessions].sort((a, b) => Number(b.pinned) - Number(a.pinned) || b.updatedAt - a.updatedAt);
+
+/**
+ * Returns the first user message and the reply to it once the reply is
+ * complete, which is what the session title is generated from.
+ */
+export const getFirstExchange = (session: ChatSession): { user: Message; ai: Message } | undefined => {
+  const userIndex = session.messages.findIndex(m => m.sender === 'user');
+  const reply = session.messages.slice(userIndex + 1).find(m => m.sender === 'ai');
+  if (userIndex < 0 || !reply || reply.isStreaming || !reply.text.trim()) return undefined;
+  return { user: session.messages[userIndex], ai: reply };
+};
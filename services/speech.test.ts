@@ -0,0 +1,15 @@
+import { describe, it, expect } from 'vitest';
+import { toSpeakableText } from './speech';
+
+describe('toSpeakableText', () => {
+  it('drops code, formulas, URLs and citation markers', () => {
+    const markdown = 'Run this [1]:\n\n```sh\nnpm test\n```\n\nSee https://vitest.dev. The sum is $$a+b$$.';
+
+    expect(toSpeakableText(markdown)).toBe('Run this :\n (code omitted) \nSee . The sum is (formula omitted) .');
+  });
+
+  it('keeps link labels and the text inside formatting', () => {
+    expect(toSpeakableText('## Result\n\n- **Bold** and _italic_ with `code`\n- Read [the docs](https://example.com)'))
+      .toBe('Result\nBold and italic with code\nRead the docs');
+  });
+});
@@ -0,0 +1,229 @@
+/**
+ * Speech input and output behind small interfaces. The app uses the Web
+ * Speech API implementations below; tests and other environments can install
+ * their own with `setSpeechRecognizer` and `setSpeechSynthesizer`.
+ */
+
+export interface RecognitionOptions {
+  /** Keep listening across pauses until stopped. */
+  continuous: boolean;
+  /** BCP 47 language tag; the browser's language when empty. */
+  lang?: string;
+}
+
+export interface RecognitionCallbacks {
+  /** The transcript of the current utterance; `isFinal` once the utterance is complete. */
+  onTranscript: (text: string, isFinal: boolean) => void;
+  /** Listening has stopped, after the last final transcript. */
+  onEnd: () => void;
+  onError: (message: string) => void;
+}
+
+export interface SpeechRecognizer {
+  isSupported: () => boolean;
+  start: (options: RecognitionOptions, callbacks: RecognitionCallbacks) => void;
+  stop: () => void;
+}
+
+export interface SpeechVoice {
+  id: string;
+  name: string;
+  lang: string;
+}
+
+export interface SpeakOptions {
+  voiceId?: string;
+  /** 1 is normal speed. */
+  rate: number;
+}
+
+export interface SpeechSynthesizer {
+  isSupported: () => boolean;
+  getVoices: () => SpeechVoice[];
+  /** Voices load asynchronously in some browsers; returns a function that unsubscribes. */
+  onVoicesChanged: (listener: () => void) => () => void;
+  /** Speaks the text, replacing anything being spoken. `onEnd` is not called when stopped. */
+  speak: (text: string, options: SpeakOptions, onEnd: () => void) => void;
+  stop: () => void;
+}
+
+// The Web Speech recognition API is not part of the TypeScript DOM types.
+interface BrowserRecognitionResult {
+  readonly isFinal: boolean;
+  readonly 0: { transcript: string };
+}
+
+interface BrowserRecognitionEvent {
+  readonly resultIndex: number;
+  readonly results: ArrayLike<BrowserRecognitionResult>;
+}
+
+interface BrowserRecognition {
+  continuous: boolean;
+  interimResults: boolean;
+  lang: string;
+  onresult: ((event: BrowserRecognitionEvent) => void) | null;
+  onerror: ((event: { error: string }) => void) | null;
+  onend: (() => void) | null;
+  start: () => void;
+  stop: () => void;
+  abort: () => void;
+}
+
+type BrowserRecognitionConstructor = new () => BrowserRecognition;
+
+const recognitionConstructor = (): BrowserRecognitionConstructor | undefined => {
+  const scope = window as unknown as { SpeechRecognition?: BrowserRecognitionConstructor; webkitSpeechRecognition?: BrowserRecognitionConstructor };
+  return scope.SpeechRecognition ?? scope.webkitSpeechRecognition;
+};
+
+const RECOGNITION_ERRORS: Record<string, string> = {
+  'not-allowed': 'Microphone access was denied.',
+  'service-not-allowed': 'Speech recognition is not allowed in this browser.',
+  'audio-capture': 'No microphone was found.',
+  network: 'Speech recognition needs a network connection.',
+};
+
+const createWebSpeechRecognizer = (): SpeechRecognizer => {
+  let active: BrowserRecognition | null = null;
+
+  return {
+    isSupported: () => !!recognitionConstructor(),
+
+    start: (options, callbacks) => {
+      const Recognition = recognitionConstructor();
+      if (!Recognition) {
+        callbacks.onError('Speech recognition is not supported in this browser.');
+        return;
+      }
+      active?.abort();
+      const recognition = new Recognition();
+      recognition.continuous = options.continuous;
+      recognition.interimResults = true;
+      recognition.lang = options.lang || navigator.language;
+
+      recognition.onresult = (event) => {
+        let interim = '';
+        for (let i = event.resultIndex; i < event.results.length; i++) {
+          const result = event.results[i];
+          if (result.isFinal) callbacks.onTranscript(result[0].transcript.trim(), true);
+          else interim += result[0].transcript;
+        }
+        if (interim.trim()) callbacks.onTranscript(interim.trim(), false);
+      };
+      // Silence and aborts end the session normally; only real failures are reported.
+      recognition.onerror = (event) => {
+        if (event.error === 'no-speech' || event.error === 'aborted') return;
+        callbacks.onError(RECOGNITION_ERRORS[event.error] ?? `Speech recognition failed (${event.error}).`);
+      };
+      recognition.onend = () => {
+        if (active === recognition) active = null;
+        callbacks.onEnd();
+      };
+      active = recognition;
+      recognition.start();
+    },
+
+    stop: () => active?.stop(),
+  };
+};
+
+// Long utterances are cut off by some browsers, so text is spoken a few sentences at a time.
+const MAX_UTTERANCE_CHARS = 200;
+
+const splitForSpeech = (text: string): string[] => {
+  const sentences = text.match(/[^.!?\n]+[.!?]*\s*/g) ?? [text];
+  const parts: string[] = [];
+  for (const sentence of sentences) {
+    const last = parts[parts.length - 1];
+    if (last !== undefined && last.length + sentence.length <= MAX_UTTERANCE_CHARS) parts[parts.length - 1] = last + sentence;
+    else parts.push(sentence);
+  }
+  return parts.map(part => part.trim()).filter(Boolean);
+};
+
+const createWebSpeechSynthesizer = (): SpeechSynthesizer => {
+  // Incremented on every speak and stop, so callbacks of replaced speech are ignored.
+  let generation = 0;
+
+  return {
+    isSupported: () => 'speechSynthesis' in window,
+
+    getVoices: () => ('speechSynthesis' in window ? window.speechSynthesis.getVoices() : [])
+      .map(voice => ({ id: voice.voiceURI, name: voice.name, lang: voice.lang })),
+
+    onVoicesChanged: (listener) => {
+      if (!('speechSynthesis' in window)) return () => undefined;
+      window.speechSynthesis.addEventListener('voiceschanged', listener);
+      return () => window.speechSynthesis.removeEventListener('voiceschanged', listener);
+    },
+
+    speak: (text, options, onEnd) => {
+      if (!('speechSynthesis' in window)) return;
+      const current = ++generation;
+      window.speechSynthesis.cancel();
+      const voice = window.speechSynthesis.getVoices().find(v => v.voiceURI === options.voiceId);
+      const parts = splitForSpeech(text);
+      if (parts.length === 0) {
+        onEnd();
+        return;
+      }
+      parts.forEach((part, i) => {
+        const utterance = new SpeechSynthesisUtterance(part);
+        utterance.rate = options.rate;
+        if (voice) {
+          utterance.voice = voice;
+          utterance.lang = voice.lang;
+        }
+        if (i === parts.length - 1) {
+          utterance.onend = () => current === generation && onEnd();
+          utterance.onerror = () => current === generation && onEnd();
+        }
+        window.speechSynthesis.speak(utterance);
+      });
+    },
+
+    stop: () => {
+      generation++;
+      if ('speechSynthesis' in window) window.speechSynthesis.cancel();
+    },
+  };
+};
+
+let recognizer: SpeechRecognizer = createWebSpeechRecognizer();
+let synthesizer: SpeechSynthesizer = createWebSpeechSynthesizer();
+
+export const getSpeechRecognizer = (): SpeechRecognizer => recognizer;
+
+export const setSpeechRecognizer = (next: SpeechRecognizer): void => {
+  recognizer = next;
+};
+
+export const getSpeechSynthesizer = (): SpeechSynthesizer => synthesizer;
+
+export const setSpeechSynthesizer = (next: SpeechSynthesizer): void => {
+  synthesizer = next;
+};
+
+/**
+ * Turns a Markdown reply into text worth hearing: code blocks, URLs, citation
+ * markers and formatting characters are removed, link labels are kept.
+ */
+export const toSpeakableText = (markdown: string): string =>
+  markdown
+    .replace(/```[\s\S]*?(```|$)/g, ' (code omitted) ')
+    .replace(/\$\$[\s\S]*?\$\$/g, ' (formula omitted) ')
+    .replace(/!\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/\[([^\]]+)\]\([^)]*\)/g, '$1')
+    .replace(/\[\^?\d+\]/g, '')
+    .replace(/<?https?:\/\/[^\s>)]*[^\s>).,;:!?]>?/g, '')
+    .replace(/`([^`]*)`/g, '$1')
+    .replace(/^\s{0,3}#{1,6}\s+/gm, '')
+    .replace(/^\s*>\s?/gm, '')
+    .replace(/^\s*([-*+]|\d+\.)\s+/gm, '')
+    .replace(/^\s*\|?\s*:?-{3,}.*$/gm, '')
+    .replace(/\|/g, ', ')
+    .replace(/(\*\*|__|\*|_|~~)(\S[\s\S]*?\S|\S)\1/g, '$2')
+    .replace(/[ \t]+/g, ' ')
+    .replace(/\n{2,}/g, '\n')
+    .trim();
@@ -0,0 +1,60 @@
+import { describe, it, expect } from 'vitest';
+import { ChatSession, ModelUsage, UsageRecord } from '../types';
+import { addMessageUsage, imageUsage, sumByModel, summarizeUsage } from './usage';
+import { PriceTable } from './usageSettings';
+
+const PRICES: PriceTable = {
+  'text-model': { input: 1, cachedInput: 0.5, output: 2, image: 0 },
+  'image-model': { input: 0, cachedInput: 0, output: 0, image: 0.25 },
+};
+
+const chat = (promptTokens: number, outputTokens: number): ModelUsage =>
+  ({ capability: 'chat', model: 'text-model', promptTokens, cachedTokens: 0, outputTokens, images: 0 });
+
+const record = (sessionId: string, at: number, models: ModelUsage[]): UsageRecord => ({ sessionId, at, models });
+
+const session = (id: string) => ({ id, title: `Chat ${id}`, messages: [] }) as unknown as ChatSession;
+
+describe('sumByModel', () => {
+  it('sums the usage of each capability and model', () => {
+    expect(sumByModel([chat(10, 5), imageUsage('image-model', 2), chat(20, 1)])).toEqual([chat(30, 6), imageUsage('image-model', 2)]);
+  });
+});
+
+describe('addMessageUsage', () => {
+  it('adds the usage of a request to the message it ended with', () => {
+    const withMessages = { ...session('kept'), messages: [{ id: 'reply', sender: 'ai', type: 'text', text: '' }] } as ChatSession;
+
+    const once = addMessageUsage(withMessages, 'reply', [chat(10, 5)]);
+    const twice = addMessageUsage(once, 'reply', [chat(20, 1), imageUsage('image-model', 1)]);
+
+    expect(twice.messages[0].usage).toEqual({ at: once.messages[0].usage!.at, models: [chat(30, 6), imageUsage('image-model', 1)] });
+    expect(addMessageUsage(withMessages, 'reply', [])).toBe(withMessages);
+  });
+});
+
+describe('summarizeUsage', () => {
+  const records = [
+    record('kept', new Date(2026, 9, 1, 12).getTime(), [chat(1_000_000, 0)]),
+    record('deleted', new Date(2026, 9, 2, 12).getTime(), [chat(0, 1_000_000), imageUsage('image-model', 4)]),
+    record('kept', new Date(2026, 8, 30, 12).getTime(), [chat(1_000_000, 1_000_000)]),
+  ];
+
+  it('counts requests of deleted conversations', () => {
+    const summary = summarizeUsage(records, [session('kept')], PRICES);
+
+    expect(summary.total).toMatchObject({ requests: 3, promptTokens: 2_000_000, outputTokens: 2_000_000, images: 4, cost: 7 });
+    expect(summary.bySession).toEqual([
+      { sessionId: 'kept', session: session('kept'), totals: expect.objectContaining({ requests: 2, cost: 4 }) },
+      { sessionId: 'deleted', session: undefined, totals: expect.objectContaining({ requests: 1, cost: 3 }) },
+    ]);
+  });
+
+  it('only counts requests from the start of the period', () => {
+    const summary = summarizeUsage(records, [], PRICES, new Date(2026, 9, 1).getTime());
+
+    expect(summary.total).toMatchObject({ requests: 2, cost: 4 });
+    expect(summary.byDay.map(({ day }) => day)).toEqual(['2026-10-02', '2026-10-01']);
+    expect(summary.byCapability.map(({ capability, totals }) => [capability, totals.requests])).toEqual([['chat', 2], ['image', 1]]);
+  });
+});
@@ -0,0 +1,143 @@
+import type { GenerateContentResponseUsageMetadata } from '@google/genai';
+import { ChatSession, ModelUsage, Usage, UsageRecord } from '../types';
+import { ModelCapability } from './modelSettings';
+import { PriceTable } from './usageSettings';
+
+/** Receives the usage of every model request as it completes. */
+export type UsageListener = (usage: ModelUsage) => void;
+
+export const tokenUsage = (capability: ModelCapability, model: string, metadata: GenerateContentResponseUsageMetadata): ModelUsage => ({
+  capability,
+  model,
+  promptTokens: metadata.promptTokenCount ?? 0,
+  cachedTokens: metadata.cachedContentTokenCount ?? 0,
+  outputTokens: (metadata.candidatesTokenCount ?? 0) + (metadata.thoughtsTokenCount ?? 0),
+  images: 0,
+});
+
+export const imageUsage = (model: string, images: number): ModelUsage =>
+  ({ capability: 'image', model, promptTokens: 0, cachedTokens: 0, outputTokens: 0, images });
+
+/** Sums usage per capability and model. */
+export const sumByModel = (entries: ModelUsage[]): ModelUsage[] => {
+  const models: ModelUsage[] = [];
+  for (const entry of entries) {
+    const i = models.findIndex(m => m.capability === entry.capability && m.model === entry.model);
+    if (i < 0) {
+      models.push(entry);
+      continue;
+    }
+    models[i] = {
+      ...models[i],
+      promptTokens: models[i].promptTokens + entry.promptTokens,
+      cachedTokens: models[i].cachedTokens + entry.cachedTokens,
+      outputTokens: models[i].outputTokens + entry.outputTokens,
+      images: models[i].images + entry.images,
+    };
+  }
+  return models;
+};
+
+/** Adds usage to that of a message, summed per capability and model. */
+export const addUsage = (usage: Usage | undefined, added: ModelUsage[]): Usage =>
+  ({ at: usage?.at ?? Date.now(), models: sumByModel([...(usage?.models ?? []), ...added]) });
+
+/** Adds usage to a message of the session; the session is returned as is when there is none. */
+export const addMessageUsage = (session: ChatSession, messageId: string | undefined, added: ModelUsage[]): ChatSession =>
+  added.length === 0 ? session : {
+    ...session,
+    messages: session.messages.map(message => (message.id === messageId ? { ...message, usage: addUsage(message.usage, added) } : message)),
+  };
+
+/** The ledger entry of a request made now, from the usage of its model calls. */
+export const createUsageRecord = (sessionId: string, entries: ModelUsage[]): UsageRecord =>
+  ({ at: Date.now(), sessionId, models: sumByModel(entries) });
+
+/** The estimated cost in US dollars; models without a price count as free. */
+export const usageCost = (usage: ModelUsage, prices: PriceTable): number => {
+  const price = prices[usage.model];
+  if (!price) return 0;
+  const tokens = (usage.promptTokens - usage.cachedTokens) * price.input + usage.cachedTokens * price.cachedInput + usage.outputTokens * price.output;
+  return tokens / 1_000_000 + usage.images * price.image;
+};
+
+export interface UsageTotals {
+  requests: number;
+  promptTokens: number;
+  cachedTokens: number;
+  outputTokens: number;
+  images: number;
+  cost: number;
+}
+
+export interface UsageSummary {
+  total: UsageTotals;
+  /** By local date as `YYYY-MM-DD`, newest first. */
+  byDay: { day: string; totals: UsageTotals }[];
+  /** Most expensive first; `session` is missing for deleted conversations. */
+  bySession: { sessionId: string; session?: ChatSession; totals: UsageTotals }[];
+  byCapability: { capability: ModelCapability; totals: UsageTotals }[];
+}
+
+const emptyTotals = (): UsageTotals => ({ requests: 0, promptTokens: 0, cachedTokens: 0, outputTokens: 0, images: 0, cost: 0 });
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+export const dayKey = (time: number): string => {
+  const date = new Date(time);
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+};
+
+export const monthKey = (time: number): string => dayKey(time).slice(0, 7);
+
+export const startOfMonth = (time: number): number => {
+  const date = new Date(time);
+  return new Date(date.getFullYear(), date.getMonth(), 1).getTime();
+};
+
+/**
+ * Totals the ledger from `since` on. The ledger outlives the conversations,
+ * so clearing or deleting one does not lower the totals.
+ */
+export const summarizeUsage = (records: UsageRecord[], sessions: ChatSession[], prices: PriceTable, since = 0): UsageSummary => {
+  const total = emptyTotals();
+  const byDay = new Map<string, UsageTotals>();
+  const bySession = new Map<string, UsageTotals>();
+  const byCapability = new Map<ModelCapability, UsageTotals>();
+  const groupOf = <K>(groups: Map<K, UsageTotals>, key: K): UsageTotals => {
+    if (!groups.has(key)) groups.set(key, emptyTotals());
+    return groups.get(key)!;
+  };
+
+  for (const record of records) {
+    if (record.at < since) continue;
+    const day = groupOf(byDay, dayKey(record.at));
+    const conversation = groupOf(bySession, record.sessionId);
+    const capabilities = new Set<UsageTotals>();
+    for (const entry of record.models) {
+      const capability = groupOf(byCapability, entry.capability);
+      capabilities.add(capability);
+      const cost = usageCost(entry, prices);
+      for (const totals of [total, day, conversation, capability]) {
+        totals.promptTokens += entry.promptTokens;
+        totals.cachedTokens += entry.cachedTokens;
+        totals.outputTokens += entry.outputTokens;
+        totals.images += entry.images;
+        totals.cost += cost;
+      }
+    }
+    for (const totals of [total, day, conversation, ...capabilities]) totals.requests++;
+  }
+
+  const sessionsById = new Map(sessions.map(session => [session.id, session]));
+
+  return {
+    total,
+    byDay: [...byDay].sort(([a], [b]) => b.localeCompare(a)).map(([day, totals]) => ({ day, totals })),
+    bySession: [...bySession].sort(([, a], [, b]) => b.cost - a.cost).map(([sessionId, totals]) => ({ sessionId, session: sessionsById.get(sessionId), totals })),
+    byCapability: [...byCapability].sort(([, a], [, b]) => b.cost - a.cost).map(([capability, totals]) => ({ capability, totals })),
+  };
+};
+
+/** Dollars with cents, or with four decimals for amounts below a cent. */
+export const formatCost = (cost: number): string => `$${cost.toFixed(cost > 0 && cost < 0.01 ? 4 : 2)}`;
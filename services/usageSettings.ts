@@ -0,0 +1,74 @@
+import { MODELS } from './modelSettings';
+
+const USAGE_SETTINGS_KEY = 'alfreyaa_usage_settings';
+const BUDGET_WARNING_KEY = 'alfreyaa_budget_warning';
+
+/** Prices in US dollars: per million tokens for text models, per image for image models. */
+export interface ModelPrice {
+  input: number;
+  cachedInput: number;
+  output: number;
+  image: number;
+}
+
+/** Prices by model id. */
+export type PriceTable = Record<string, ModelPrice>;
+
+export interface UsageSettings {
+  prices: PriceTable;
+  /** Estimated cost per calendar month above which the chat shows a warning; none when unset. */
+  monthlyBudget?: number;
+}
+
+const textPrice = (input: number, cachedInput: number, output: number): ModelPrice => ({ input, cachedInput, output, image: 0 });
+const imagePrice = (image: number): ModelPrice => ({ input: 0, cachedInput: 0, output: 0, image });
+
+// Paid tier list prices for prompts of up to 200k tokens.
+export const DEFAULT_PRICES: PriceTable = {
+  'gemini-2.5-flash': textPrice(0.3, 0.075, 2.5),
+  'gemini-2.5-pro': textPrice(1.25, 0.31, 10),
+  'gemini-2.5-flash-lite': textPrice(0.1, 0.025, 0.4),
+  'gemini-2.0-flash': textPrice(0.1, 0.025, 0.4),
+  'imagen-3.0-generate-002': imagePrice(0.03),
+  'imagen-4.0-generate-001': imagePrice(0.04),
+  'imagen-4.0-fast-generate-001': imagePrice(0.02),
+};
+
+export const DEFAULT_USAGE_SETTINGS: UsageSettings = { prices: DEFAULT_PRICES };
+
+const isPrice = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value) && value >= 0;
+
+const validatePrice = (modelId: string, stored: Partial<ModelPrice> = {}): ModelPrice => {
+  const fallback = DEFAULT_PRICES[modelId] ?? textPrice(0, 0, 0);
+  return {
+    input: isPrice(stored.input) ? stored.input : fallback.input,
+    cachedInput: isPrice(stored.cachedInput) ? stored.cachedInput : fallback.cachedInput,
+    output: isPrice(stored.output) ? stored.output : fallback.output,
+    image: isPrice(stored.image) ? stored.image : fallback.image,
+  };
+};
+
+/** Loads the usage settings; every listed model gets a price, missing or invalid ones fall back to the defaults. */
+export const loadUsageSettings = (): UsageSettings => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(USAGE_SETTINGS_KEY) ?? '{}');
+    const prices = Object.fromEntries(MODELS.map(model => [model.id, validatePrice(model.id, stored.prices?.[model.id])]));
+    return {
+      prices,
+      ...(isPrice(stored.monthlyBudget) && stored.monthlyBudget > 0 && { monthlyBudget: stored.monthlyBudget }),
+    };
+  } catch {
+    return DEFAULT_USAGE_SETTINGS;
+  }
+};
+
+export const saveUsageSettings = (settings: UsageSettings): void => {
+  localStorage.setItem(USAGE_SETTINGS_KEY, JSON.stringify(settings));
+};
+
+/** The month, as `YYYY-MM`, in which the budget warning was last shown. */
+export const getBudgetWarningMonth = (): string | undefined => localStorage.getItem(BUDGET_WARNING_KEY) ?? undefined;
+
+export const setBudgetWarningMonth = (month: string): void => {
+  localStorage.setItem(BUDGET_WARNING_KEY, month);
+};
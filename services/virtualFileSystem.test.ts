@@ -0,0 +1,49 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { CodeChange, CodeChangeStatus, Message } from '../types';
+import { listFiles, readFile, reset, restoreFileFromMessages, restoreFromMessages } from './virtualFileSystem';
+
+const modification = (id: string, file: string, originalContent: string, newContent: string, status: CodeChangeStatus): Message => {
+  const change: CodeChange = { file, reason: 'requested', originalContent, newContent, status };
+  return { id, sender: 'ai', type: 'code_modification', text: '', codeModification: { explanation: '', changes: [change] } };
+};
+
+beforeEach(() => reset());
+
+describe('restoreFromMessages', () => {
+  it('replays the accepted changes in order', () => {
+    restoreFromMessages([
+      modification('a', 'App.tsx', 'v1', 'v2', 'accepted'),
+      modification('b', 'App.tsx', 'v2', 'v3', 'rejected'),
+      modification('c', 'App.tsx', 'v2', 'v4', 'accepted'),
+    ]);
+
+    expect(readFile('App.tsx')).toBe('v4');
+  });
+});
+
+describe('restoreFileFromMessages', () => {
+  it('removes a created file once its change is rejected', () => {
+    restoreFromMessages([modification('a', 'New.tsx', '', 'created', 'accepted')]);
+
+    restoreFileFromMessages('New.tsx', [modification('a', 'New.tsx', '', 'created', 'rejected')]);
+
+    expect(readFile('New.tsx')).toBeUndefined();
+    expect(listFiles()).toEqual([]);
+  });
+
+  it('keeps a later accepted change when an earlier one is rejected', () => {
+    const later = modification('b', 'App.tsx', 'v2', 'v3', 'accepted');
+    restoreFromMessages([modification('a', 'App.tsx', 'v1', 'v2', 'accepted'), later]);
+
+    restoreFileFromMessages('App.tsx', [modification('a', 'App.tsx', 'v1', 'v2', 'rejected'), later]);
+
+    expect(readFile('App.tsx')).toBe('v3');
+  });
+
+  it('keeps a file that an accepted change emptied', () => {
+    restoreFileFromMessages('App.tsx', [modification('a', 'App.tsx', 'v1', '', 'accepted')]);
+
+    expect(readFile('App.tsx')).toBe('');
+    expect(listFiles()).toEqual(['App.tsx']);
+  });
+});
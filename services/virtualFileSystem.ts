@@ -0,0 +1,55 @@
+import { Message } from '../types';
+
+/**
+ * In-memory overlay on top of the project sources. It holds the accepted
+ * versions of self-modified files, which take precedence over the files
+ * served by the dev server when the project is read or deployed.
+ */
+const overrides = new Map<string, string>();
+
+export const readFile = (path: string): string | undefined => overrides.get(path);
+
+export const writeFile = (path: string, content: string): void => {
+  overrides.set(path, content);
+};
+
+/** Drops the override, so the project's own file, if there is one, is used again. */
+export const deleteFile = (path: string): void => {
+  overrides.delete(path);
+};
+
+export const listFiles = (): string[] => Array.from(overrides.keys());
+
+export const hasChanges = (): boolean => overrides.size > 0;
+
+export const reset = (): void => {
+  overrides.clear();
+};
+
+/**
+ * Rebuilds the overlay by replaying accepted changes in message order, so a
+ * reloaded conversation deploys the same sources it did before.
+ */
+export const restoreFromMessages = (messages: Message[]): void => {
+  reset();
+  for (const message of messages) {
+    for (const change of message.codeModification?.changes ?? []) {
+      if (change.status === 'accepted') writeFile(change.file, change.newContent);
+    }
+  }
+};
+
+/**
+ * Brings one file in line with the accepted changes in `messages`, in the
+ * order `restoreFromMessages` replays them: the latest accepted change wins.
+ * Without one the override is dropped, so a file a change created disappears
+ * and any other file is read from the project again.
+ */
+export const restoreFileFromMessages = (path: string, messages: Message[]): void => {
+  const latest = messages
+    .flatMap(message => message.codeModification?.changes ?? [])
+    .filter(change => change.file === path && change.status === 'accepted')
+    .pop();
+  if (latest) writeFile(path, latest.newContent);
+  else deleteFile(path);
+};
@@ -0,0 +1,53 @@
+const VOICE_SETTINGS_KEY = 'alfreyaa_voice_settings';
+
+/**
+ * `push_to_talk`: speak while holding the mic button; the message is sent on release.
+ * `continuous`: listen until the mic is turned off, sending after every pause.
+ */
+export type VoiceInputMode = 'push_to_talk' | 'continuous';
+
+export const VOICE_INPUT_MODES: Record<VoiceInputMode, string> = {
+  push_to_talk: 'Push to talk',
+  continuous: 'Continuous',
+};
+
+export interface VoiceSettings {
+  inputMode: VoiceInputMode;
+  /** Recognition language as a BCP 47 tag; the browser's language when empty. */
+  language: string;
+  /** Voice used for replies; the browser's default when unset. */
+  voiceId?: string;
+  rate: number;
+  /** Read chat and search replies aloud as soon as they are complete. */
+  autoRead: boolean;
+}
+
+export const MIN_SPEECH_RATE = 0.5;
+export const MAX_SPEECH_RATE = 2;
+
+export const DEFAULT_VOICE_SETTINGS: VoiceSettings = {
+  inputMode: 'push_to_talk',
+  language: '',
+  rate: 1,
+  autoRead: false,
+};
+
+/** Loads the voice settings; unknown or missing values fall back to the defaults. */
+export const loadVoiceSettings = (): VoiceSettings => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(VOICE_SETTINGS_KEY) ?? '{}');
+    return {
+      inputMode: stored.inputMode in VOICE_INPUT_MODES ? stored.inputMode : DEFAULT_VOICE_SETTINGS.inputMode,
+      language: typeof stored.language === 'string' ? stored.language : DEFAULT_VOICE_SETTINGS.language,
+      ...(typeof stored.voiceId === 'string' && { voiceId: stored.voiceId }),
+      rate: typeof stored.rate === 'number' ? Math.min(Math.max(stored.rate, MIN_SPEECH_RATE), MAX_SPEECH_RATE) : DEFAULT_VOICE_SETTINGS.rate,
+      autoRead: typeof stored.autoRead === 'boolean' ? stored.autoRead : DEFAULT_VOICE_SETTINGS.autoRead,
+    };
+  } catch {
+    return DEFAULT_VOICE_SETTINGS;
+  }
+};
+
+export const saveVoiceSettings = (settings: VoiceSettings): void => {
+  localStorage.setItem(VOICE_SETTINGS_KEY, JSON.stringify(settings));
+};
@@ -0,0 +1,67 @@
+import { API_PATHS } from '../server/api';
+
+export interface FetchedPage {
+  /** URL the content was served from, after redirects. */
+  url: string;
+  html: string;
+  contentType: string;
+  /** Set when the backend cut the body short because it was too large. */
+  truncated: boolean;
+}
+
+export class WebsiteFetchError extends Error {
+  constructor(message: string, public readonly status?: number) {
+    super(message);
+    this.name = 'WebsiteFetchError';
+  }
+}
+
+/** How the browser obtains the HTML of a page it cannot fetch directly because of CORS. */
+export interface WebsiteFetchBackend {
+  id: string;
+  label: string;
+  fetchPage: (url: string, signal?: AbortSignal) => Promise<FetchedPage>;
+}
+
+const fetchVia = async (requestUrl: string, pageUrl: string, signal?: AbortSignal): Promise<FetchedPage> => {
+  const response = await fetch(requestUrl, { signal });
+  if (!response.ok) {
+    const body = await response.text().catch(() => '');
+    // The server explains its own failures in JSON; other bodies are shown as they are.
+    let detail = body.slice(0, 200);
+    try {
+      detail = JSON.parse(body).message ?? detail;
+    } catch {
+      // Not JSON.
+    }
+    throw new WebsiteFetchError(`Failed to fetch ${pageUrl} (status ${response.status})${detail ? `: ${detail}` : '.'}`, response.status);
+  }
+  return {
+    url: response.headers.get('X-Final-Url') || pageUrl,
+    html: await response.text(),
+    contentType: response.headers.get('content-type') ?? 'text/html',
+    truncated: response.headers.get('X-Truncated') === 'true',
+  };
+};
+
+/** The local server, which fetches the page itself or through its configured proxy. */
+export const serverBackend: WebsiteFetchBackend = {
+  id: 'server',
+  label: 'Local server',
+  fetchPage: (url, signal) => fetchVia(`${API_PATHS.fetchPage}?url=${encodeURIComponent(url)}`, url, signal),
+};
+
+/** Fetches the page itself; only works for sites that allow cross-origin requests. */
+export const directBackend: WebsiteFetchBackend = {
+  id: 'direct',
+  label: 'Direct (CORS-enabled sites only)',
+  fetchPage: (url, signal) => fetchVia(url, url, signal),
+};
+
+let backend: WebsiteFetchBackend = serverBackend;
+
+export const getWebsiteFetchBackend = (): WebsiteFetchBackend => backend;
+
+export const setWebsiteFetchBackend = (next: WebsiteFetchBackend): void => {
+  backend = next;
+};
@@ -1,40 +1,110 @@
+import { AnalyzedUrl } from '../types';
+import { extractContent, ExtractedPage } from './contentExtractor';
+import { getWebsiteFetchBackend } from './websiteFetch';
+import { Persona, addressUser } from './personas';
+
+export const MAX_CRAWL_PAGES = 10;
+
+// Links to files rather than pages are not worth crawling.
+const NON_PAGE_EXTENSION = /\.(pdf|zip|gz|tar|png|jpe?g|gif|webp|svg|ico|mp[34]|mov|avi|webm|woff2?|ttf|css|js|json|xml|rss)$/i;
+
+export interface WebsiteContent {
+  /** The requested page first, then any crawled pages. */
+  pages: ExtractedPage[];
+  /** Crawled URLs that could not be fetched. */
+  failed: string[];
+  /** Set when the fetch backend cut the requested page short. */
+  truncated: boolean;
+}
+
+export interface FetchWebsiteOptions {
+  /** The persona of the conversation, which phrases the errors. */
+  persona: Persona;
+  /** Number of same-origin pages linked from the first page to fetch as well. */
+  crawlPages?: number;
+  signal?: AbortSignal;
+}
+
+const fetchPage = async (url: string, signal?: AbortSignal): Promise<ExtractedPage & { truncated: boolean }> => {
+  const page = await getWebsiteFetchBackend().fetchPage(url, signal);
+  if (!/html|xml|text\/plain/i.test(page.contentType)) {
+    throw new Error(`${url} is not a web page (${page.contentType}).`);
+  }
+  const extracted = /text\/plain/i.test(page.contentType)
+    ? { url: page.url, title: page.url, text: page.html, links: [] }
+    : extractContent(page.html, page.url);
+  return { ...extracted, truncated: page.truncated };
+};
+
+/** Picks up to `count` distinct same-origin pages linked from `page`, in document order. */
+const crawlTargets = (page: ExtractedPage, count: number): string[] => {
+  const origin = new URL(page.url).origin;
+  const seen = new Set([page.url]);
+  const targets: string[] = [];
+  for (const link of page.links) {
+    if (targets.length >= count) break;
+    const url = new URL(link);
+    if (url.origin !== origin || seen.has(link) || NON_PAGE_EXTENSION.test(url.pathname)) continue;
+    seen.add(link);
+    targets.push(link);
+  }
+  return targets;
+};
+
+/**
+ * Fetches a page through the configured fetch backend and extracts its main
+ * content. With `crawlPages`, same-origin pages it links to are fetched in
+ * parallel; those that fail are reported instead of failing the whole request.
+ */
+export const fetchWebsiteContent = async (url: string, options: FetchWebsiteOptions): Promise<WebsiteContent> => {
+  let first: ExtractedPage & { truncated: boolean };
+  try {
+    first = await fetchPage(url, options.signal);
+  } catch (error) {
+    console.error(`Error fetching website content from ${url}:`, error);
+    throw new Error(`I was unable to access or process the content from the provided URL${addressUser(options.persona)}. ${error instanceof Error ? error.message : ''}`.trim());
+  }
+  if (!first.text.trim()) {
+    throw new Error(`I could not find any readable content on that page${addressUser(options.persona)}. It may require JavaScript to display.`);
+  }
+
+  const targets = crawlTargets(first, Math.min(options.crawlPages ?? 0, MAX_CRAWL_PAGES));
+  const results = await Promise.allSettled(targets.map(target => fetchPage(target, options.signal)));
+  const { truncated, ...firstPage } = first;
+  const pages: ExtractedPage[] = [firstPage];
+  const failed: string[] = [];
+  results.forEach((result, i) => {
+    if (result.status === 'fulfilled' && result.value.text.trim()) pages.push(result.value);
+    else failed.push(targets[i]);
+  });
+  return { pages, failed, truncated };
+};
+
+export interface SiteResult {
+  status: AnalyzedUrl;
+  /** Missing when the site could not be fetched. */
+  content?: WebsiteContent;
+}
 
 /**
- * Fetches the content of a given URL using a CORS proxy,
- * then cleans and extracts the text content from the HTML.
- * @param url The URL of the website to fetch.
- * @returns A promise that resolves to the cleaned text content of the page.
+ * Fetches several sites in parallel. A site that fails does not fail the
+ * others; its status records why.
  */
-export const fetchWebsiteContent = async (url: string): Promise<string> => {
-    // Using a public CORS proxy to fetch content from the client side.
-    // This is a workaround for the lack of a dedicated backend.
-    const proxyUrl = `https://api.allorigins.win/raw?url=${encodeURIComponent(url)}`;
-
-    try {
-        const response = await fetch(proxyUrl);
-        if (!response.ok) {
-            throw new Error(`Failed to fetch the URL. Status: ${response.status}`);
-        }
-        
-        const html = await response.text();
-
-        // A simple but effective way to extract text from HTML:
-        // 1. Remove script and style blocks entirely.
-        // 2. Remove all remaining HTML tags.
-        // 3. Normalize whitespace.
-        const cleanedText = html
-            .replace(/<style[^>]*>[\s\S]*?<\/style>/gi, '')
-            .replace(/<script[^>]*>[\s\S]*?<\/script>/gi, '')
-            .replace(/<[^>]*>/g, '')
-            .replace(/\s+/g, ' ')
-            .trim();
-        
-        // Truncate the content to a reasonable length to avoid hitting API token limits.
-        const maxLength = 15000;
-        return cleanedText.substring(0, maxLength);
-
-    } catch (error) {
-        console.error(`Error fetching website content from ${url}:`, error);
-        throw new Error(`I was unable to access or process the content from the provided URL, Kaarthi.`);
+export const fetchWebsites = async (urls: string[], options: FetchWebsiteOptions): Promise<SiteResult[]> => {
+  const results = await Promise.allSettled(urls.map(url => fetchWebsiteContent(url, options)));
+  return results.map((result, i): SiteResult => {
+    if (result.status === 'rejected') {
+      return { status: { url: urls[i], status: 'failed', detail: result.reason instanceof Error ? result.reason.message : String(result.reason) } };
     }
+    const content = result.value;
+    return {
+      content,
+      status: {
+        url: urls[i],
+        title: content.pages[0].title,
+        status: content.truncated ? 'truncated' : 'ok',
+        ...(content.truncated && { detail: 'The page was too large and only its beginning was read.' }),
+      },
+    };
+  });
 };
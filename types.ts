@@ -1,3 +1,5 @@
+import type { ModelCapability } from './services/modelSettings';
+
 export type Sender = 'user' | 'ai';
 export type MessageType = 'text' | 'image' | 'error' | 'grounded_text' | 'deployment' | 'website_analysis' | 'code_modification';
 
@@ -7,17 +9,70 @@ export type DeploymentStatus =
   | 'pushing_files'
   | 'creating_site'
   | 'deploying'
+  | 'building'
   | 'success'
-  | 'error';
+  | 'error'
+  | 'timed_out'
+  | 'cancelled';
+
+export type FileEncoding = 'utf8' | 'base64';
+
+export interface ProjectManifestEntry {
+  /** Path relative to the project root, with forward slashes. */
+  path: string;
+  size: number;
+  sha256: string;
+  /** How the file content is represented: text, or base64 for binary files. */
+  encoding: FileEncoding;
+}
+
+export interface ProjectManifest {
+  generatedAt: string;
+  files: ProjectManifestEntry[];
+}
+
+export interface ProjectFile {
+  path: string;
+  content: string;
+  encoding: FileEncoding;
+}
+
+export interface DeploymentTarget {
+  /** GitHub repository as `owner/name`. */
+  repoFullName: string;
+  branch: string;
+  netlifySiteId: string;
+  siteUrl: string;
+  createdAt: number;
+  lastDeployedAt?: number;
+}
+
+export interface DeploymentRecord {
+  id: string;
+  state: string;
+  status: DeploymentStatus;
+  createdAt: string;
+  commitRef?: string;
+  title?: string;
+  url?: string;
+  /** Whether this deploy is the one currently served by the site. */
+  isPublished: boolean;
+}
 
 export interface Source {
   uri: string;
   title: string;
 }
 
+export type CodeChangeStatus = 'pending' | 'accepted' | 'rejected';
+
 export interface CodeChange {
   file: string;
   reason: string;
+  /** Content of the file when the change was proposed; empty for new files. */
+  originalContent: string;
+  newContent: string;
+  status: CodeChangeStatus;
 }
 
 export interface CodeModificationPayload {
@@ -25,15 +80,107 @@ export interface CodeModificationPayload {
     changes: CodeChange[];
 }
 
+export type ImageAspectRatio = '1:1' | '3:4' | '4:3' | '9:16' | '16:9';
+
+export type ImageStylePreset = 'none' | 'cinematic' | 'photographic' | 'digital_art' | 'anime' | 'watercolor' | 'line_art' | '3d_render';
+
+export interface ImageGenerationOptions {
+  aspectRatio: ImageAspectRatio;
+  /** Between 1 and 4. */
+  numberOfImages: number;
+  style: ImageStylePreset;
+  /** What the images should not contain. */
+  negativePrompt?: string;
+}
+
+/** The request an image message was generated from, kept for variations and refinements. */
+export interface ImageGeneration {
+  prompt: string;
+  options: ImageGenerationOptions;
+}
+
+/** `truncated`: the page was fetched, but only part of it could be read. */
+export type AnalyzedUrlStatus = 'ok' | 'failed' | 'truncated';
+
+export interface AnalyzedUrl {
+  url: string;
+  status: AnalyzedUrlStatus;
+  title?: string;
+  /** Why the page could not be fetched or was truncated. */
+  detail?: string;
+}
+
+/** A file sent along with a prompt. */
+export interface Attachment {
+  id: string;
+  name: string;
+  mimeType: string;
+  size: number;
+  /** File content, base64 encoded. */
+  data: string;
+}
+
 export interface Message {
   id: string;
+  /** The message this one follows; unset for the first message. Versions of a message share a parent. */
+  parentId?: string;
   text: string;
   sender: Sender;
   type: MessageType;
-  imageUrl?: string;
+  images?: string[];
+  imageGeneration?: ImageGeneration;
   sources?: Source[];
   deploymentStatus?: DeploymentStatus;
   deploymentUrl?: string;
-  analyzedUrl?: string;
+  /** Tail of the build log, kept when a deployment fails. */
+  deploymentLog?: string[];
+  analyzedUrls?: AnalyzedUrl[];
   codeModification?: CodeModificationPayload;
-}
\ No newline at end of file
+  attachments?: Attachment[];
+  /** The model that generated an AI message. */
+  model?: string;
+  /** What the model requests behind an AI message used, including background work such as intent routing. */
+  usage?: Usage;
+  isStreaming?: boolean;
+}
+
+/** The tokens and images one model used for one capability, summed over its requests. */
+export interface ModelUsage {
+  capability: ModelCapability;
+  model: string;
+  /** Prompt tokens, including the cached ones. */
+  promptTokens: number;
+  cachedTokens: number;
+  /** Response tokens, including thinking, which is billed as output. */
+  outputTokens: number;
+  images: number;
+}
+
+export interface Usage {
+  /** When the first request was made. */
+  at: number;
+  /** Summed per capability and model. */
+  models: ModelUsage[];
+}
+
+/** The usage of one request, as kept in the usage ledger, which the totals are taken from. */
+export interface UsageRecord extends Usage {
+  /** The conversation the request was made in; it may have been deleted since. */
+  sessionId: string;
+}
+
+export interface ChatSession {
+  id: string;
+  title: string;
+  createdAt: number;
+  updatedAt: number;
+  pinned: boolean;
+  /** Set until the title has been generated from the first exchange or set by hand. */
+  needsTitle?: boolean;
+  /** The persona the assistant speaks as; the default persona when unset or deleted. */
+  personaId?: string;
+  /** Every version of every message, oldest first; see `services/messageTree.ts`. */
+  messages: Message[];
+  /** The last message of the branch shown; the newest branch when unset. */
+  activeMessageId?: string;
+}
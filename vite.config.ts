@@ -1,12 +1,36 @@
 import path from 'path';
-import { defineConfig, loadEnv } from 'vite';
+import { defineConfig, loadEnv, ProxyOptions } from 'vite';
+import { projectManifest } from './plugins/projectManifest';
+import { DEFAULT_SERVER_PORT } from './server/api';
+import { SESSION_TOKEN_HEADER, readSessionToken } from './server/sessionToken';
 
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
+    const serverPort = Number(env.SERVER_PORT) || DEFAULT_SERVER_PORT;
+    // The server only answers requests for the app's own host that carry its session token.
+    const serverProxy: ProxyOptions = {
+      target: `http://127.0.0.1:${serverPort}`,
+      changeOrigin: false,
+      configure: proxy => proxy.on('proxyReq', request => {
+        const token = readSessionToken(serverPort);
+        if (token) request.setHeader(SESSION_TOKEN_HEADER, token);
+      }),
+    };
     return {
-      define: {
-        'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+      plugins: [
+        // The files Alfreyaa sees when modifying or deploying itself.
+        // Secrets, node_modules and build output are always excluded.
+        projectManifest({
+          include: ['**/*'],
+          exclude: ['package-lock.json'],
+        }),
+      ],
+      // Keys and credentials stay on the local server (see server/index.ts); the app reaches it through /api.
+      server: {
+        proxy: { '/api': serverProxy },
+      },
+      preview: {
+        proxy: { '/api': serverProxy },
       },
       resolve: {
         alias: {